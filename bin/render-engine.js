@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI in cli/ directly so it shares src/domain without a build step
+import { register } from 'tsx/esm/api'
+
+register()
+await import('../cli/index.ts')
@@ -0,0 +1,100 @@
+import { EXIT_INVALID, EXIT_OK, EXIT_USAGE } from './io'
+import type { CommandOptions } from './io'
+import { schemasCommand } from './schemas'
+import { scoreCommand } from './score'
+import { serveCommand } from './serve'
+import { statsCommand } from './stats'
+import { validateCommand } from './validate'
+
+const USAGE = `Usage: render-engine <command> [options]
+
+Commands:
+  validate <dir|file>                 Schema-check and lint every JSON spec under <dir>
+  stats <assessment.json>             Count questions per type, OMI and difficulty
+  score <spec.json> <answers.jsonl>   Score one answer payload per line and print the results
+  schemas [--check]                   Write JSON Schema documents to <public>/schemas, or check them
+  serve <dir|file> [--port <n>]       Score answers POSTed to /evaluate against the specs under <dir>
+
+Options:
+  --json            Print JSON instead of text
+  --check           Verify instead of write (schemas)
+  --public <dir>    Directory that manifest paths such as /specs/... resolve against (default: public)
+  --port <n>        Port for serve (default: 8787)
+
+Exit codes: 0 ok, 1 invalid content or answers, 2 usage error`
+
+function parseArgs(argv: string[]): { positional: string[]; options: CommandOptions } | null {
+  const positional: string[] = []
+  const options: CommandOptions = { json: false, check: false, publicDir: 'public', port: 8787 }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === '--help') {
+      positional.unshift('help')
+    } else if (arg === '--json') {
+      options.json = true
+    } else if (arg === '--check') {
+      options.check = true
+    } else if (arg === '--public') {
+      const value = argv[++i]
+      if (!value) return null
+      options.publicDir = value
+    } else if (arg === '--port') {
+      const value = Number(argv[++i])
+      if (!Number.isInteger(value) || value <= 0) return null
+      options.port = value
+    } else if (arg.startsWith('--')) {
+      return null
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  return { positional, options }
+}
+
+async function run(argv: string[]): Promise<number> {
+  const parsed = parseArgs(argv)
+  if (!parsed) {
+    console.error(USAGE)
+    return EXIT_USAGE
+  }
+
+  const [command, ...args] = parsed.positional
+  if (command === 'help') {
+    console.log(USAGE)
+    return EXIT_OK
+  }
+  if (command === 'validate' && args.length === 1) {
+    return validateCommand(args[0], parsed.options)
+  }
+  if (command === 'stats' && args.length === 1) {
+    return statsCommand(args[0], parsed.options)
+  }
+  if (command === 'score' && args.length === 2) {
+    return scoreCommand(args[0], args[1], parsed.options)
+  }
+  if (command === 'schemas' && args.length === 0) {
+    return schemasCommand(parsed.options)
+  }
+  if (command === 'serve' && args.length === 1) {
+    return serveCommand(args[0], parsed.options)
+  }
+
+  console.error(USAGE)
+  return EXIT_USAGE
+}
+
+// A path that does not exist is a bad invocation, not invalid content
+const isUsageError = (error: unknown) =>
+  error instanceof Error && ['ENOENT', 'ENOTDIR'].includes((error as NodeJS.ErrnoException).code ?? '')
+
+run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exitCode = isUsageError(error) ? EXIT_USAGE : EXIT_INVALID
+  },
+)
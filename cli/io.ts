@@ -0,0 +1,56 @@
+import { readdir, readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import type { Diagnostic } from '../src/domain/diagnostics'
+import type { JsonReader } from '../src/lib/assessmentLoader'
+
+export const EXIT_OK = 0
+export const EXIT_INVALID = 1 // Content failed validation or could not be scored
+export const EXIT_USAGE = 2
+
+export interface CommandOptions {
+  json: boolean
+  check: boolean
+  publicDir: string // Root that manifest paths such as /specs/... resolve against
+  port: number // serve
+}
+
+export async function readJsonFile(file: string): Promise<unknown> {
+  return JSON.parse(await readFile(file, 'utf8'))
+}
+
+export async function readLines(file: string): Promise<string[]> {
+  return (await readFile(file, 'utf8')).split(/\r?\n/)
+}
+
+/** Every .json file under target (or target itself when it is a file), sorted. */
+export async function listJsonFiles(target: string): Promise<string[]> {
+  if (!(await stat(target)).isDirectory()) {
+    return [target]
+  }
+  const entries = await readdir(target, { withFileTypes: true })
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(target, entry.name)
+      if (entry.isDirectory()) return listJsonFiles(fullPath)
+      return Promise.resolve(entry.name.endsWith('.json') ? [fullPath] : [])
+    }),
+  )
+  return nested.flat().sort()
+}
+
+/** The URL a file is served from, e.g. public/specs/a.json -> /specs/a.json */
+export function publicUrl(file: string, publicDir: string): string {
+  return '/' + path.relative(publicDir, file).split(path.sep).join('/')
+}
+
+export function publicJsonReader(publicDir: string): JsonReader {
+  return (urlPath) => readJsonFile(path.join(publicDir, urlPath))
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `  ${diagnostic.severity.padEnd(7)} ${diagnostic.path}  ${diagnostic.message} (${diagnostic.code})`
+}
+
+export function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
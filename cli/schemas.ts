@@ -0,0 +1,137 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import Ajv2020 from 'ajv/dist/2020.js'
+import { schemaDocumentPath, schemaExports, toJsonSchemaDocument } from '../src/domain/jsonSchema'
+import type { SchemaExport } from '../src/domain/jsonSchema'
+import { EXIT_INVALID, EXIT_OK, listJsonFiles, readJsonFile } from './io'
+import type { CommandOptions } from './io'
+
+const EXAMPLES_DIR = path.join('specs', 'examples')
+const MANIFEST_FILE = 'assessment.json'
+
+interface Fixture {
+  name: string
+  kind: string // Spec type, or "assessment" for manifests
+  value: unknown
+}
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+async function loadFixtures(publicDir: string): Promise<Fixture[]> {
+  const files = await listJsonFiles(path.join(publicDir, 'specs'))
+  return Promise.all(
+    files.map(async (file) => {
+      const value = await readJsonFile(file)
+      const kind =
+        path.basename(file) === MANIFEST_FILE
+          ? 'assessment'
+          : String(isObject(value) ? value.type : 'unknown')
+      return { name: path.relative(publicDir, file), kind, value }
+    }),
+  )
+}
+
+function applies(entry: SchemaExport, fixture: Fixture): boolean {
+  if (entry.accepts === 'game-spec') return fixture.kind !== 'assessment'
+  return entry.accepts === fixture.kind
+}
+
+/** Examples from specs/examples, falling back to the first other file of the same type. */
+function examplesFor(entry: SchemaExport, fixtures: Fixture[]): unknown[] {
+  const valid = fixtures.filter((fixture) => applies(entry, fixture) && entry.schema.safeParse(fixture.value).success)
+  const curated = valid.filter((fixture) => fixture.name.startsWith(EXAMPLES_DIR + path.sep))
+  const chosen = curated.length > 0 ? curated : valid.slice(0, 1)
+  return chosen.map((fixture) => fixture.value)
+}
+
+// Small edits that each schema should accept or reject consistently
+function mutations(fixture: Fixture): Fixture[] {
+  if (!isObject(fixture.value)) return []
+  const root = fixture.value
+  const variants: Array<[string, JsonObject]> = [
+    ['extra root field', { ...root, unexpectedField: true }],
+    ['missing id', Object.fromEntries(Object.entries(root).filter(([key]) => key !== 'id'))],
+    ['unknown type', { ...root, type: 'unknown-type' }],
+    ['numeric title', { ...root, title: 42 }],
+  ]
+
+  const arrayKey = Object.keys(root).find((key) => {
+    const value = root[key]
+    return Array.isArray(value) && value.length > 0 && isObject(value[0])
+  })
+  if (arrayKey) {
+    const [first, ...rest] = root[arrayKey] as JsonObject[]
+    variants.push([`empty ${arrayKey}`, { ...root, [arrayKey]: [] }])
+    variants.push([`extra field in ${arrayKey}[0]`, { ...root, [arrayKey]: [{ ...first, unexpectedField: true }, ...rest] }])
+  }
+
+  return variants.map(([label, value]) => ({ name: `${fixture.name} (${label})`, kind: fixture.kind, value }))
+}
+
+function checkParity(documents: Map<SchemaExport, JsonObject>, fixtures: Fixture[]): string[] {
+  const ajv = new Ajv2020()
+  const candidates = [...fixtures, ...fixtures.flatMap(mutations)]
+  const disagreements: string[] = []
+
+  documents.forEach((document, entry) => {
+    const validate = ajv.compile(document)
+    candidates.forEach((candidate) => {
+      const zodAccepts = entry.schema.safeParse(candidate.value).success
+      const jsonAccepts = validate(candidate.value)
+      if (zodAccepts !== jsonAccepts) {
+        const detail = validate.errors?.[0] ? ` (${validate.errors[0].instancePath || '/'} ${validate.errors[0].message})` : ''
+        disagreements.push(
+          `${entry.name}: ${candidate.name} zod=${zodAccepts ? 'accept' : 'reject'} json-schema=${jsonAccepts ? 'accept' : 'reject'}${detail}`,
+        )
+      }
+    })
+  })
+
+  console.log(
+    `Checked ${documents.size} schemas against ${candidates.length} fixtures: ${disagreements.length} disagreements`,
+  )
+  return disagreements
+}
+
+/**
+ * Writes every exported schema to public/schemas/v{n}/. With --check nothing
+ * is written; instead the files must be current and agree with Zod on every
+ * fixture under public/specs and on mutated copies of them.
+ */
+export async function schemasCommand(options: CommandOptions): Promise<number> {
+  const fixtures = await loadFixtures(options.publicDir)
+  const documents = new Map(
+    schemaExports.map((entry): [SchemaExport, JsonObject] => [
+      entry,
+      toJsonSchemaDocument(entry, examplesFor(entry, fixtures)),
+    ]),
+  )
+
+  if (!options.check) {
+    for (const [entry, document] of documents) {
+      const file = path.join(options.publicDir, schemaDocumentPath(entry.name))
+      await mkdir(path.dirname(file), { recursive: true })
+      await writeFile(file, JSON.stringify(document, null, 2) + '\n')
+      console.log(`wrote ${file}`)
+    }
+    return EXIT_OK
+  }
+
+  const stale: string[] = []
+  for (const [entry, document] of documents) {
+    const file = path.join(options.publicDir, schemaDocumentPath(entry.name))
+    const current = await readFile(file, 'utf8').catch(() => null)
+    if (current !== JSON.stringify(document, null, 2) + '\n') stale.push(file)
+  }
+  stale.forEach((file) => console.error(`out of date: ${file}`))
+  if (stale.length > 0) console.error('Run `render-engine schemas` to regenerate.')
+
+  const disagreements = checkParity(documents, fixtures)
+  disagreements.forEach((line) => console.error(`  ${line}`))
+
+  return stale.length > 0 || disagreements.length > 0 ? EXIT_INVALID : EXIT_OK
+}
@@ -0,0 +1,71 @@
+import { validateSpec } from '../src/domain/lint'
+import { hasErrors } from '../src/domain/diagnostics'
+import { parseAnswerPayload } from '../src/domain/registry'
+import { scoreGame } from '../src/domain/scoring'
+import type { EvaluationResult } from '../src/domain/events'
+import { EXIT_INVALID, EXIT_OK, formatDiagnostic, formatPercent, readJsonFile, readLines } from './io'
+import type { CommandOptions } from './io'
+
+function scoreLine(
+  line: string,
+  spec: NonNullable<ReturnType<typeof validateSpec>['spec']>,
+): EvaluationResult | string {
+  let raw: unknown
+  try {
+    raw = JSON.parse(line)
+  } catch {
+    return 'not valid JSON'
+  }
+
+  const answer = parseAnswerPayload(raw)
+  if (!answer.success) {
+    const issue = answer.error.issues[0]
+    return `invalid answer at ${issue.path.join('.') || '(root)'}: ${issue.message}`
+  }
+
+  const result = scoreGame(spec, answer.data)
+  return result ?? `answer type "${answer.data.type}" cannot score a "${spec.type}" spec`
+}
+
+/** Scores one AnswerPayload ({ type, payload }) per line of answersFile against specFile. */
+export async function scoreCommand(specFile: string, answersFile: string, options: CommandOptions): Promise<number> {
+  const { spec, diagnostics } = validateSpec(await readJsonFile(specFile))
+  if (!spec || hasErrors(diagnostics)) {
+    console.error(`${specFile} is not a valid spec:`)
+    diagnostics.forEach((diagnostic) => console.error(formatDiagnostic(diagnostic)))
+    return EXIT_INVALID
+  }
+
+  const lines = await readLines(answersFile)
+  const results: EvaluationResult[] = []
+  let failures = 0
+
+  lines.forEach((line, index) => {
+    if (line.trim() === '') return
+    const lineNumber = index + 1
+    const outcome = scoreLine(line, spec)
+
+    if (typeof outcome === 'string') {
+      failures++
+      console.error(`${answersFile}:${lineNumber}: ${outcome}`)
+      return
+    }
+
+    results.push(outcome)
+    if (options.json) {
+      console.log(JSON.stringify({ line: lineNumber, ...outcome }))
+    } else {
+      const mark = outcome.correct ? 'correct  ' : 'incorrect'
+      const feedback = outcome.feedback ? `  ${outcome.feedback}` : ''
+      console.log(`line ${String(lineNumber).padEnd(4)} ${mark} ${formatPercent(outcome.score).padStart(4)}${feedback}`)
+    }
+  })
+
+  if (!options.json && results.length > 0) {
+    const correct = results.filter((result) => result.correct).length
+    const mean = results.reduce((sum, result) => sum + result.score, 0) / results.length
+    console.log(`\n${results.length} answers scored: ${correct} correct, mean score ${formatPercent(mean)}`)
+  }
+
+  return failures > 0 ? EXIT_INVALID : EXIT_OK
+}
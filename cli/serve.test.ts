@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict'
+import type { Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, test } from 'node:test'
+import type { EvaluationResult } from '../src/domain/events'
+import { validateSpec } from '../src/domain/lint'
+import { isBuiltInGameSpec } from '../src/domain/registry'
+import type { GameSpec, MCQSetSpec } from '../src/domain/schema'
+import { readJsonFile } from './io'
+import { createEvaluationServer } from './serve'
+
+let server: Server
+let endpoint = ''
+let spec: MCQSetSpec
+
+before(async () => {
+  const { spec: parsed } = validateSpec(await readJsonFile('public/specs/AS92006/mcq-set.json'))
+  assert.ok(parsed && isBuiltInGameSpec(parsed) && parsed.type === 'mcq-set')
+  spec = { ...parsed, retryCredit: [1, 0.5] }
+  server = createEvaluationServer(new Map<string, GameSpec>([[spec.id, spec]]))
+  await new Promise<void>((resolve) => server.listen(0, resolve))
+  endpoint = `http://localhost:${(server.address() as AddressInfo).port}/evaluate`
+})
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())))
+
+function post(body: unknown) {
+  return fetch(endpoint, { method: 'POST', body: JSON.stringify(body) })
+}
+
+function correctAnswers(): Record<string, string | string[]> {
+  return Object.fromEntries(
+    spec.questions.map((question) => [
+      question.id,
+      'correctOptionIds' in question ? question.correctOptionIds : question.correctOptionId,
+    ]),
+  )
+}
+
+test('a wrong check then a right submission earns the second-try credit', async () => {
+  const answers = correctAnswers()
+  const [first] = spec.questions
+  const wrong = first.options.find((option) => option.id !== answers[first.id])?.id
+  assert.ok(wrong)
+
+  const check = await post({
+    gameId: spec.id,
+    sessionId: 'learner-1',
+    questionId: first.id,
+    answer: { type: 'mcq-set', payload: { answers: { [first.id]: wrong } } },
+  })
+  assert.equal(check.status, 204)
+
+  const submit = await post({
+    gameId: spec.id,
+    sessionId: 'learner-1',
+    answer: { type: 'mcq-set', payload: { answers, attempts: {} } },
+  })
+  assert.equal(submit.status, 200)
+  const result = (await submit.json()) as EvaluationResult
+  const firstAttempts = result.attempts?.find((entry) => entry.questionId === first.id)
+  assert.equal(firstAttempts?.attempts, 2)
+  assert.equal(firstAttempts?.credit, 0.5)
+  assert.ok(result.score < 1)
+})
+
+test('a submission in another session starts a fresh history', async () => {
+  const submit = await post({
+    gameId: spec.id,
+    sessionId: 'learner-2',
+    answer: { type: 'mcq-set', payload: { answers: correctAnswers() } },
+  })
+  const result = (await submit.json()) as EvaluationResult
+  assert.equal(result.score, 1)
+})
@@ -0,0 +1,176 @@
+import { createServer } from 'node:http'
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import path from 'node:path'
+import { hasErrors } from '../src/domain/diagnostics'
+import type { EvaluationRequest } from '../src/domain/events'
+import { validateSpec } from '../src/domain/lint'
+import { parseAnswerPayload } from '../src/domain/registry'
+import type { CustomAnswerPayload, CustomGameSpec } from '../src/domain/registry'
+import type { AnswerPayload, GameSpec } from '../src/domain/schema'
+import { scoreGame } from '../src/domain/scoring'
+import { EXIT_INVALID, EXIT_OK, listJsonFiles, readJsonFile } from './io'
+import type { CommandOptions } from './io'
+
+const MANIFEST_FILE = 'assessment.json'
+const MAX_BODY_BYTES = 1024 * 1024
+// Sets whose scorers charge for retries; their answers and attempts are keyed by question id
+const RETRYABLE_TYPES = new Set<string>(['mcq-set', 'ordering-set', 'showdown-set'])
+
+// Answers this evaluator has seen, per session and game, then per question, oldest first
+type AttemptLog = Map<string, Record<string, unknown[]>>
+
+interface EvaluationResponse {
+  status: number
+  body: unknown // EvaluationResult, { error } for a 4xx status, nothing for a logged check
+}
+
+async function loadSpecs(target: string): Promise<Map<string, GameSpec | CustomGameSpec>> {
+  const specs = new Map<string, GameSpec | CustomGameSpec>()
+  for (const file of await listJsonFiles(target)) {
+    if (path.basename(file) === MANIFEST_FILE) continue
+    const { spec, diagnostics } = validateSpec(await readJsonFile(file))
+    if (!spec || hasErrors(diagnostics)) {
+      console.error(`Skipping ${file}: not a valid spec (run render-engine validate for details)`)
+    } else if (specs.has(spec.id)) {
+      console.error(`Skipping ${file}: id "${spec.id}" is already served`)
+    } else {
+      specs.set(spec.id, spec)
+    }
+  }
+  return specs
+}
+
+// Adds each answer to its question's history, unless it repeats the last one
+function logAnswers(log: AttemptLog, key: string, answers: Record<string, unknown>) {
+  const seen = log.get(key) ?? {}
+  for (const [questionId, response] of Object.entries(answers)) {
+    const history = seen[questionId] ?? []
+    if (JSON.stringify(history[history.length - 1]) !== JSON.stringify(response)) history.push(response)
+    seen[questionId] = history
+  }
+  log.set(key, seen)
+}
+
+/**
+ * Swaps the attempts a client reports for the answers this evaluator has been
+ * sent in the session, checks included, and logs the submitted ones. A retry
+ * only counts once it reaches the evaluator. Without a session the history is
+ * unknown.
+ */
+function withLoggedAttempts(
+  answer: AnswerPayload | CustomAnswerPayload,
+  log: AttemptLog,
+  gameId: string,
+  sessionId: string | null,
+): AnswerPayload | CustomAnswerPayload {
+  if (!RETRYABLE_TYPES.has(answer.type)) return answer
+  const payload = { ...(answer.payload as { answers: Record<string, unknown>; attempts?: unknown }) }
+  delete payload.attempts
+  if (!sessionId) return { ...answer, payload } as AnswerPayload
+
+  const key = `${sessionId}\u0000${gameId}`
+  const scored = { ...answer, payload: { ...payload, attempts: structuredClone(log.get(key) ?? {}) } } as AnswerPayload
+  logAnswers(log, key, payload.answers)
+  return scored
+}
+
+/**
+ * Scores one EvaluationRequest against the spec with its gameId, with the same
+ * scorers as the browser. A request with a questionId is a check of that
+ * question, which is only logged.
+ */
+function evaluateRequest(specs: Map<string, GameSpec | CustomGameSpec>, log: AttemptLog, request: unknown): EvaluationResponse {
+  const { gameId, answer, sessionId, questionId } = (request ?? {}) as Partial<Record<keyof EvaluationRequest, unknown>>
+  if (typeof gameId !== 'string') {
+    return { status: 400, body: { error: 'gameId must be a string' } }
+  }
+  const spec = specs.get(gameId)
+  if (!spec) {
+    return { status: 404, body: { error: `No spec with id "${gameId}"` } }
+  }
+
+  const parsed = parseAnswerPayload(answer)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { status: 400, body: { error: `invalid answer at ${issue.path.join('.') || '(root)'}: ${issue.message}` } }
+  }
+  const session = typeof sessionId === 'string' && sessionId ? sessionId : null
+  if (questionId !== undefined) {
+    if (typeof questionId !== 'string' || parsed.data.type !== spec.type || !RETRYABLE_TYPES.has(spec.type)) {
+      return { status: 400, body: { error: 'questionId only applies to a set that allows retries' } }
+    }
+    const { answers } = parsed.data.payload as { answers: Record<string, unknown> }
+    if (!session || !(questionId in answers)) {
+      return { status: 400, body: { error: 'a check needs a sessionId and an answer for its question' } }
+    }
+    logAnswers(log, `${session}\u0000${gameId}`, { [questionId]: answers[questionId] })
+    return { status: 204, body: undefined }
+  }
+  if ('retryCredit' in spec && spec.retryCredit && !session) {
+    return { status: 400, body: { error: `"${gameId}" charges for retries, so requests need a sessionId` } }
+  }
+  const result = scoreGame(spec, withLoggedAttempts(parsed.data, log, gameId, session))
+  return result
+    ? { status: 200, body: result }
+    : { status: 400, body: { error: `answer type "${parsed.data.type}" cannot score a "${spec.type}" spec` } }
+}
+
+async function readBody(request: IncomingMessage): Promise<unknown> {
+  let body = ''
+  for await (const chunk of request) {
+    body += chunk
+    if (body.length > MAX_BODY_BYTES) throw new Error('Request body is too large')
+  }
+  return JSON.parse(body)
+}
+
+function send(response: ServerResponse, status: number, body?: unknown) {
+  // Any origin may call the evaluator, so the Vite dev server can reach it
+  response.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+  })
+  response.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+/** Answers POST /evaluate for the given specs. Each server keeps its own attempt log. */
+export function createEvaluationServer(specs: Map<string, GameSpec | CustomGameSpec>): Server {
+  const attemptLog: AttemptLog = new Map()
+  return createServer((request, response) => {
+    if (request.method === 'OPTIONS') {
+      send(response, 204)
+      return
+    }
+    if (request.method !== 'POST' || request.url !== '/evaluate') {
+      send(response, 404, { error: 'Use POST /evaluate' })
+      return
+    }
+    readBody(request).then(
+      (body) => {
+        const { status, body: result } = evaluateRequest(specs, attemptLog, body)
+        send(response, status, result)
+      },
+      (error) => send(response, 400, { error: error instanceof Error ? error.message : 'Unreadable request body' }),
+    )
+  })
+}
+
+/** Serves POST /evaluate for the specs under target until the process is stopped. */
+export async function serveCommand(target: string, options: CommandOptions): Promise<number> {
+  const specs = await loadSpecs(target)
+  if (specs.size === 0) {
+    console.error(`No valid specs under ${target}`)
+    return EXIT_INVALID
+  }
+
+  const server = createEvaluationServer(specs)
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.once('close', () => resolve(EXIT_OK))
+    server.listen(options.port, () => {
+      console.log(`Evaluating ${specs.size} specs at http://localhost:${options.port}/evaluate`)
+    })
+  })
+}
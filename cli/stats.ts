@@ -0,0 +1,66 @@
+import { describeQuestions } from '../src/domain/assessment'
+import type { QuestionSummary } from '../src/domain/assessment'
+import { parseGameSpec } from '../src/domain/registry'
+import { loadAssessment } from '../src/lib/assessmentLoader'
+import { EXIT_INVALID, EXIT_OK, formatDiagnostic, publicJsonReader, publicUrl } from './io'
+import type { CommandOptions } from './io'
+
+type Counts = Record<string, number>
+
+function countBy(questions: QuestionSummary[], keys: (question: QuestionSummary) => string[]): Counts {
+  const counts: Counts = {}
+  questions.forEach((question) => {
+    keys(question).forEach((key) => {
+      counts[key] = (counts[key] ?? 0) + 1
+    })
+  })
+  return counts
+}
+
+function printCounts(heading: string, counts: Counts, labels: Record<string, string> = {}) {
+  console.log(`\n${heading}`)
+  const rows = Object.entries(counts).sort(([, a], [, b]) => b - a)
+  const width = Math.max(...rows.map(([key]) => (labels[key] ?? key).length))
+  rows.forEach(([key, count]) => console.log(`  ${(labels[key] ?? key).padEnd(width)}  ${count}`))
+}
+
+export async function statsCommand(manifestFile: string, options: CommandOptions): Promise<number> {
+  const manifestUrl = publicUrl(manifestFile, options.publicDir)
+  const { manifest, gameSets, issues } = await loadAssessment(manifestUrl, publicJsonReader(options.publicDir))
+  const errors = issues.filter((issue) => issue.severity === 'error')
+
+  if (!manifest) {
+    errors.forEach((issue) => console.error(formatDiagnostic(issue)))
+    return EXIT_INVALID
+  }
+
+  const questions = gameSets.flatMap(({ source }) => {
+    const parsed = parseGameSpec(source)
+    return parsed.success ? describeQuestions(parsed.data) : []
+  })
+
+  const byType = countBy(questions, (question) => [question.type])
+  const byOmi = countBy(questions, (question) => (question.omis.length > 0 ? question.omis : ['(none)']))
+  const byDifficulty = countBy(questions, (question) => [String(question.difficulty ?? 'unspecified')])
+  // Listed OMIs that no question assesses are as interesting as the counts
+  manifest.omiList.forEach((omi) => {
+    byOmi[omi.id] ??= 0
+  })
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({ assessment: manifest.id, questions: questions.length, byType, byOmi, byDifficulty }, null, 2),
+    )
+  } else {
+    const omiNames = Object.fromEntries(manifest.omiList.map((omi) => [omi.id, `${omi.id} ${omi.name}`]))
+    console.log(`${manifest.standard} ${manifest.title}: ${questions.length} questions in ${gameSets.length} game sets`)
+    printCounts('By type', byType)
+    printCounts('By OMI', byOmi, omiNames)
+    printCounts('By difficulty', byDifficulty)
+    if (errors.length > 0) {
+      console.log(`\n${errors.length} errors; run validate for details. Counts exclude invalid game sets.`)
+    }
+  }
+
+  return errors.length > 0 ? EXIT_INVALID : EXIT_OK
+}
@@ -0,0 +1,102 @@
+import { stat } from 'node:fs/promises'
+import path from 'node:path'
+import { validateSpec } from '../src/domain/lint'
+import type { Diagnostic } from '../src/domain/diagnostics'
+import type { MigrationContext } from '../src/domain/migrations'
+import { isBuiltInGameSpec } from '../src/domain/registry'
+import type { CustomGameSpec } from '../src/domain/registry'
+import type { AssessmentManifest, GameSpec } from '../src/domain/schema'
+import { loadAssessment } from '../src/lib/assessmentLoader'
+import {
+  EXIT_INVALID,
+  EXIT_OK,
+  formatDiagnostic,
+  listJsonFiles,
+  publicJsonReader,
+  publicUrl,
+  readJsonFile,
+} from './io'
+import type { CommandOptions } from './io'
+
+const MANIFEST_FILE = 'assessment.json'
+
+interface ManifestCheck {
+  file: string
+  manifest: AssessmentManifest | null
+  diagnostics: Diagnostic[]
+}
+
+async function checkManifest(file: string, options: CommandOptions): Promise<ManifestCheck> {
+  const urlPath = publicUrl(file, options.publicDir)
+  const { manifest, issues } = await loadAssessment(urlPath, publicJsonReader(options.publicDir))
+  const diagnostics = issues
+    // Game-set schema errors and migrations are reported again when that file is validated on its own
+    .filter((issue) => issue.code !== 'invalid-game-set' && issue.code !== 'migrated')
+    .map(({ source, ...issue }) => (source === urlPath ? issue : { ...issue, path: `${source} ${issue.path}` }))
+  return { file, manifest, diagnostics }
+}
+
+// Hotspot images are served from the public folder, so a missing file only shows up as a broken image
+async function checkAssets(spec: GameSpec | CustomGameSpec | null, publicDir: string): Promise<Diagnostic[]> {
+  if (!spec || !isBuiltInGameSpec(spec) || spec.type !== 'hotspot') return []
+  const found = await stat(path.join(publicDir, spec.image.src)).then(
+    (info) => info.isFile(),
+    () => false,
+  )
+  return found
+    ? []
+    : [{ severity: 'error', code: 'missing-asset', path: '$.image.src', message: `Image "${spec.image.src}" was not found.` }]
+}
+
+async function validateFile(file: string, context: MigrationContext, publicDir: string): Promise<Diagnostic[]> {
+  try {
+    const { spec, diagnostics } = validateSpec(await readJsonFile(file), context)
+    return [...diagnostics, ...(await checkAssets(spec, publicDir))]
+  } catch (error) {
+    return [
+      {
+        severity: 'error',
+        code: 'unreadable',
+        path: '$',
+        message: error instanceof Error ? error.message : 'Could not read file',
+      },
+    ]
+  }
+}
+
+export async function validateCommand(target: string, options: CommandOptions): Promise<number> {
+  const files = await listJsonFiles(target)
+  const manifests = await Promise.all(
+    files.filter((file) => path.basename(file) === MANIFEST_FILE).map((file) => checkManifest(file, options)),
+  )
+  // Game sets listed in a manifest are migrated the way the app loads them
+  const manifestByGameSet = new Map<string, AssessmentManifest>()
+  manifests.forEach(({ manifest }) => {
+    manifest?.gameSets.forEach((entry) => manifestByGameSet.set(entry.path, manifest))
+  })
+
+  const results = await Promise.all(
+    files.map(async (file) => {
+      const manifestCheck = manifests.find((check) => check.file === file)
+      if (manifestCheck) return { file, diagnostics: manifestCheck.diagnostics }
+      const manifest = manifestByGameSet.get(publicUrl(file, options.publicDir))
+      return { file, diagnostics: await validateFile(file, { manifest }, options.publicDir) }
+    }),
+  )
+  const all = results.flatMap((result) => result.diagnostics)
+  const errorCount = all.filter((diagnostic) => diagnostic.severity === 'error').length
+  const warningCount = all.length - errorCount
+
+  if (options.json) {
+    console.log(JSON.stringify({ files: results, errorCount, warningCount }, null, 2))
+  } else {
+    results.forEach(({ file, diagnostics }) => {
+      if (diagnostics.length === 0) return
+      console.log(file)
+      diagnostics.forEach((diagnostic) => console.log(formatDiagnostic(diagnostic)))
+    })
+    console.log(`\n${files.length} files checked: ${errorCount} errors, ${warningCount} warnings`)
+  }
+
+  return errorCount > 0 ? EXIT_INVALID : EXIT_OK
+}
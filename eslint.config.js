@@ -20,4 +20,10 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    files: ['cli/**/*.ts', 'bin/**/*.js'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
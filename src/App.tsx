@@ -1,7 +1,14 @@
 import { useEffect, useMemo, useState } from 'react'
 import { GameRenderer } from './components/GameRenderer'
+import { AssessmentReport } from './components/AssessmentReport'
 import { useRendererStore } from './lib/store'
+import { loadAssessment as loadAssessmentSources } from './lib/assessmentLoader'
+import { getEvaluationSessionId, reportCheck, requestEvaluation } from './lib/evaluator'
+import type { AssessmentIssue } from './domain/assessment'
 import type { RendererEvent } from './domain/events'
+import type { AssessmentManifest, FlashcardsSpec } from './domain/schema'
+import { flashcardKey, flashcardsFromPairMatchSet, isDueToday } from './domain/flashcards'
+import { getGameType, isBuiltInGameSpec, parseGameSpec } from './domain/registry'
 
 interface GameSpec {
   label: string
@@ -10,48 +17,24 @@ interface GameSpec {
   error?: string
 }
 
-interface GameSetMetadata {
-  id: string
-  title: string
-  type: string
-  path: string
-  description: string
-}
-
-interface AssessmentMetadata {
-  id: string
-  standard: string
-  title: string
-  fullTitle: string
-  subject: string
-  level: number
-  credits: number
-  description: string
-  learningOutcomes: {
-    achieved: string
-    merit: string
-    excellence: string
-  }
-  omiList: Array<{
-    id: string
-    name: string
-    description: string
-  }>
-  gameSets: GameSetMetadata[]
-  metadata: {
-    version: string
-    lastUpdated: string
-    author: string
-    totalQuestions: number
-    estimatedDuration: string
-  }
-}
-
 interface Assessment {
   id: string
   label: string
   specs: GameSpec[]
-  metadata?: AssessmentMetadata
+}
+
+// When set, the assessment's games are scored by this HTTP evaluator instead of in the browser
+const evaluatorUrl: string | undefined = import.meta.env.VITE_EVALUATOR_URL
+
+// Content warnings are for authors; errors are shown to everyone, since they can hide activities
+const authorMode = import.meta.env.DEV || import.meta.env.VITE_AUTHOR_MODE === 'true'
+
+// Progress units of a registered game type; undefined for built-in types and types without units
+const registeredUnitIds = (source: unknown): string[] | undefined => {
+  const definition = getGameType(String((source as { type?: unknown } | null)?.type))
+  if (!definition?.units) return undefined
+  const parsed = definition.specSchema.safeParse(source)
+  return parsed.success ? definition.units.ids(parsed.data) : []
 }
 
 const assessments: Assessment[] = [
@@ -69,8 +52,10 @@ export default function App() {
   const [currentSpecIndex, setCurrentSpecIndex] = useState<number | null>(null)
   const [gameKey, setGameKey] = useState(0)
   const [gameTransition, setGameTransition] = useState(true)
-  const [viewMode, setViewMode] = useState<'library' | 'playing'>('library')
-  const [assessmentMetadata, setAssessmentMetadata] = useState<AssessmentMetadata | null>(null)
+  const [viewMode, setViewMode] = useState<'library' | 'playing' | 'reviewing'>('library')
+  const [reviewDeck, setReviewDeck] = useState<FlashcardsSpec | null>(null)
+  const [assessmentMetadata, setAssessmentMetadata] = useState<AssessmentManifest | null>(null)
+  const [assessmentIssues, setAssessmentIssues] = useState<AssessmentIssue[]>([])
   const [showCompletionModal, setShowCompletionModal] = useState(false)
   const [allQuestionsCompleted, setAllQuestionsCompleted] = useState(false)
   
@@ -78,6 +63,7 @@ export default function App() {
   const evaluations = useRendererStore((state) => state.evaluations)
   const submittedQuestions = useRendererStore((state) => state.submittedQuestions)
   const omiProgress = useRendererStore((state) => state.omiProgress)
+  const flashcardReviews = useRendererStore((state) => state.flashcardReviews)
 
   const currentAssessment = assessments[0]
 
@@ -115,9 +101,21 @@ export default function App() {
       if (!spec.source) return
       const specData = spec.source as any
       const gameSubmissions = submittedQuestions.filter(q => q.gameId === specData.id)
+      const unitIds = registeredUnitIds(specData)
       
-      if (specData.questions) {
-        // MCQSet, OrderingSet, PairMatchSet
+      if (unitIds) {
+        // Registered game types
+        unitIds.forEach((questionId) => {
+          const submission = gameSubmissions.find(sub => sub.questionId === questionId)
+          allQuestions.push({
+            gameId: specData.id,
+            questionId,
+            isAnswered: !!submission,
+            isCorrect: submission?.correct || false,
+          })
+        })
+      } else if (specData.questions) {
+        // MCQSet, OrderingSet, PairMatchSet, FillInTheBlanksSet
         specData.questions.forEach((q: any) => {
           const submission = gameSubmissions.find(s => s.questionId === q.id)
           allQuestions.push({
@@ -139,7 +137,7 @@ export default function App() {
           })
         })
       } else if (specData.activities) {
-        // ClassificationSet (legacy shape)
+        // ActivitySet (legacy classification sets are migrated to questions on load)
         specData.activities.forEach((a: any) => {
           const submission = gameSubmissions.find(sub => sub.questionId === a.id)
           allQuestions.push({
@@ -160,6 +158,17 @@ export default function App() {
             isCorrect: submission?.correct || false,
           })
         })
+      } else if (specData.cards) {
+        // Flashcards
+        specData.cards.forEach((card: { id: string }) => {
+          const submission = gameSubmissions.find(sub => sub.questionId === card.id)
+          allQuestions.push({
+            gameId: specData.id,
+            questionId: card.id,
+            isAnswered: !!submission,
+            isCorrect: submission?.correct || false,
+          })
+        })
       }
     })
 
@@ -180,6 +189,7 @@ export default function App() {
         specData.sentences?.length ||
         specData.activities?.length ||
         specData.showdowns?.length ||
+        specData.cards?.length ||
         0
       console.log(`  ${spec.label} (${specData.id}): ${questionCount} questions`)
     })
@@ -218,15 +228,21 @@ export default function App() {
   const resolveUnitLabel = (specData: any): string => {
     switch (specData?.type) {
       case 'mcq':
+      case 'mcq-multi':
       case 'mcq-set':
+      case 'short-answer':
+      case 'numeric':
+      case 'numeric-set':
         return 'question'
       case 'ordering':
       case 'ordering-set':
+      case 'parsons':
         return 'question'
       case 'pair-match':
       case 'pair-match-set':
         return 'match'
       case 'fill-in-the-blanks':
+      case 'scenario':
         return 'scenario'
       case 'fill-in-the-blanks-set':
         return 'question'
@@ -234,12 +250,21 @@ export default function App() {
         return 'activity'
       case 'showdown-set':
         return 'showdown'
-      default:
+      case 'heuristic-evaluation':
+        return 'interface'
+      case 'hotspot':
+        return 'diagram'
+      case 'flashcards':
+        return 'card'
+      default: {
+        const registeredUnits = getGameType(specData?.type)?.units
+        if (registeredUnits) return registeredUnits.label
         if (Array.isArray(specData?.sentences)) return 'scenario'
         if (Array.isArray(specData?.questions)) return 'question'
         if (Array.isArray(specData?.activities)) return 'activity'
         if (Array.isArray(specData?.showdowns)) return 'showdown'
         return 'task'
+      }
     }
   }
 
@@ -247,17 +272,26 @@ export default function App() {
     const mapping: Record<string, { title: string; icon: string }> = {
       'mcq-set': { title: 'Multiple Choice', icon: '🖊︎' },
       mcq: { title: 'Multiple Choice', icon: '🖊︎' },
+      'mcq-multi': { title: 'Select All That Apply', icon: '☑︎' },
+      'short-answer': { title: 'Short Answer', icon: '✎' },
+      'numeric-set': { title: 'Calculations', icon: '🧮' },
+      numeric: { title: 'Calculations', icon: '🧮' },
       'ordering-set': { title: 'Ordering', icon: '⬍' },
       ordering: { title: 'Ordering', icon: '⬍' },
+      parsons: { title: 'Code Assembly', icon: '⌘' },
       'pair-match-set': { title: 'Matching', icon: '🔗' },
       'pair-match': { title: 'Matching', icon: '🔗' },
       'fill-in-the-blanks-set': { title: 'Fill in the Blanks', icon: '⌨︎' },
       'fill-in-the-blanks': { title: 'Fill in the Blanks', icon: '⌨︎' },
       'classification-set': { title: 'Categorisation', icon: '🗂︎' },
       'showdown-set': { title: 'Showdown Comparisons', icon: '⚖︎' },
+      'heuristic-evaluation': { title: 'Heuristic Evaluation', icon: '🔍' },
+      scenario: { title: 'Branching Scenario', icon: '🧭' },
+      hotspot: { title: 'Label the Diagram', icon: '📍' },
+      flashcards: { title: 'Flashcards', icon: '🃏' },
       'activity-set': { title: 'Mixed Activities', icon: '🎯' },
     }
-    return mapping[type] ?? { title: 'Learning Activity', icon: '🎓' }
+    return mapping[type] ?? getGameType(type)?.display ?? { title: 'Learning Activity', icon: '🎓' }
   }
 
   const extractUnitsForSpec = (spec: GameSpec) => {
@@ -265,6 +299,11 @@ export default function App() {
     const gameId = data?.id ?? spec.path
     if (!data || !gameId) return [] as Array<{ gameId: string; requiredIds: string[] }>
 
+    const unitIds = registeredUnitIds(data)
+    if (unitIds) {
+      return unitIds.map((id) => ({ gameId, requiredIds: [id] }))
+    }
+
     if (Array.isArray(data.questions)) {
       return data.questions
         .filter((q: any) => q?.id)
@@ -283,6 +322,12 @@ export default function App() {
         .map((sd: any) => ({ gameId, requiredIds: [sd.id as string] }))
     }
 
+    if (Array.isArray(data.cards)) {
+      return data.cards
+        .filter((card: { id?: string }) => card?.id)
+        .map((card: { id: string }) => ({ gameId, requiredIds: [card.id] }))
+    }
+
     if (Array.isArray(data.sentences)) {
       return [
         {
@@ -309,12 +354,24 @@ export default function App() {
     setGameTransition(false)
     setTimeout(() => {
       setCurrentSpecIndex(null)
+      setReviewDeck(null)
       setViewMode('library')
       setGameTransition(true)
     }, 2000)
   }
 
   const handleGameEvent = (event: RendererEvent) => {
+    if (event.kind === 'evaluate.requested' && event.respond && evaluatorUrl) {
+      // A failed request gives up on the answer, so the renderer asks for a resubmit
+      const { respond } = event
+      const request = { gameId: event.gameId, answer: event.payload, sessionId: getEvaluationSessionId() }
+      requestEvaluation(evaluatorUrl, request).then(respond, () => respond(null))
+    }
+    if (event.kind === 'answer.checked' && evaluatorUrl) {
+      // A check that never arrives is simply not charged for
+      const request = { gameId: event.gameId, answer: event.payload, sessionId: getEvaluationSessionId(), questionId: event.questionId }
+      reportCheck(evaluatorUrl, request).catch(() => undefined)
+    }
     if (event.kind === 'game.completed') {
       const evaluation = useRendererStore.getState().evaluations[event.gameId]
       if (evaluation?.correct) {
@@ -330,15 +387,17 @@ export default function App() {
       setLoading(true)
       setFetchError(null)
       try {
-        // First, load the assessment metadata
+        // Load and validate the manifest, its game sets and their cross-references
         const metadataPath = `/specs/${currentAssessment.id.toUpperCase()}/assessment.json`
-        const metadataResponse = await fetch(metadataPath)
-        
-        if (!metadataResponse.ok) {
-          throw new Error(`Failed to load assessment metadata: ${metadataResponse.status}`)
+        const { manifest: metadata, gameSets, issues } = await loadAssessmentSources(metadataPath)
+
+        if (isMounted) {
+          setAssessmentIssues(issues)
+        }
+
+        if (!metadata) {
+          throw new Error('The assessment manifest is invalid. See the validation report for details.')
         }
-        
-        const metadata = await metadataResponse.json() as AssessmentMetadata
         
         if (isMounted) {
           setAssessmentMetadata(metadata)
@@ -354,92 +413,56 @@ export default function App() {
           }
           
           // Randomize the order of game sets
-          const shuffledGameSets = shuffleArray(metadata.gameSets)
-          
-          // Now load all game sets from the metadata
-          const gameSpecs: GameSpec[] = shuffledGameSets.map(gameSet => ({
-            label: `${gameSet.title}`,
-            path: gameSet.path,
-          }))
+          const shuffledGameSets = shuffleArray(gameSets)
           
-          const loadedSpecs = await Promise.all(
-            gameSpecs.map(async (spec) => {
-              try {
-                const response = await fetch(spec.path)
-                if (!response.ok) {
-                  console.error(`Failed to load ${spec.path}: ${response.status} ${response.statusText}`)
-                  return [{ ...spec, source: null, error: `Failed to load: ${response.status}` }]
-                }
-                const json = (await response.json()) as unknown
-                
-                console.log(`Loaded ${spec.path}:`, Array.isArray(json) ? `Array of ${json.length} items` : 'Single object')
-                
-                if (json && typeof json === 'object' && !Array.isArray(json)) {
-                  const data = { ...(json as Record<string, unknown>) }
-
-                  // Expand fill-in-the-blanks sets into individual games
-                  if (data.type === 'fill-in-the-blanks-set' && Array.isArray((data as any).questions)) {
-                    const questionSet = (data as any).questions as any[]
-                    const shuffledQuestions = shuffleArray(questionSet)
-
-                    console.log(`  Expanding fill-in-the-blanks set into ${shuffledQuestions.length} specs`)
-
-                    return shuffledQuestions.map((question, index) => {
-                      const clonedQuestion = { ...question }
-                      if (Array.isArray(clonedQuestion.sentences)) {
-                        clonedQuestion.sentences = shuffleArray(clonedQuestion.sentences)
-                      }
-
-                      return {
-                        label: `${spec.label} (${index + 1})`,
-                        path: `${spec.path}#${index}`,
-                        source: clonedQuestion,
-                        error: undefined,
-                      }
-                    })
+          const loadedSpecs = shuffledGameSets.map(({ entry, source: json, error }): GameSpec[] => {
+            const spec: GameSpec = { label: entry.title, path: entry.path }
+            if (error) {
+              console.error(`Failed to load ${spec.path}: ${error}`)
+              return [{ ...spec, source: null, error }]
+            }
+            
+            console.log(`Loaded ${spec.path}:`, Array.isArray(json) ? `Array of ${json.length} items` : 'Single object')
+            
+            if (json && typeof json === 'object' && !Array.isArray(json)) {
+              const data = { ...(json as Record<string, unknown>) }
+
+              if ('questions' in data && Array.isArray((data as any).questions)) {
+                (data as any).questions = shuffleArray((data as any).questions as any[]).map((question: any) => {
+                  if (Array.isArray(question.sentences)) {
+                    return { ...question, sentences: shuffleArray(question.sentences) }
                   }
-
-                  if ('questions' in data && Array.isArray((data as any).questions)) {
-                    (data as any).questions = shuffleArray((data as any).questions as any[]).map((question: any) => {
-                      if (Array.isArray(question.sentences)) {
-                        return { ...question, sentences: shuffleArray(question.sentences) }
-                      }
-                      if (Array.isArray(question.activities)) {
-                        return { ...question, activities: shuffleArray(question.activities) }
-                      }
-                      if (Array.isArray(question.showdowns)) {
-                        return { ...question, showdowns: shuffleArray(question.showdowns) }
-                      }
-                      return question
-                    })
-                  } else if ('sentences' in data && Array.isArray((data as any).sentences)) {
-                    (data as any).sentences = shuffleArray((data as any).sentences)
-                  } else if ('activities' in data && Array.isArray((data as any).activities)) {
-                    (data as any).activities = shuffleArray((data as any).activities)
-                  } else if ('showdowns' in data && Array.isArray((data as any).showdowns)) {
-                    (data as any).showdowns = shuffleArray((data as any).showdowns)
+                  if (Array.isArray(question.activities)) {
+                    return { ...question, activities: shuffleArray(question.activities) }
                   }
-
-                  return [{ ...spec, source: data }]
-                }
-
-                if (Array.isArray(json)) {
-                  const shuffled = shuffleArray(json)
-                  return shuffled.map((entry: any, index: number) => ({
-                    label: `${spec.label} (${index + 1})`,
-                    path: `${spec.path}#${index}`,
-                    source: entry,
-                    error: undefined,
-                  }))
-                }
-
-                return [{ ...spec, source: json }]
-              } catch (err) {
-                console.error(`Error fetching ${spec.path}:`, err)
-                return [{ ...spec, source: null, error: err instanceof Error ? err.message : 'Fetch failed' }]
+                  if (Array.isArray(question.showdowns)) {
+                    return { ...question, showdowns: shuffleArray(question.showdowns) }
+                  }
+                  return question
+                })
+              } else if ('sentences' in data && Array.isArray((data as any).sentences)) {
+                (data as any).sentences = shuffleArray((data as any).sentences)
+              } else if ('activities' in data && Array.isArray((data as any).activities)) {
+                (data as any).activities = shuffleArray((data as any).activities)
+              } else if ('showdowns' in data && Array.isArray((data as any).showdowns)) {
+                (data as any).showdowns = shuffleArray((data as any).showdowns)
               }
-            }),
-          )
+
+              return [{ ...spec, source: data }]
+            }
+
+            if (Array.isArray(json)) {
+              const shuffled = shuffleArray(json)
+              return shuffled.map((item: any, index: number) => ({
+                label: `${spec.label} (${index + 1})`,
+                path: `${spec.path}#${index}`,
+                source: item,
+                error: undefined,
+              }))
+            }
+
+            return [{ ...spec, source: json }]
+          })
           
           // Flatten the array of arrays into a single array
           const loaded = loadedSpecs.flat()
@@ -599,6 +622,32 @@ export default function App() {
     })
   }, [validSpecs, overallProgress.allQuestions])
 
+  // Revision decks: flashcard specs, plus one deck derived from each pair-match-set
+  const dueDecks = useMemo(() => {
+    const now = new Date()
+    return validSpecs
+      .map((spec) => parseGameSpec(spec.source))
+      .flatMap((result): FlashcardsSpec[] => {
+        if (!result.success || !isBuiltInGameSpec(result.data)) return []
+        if (result.data.type === 'flashcards') return [result.data]
+        if (result.data.type === 'pair-match-set') return [flashcardsFromPairMatchSet(result.data)]
+        return []
+      })
+      .map((deck) => {
+        const dueCards = deck.cards.filter((card) => isDueToday(flashcardReviews[flashcardKey(deck.id, card.id)], now))
+        const newCards = dueCards.filter((card) => !flashcardReviews[flashcardKey(deck.id, card.id)]).length
+        return { deck, dueCards, newCards }
+      })
+  }, [validSpecs, flashcardReviews])
+
+  const handleReviewDeck = (entry: (typeof dueDecks)[number]) => {
+    setReviewDeck({ ...entry.deck, cards: entry.dueCards })
+    setCurrentSpecIndex(null)
+    setGameKey(prev => prev + 1)
+    setViewMode('reviewing')
+    setGameTransition(true)
+  }
+
   const handleSelectGame = (card: (typeof gameCards)[number]) => {
     const target = specs[card.primaryIndex]
     if (!target || !target.source) return
@@ -613,6 +662,7 @@ export default function App() {
       resetAllProgress()
       setGameKey(prev => prev + 1)
       setCurrentSpecIndex(null)
+      setReviewDeck(null)
       setViewMode('library')
       setAllQuestionsCompleted(false)
       setShowCompletionModal(false)
@@ -623,6 +673,7 @@ export default function App() {
     setGameTransition(false)
     setTimeout(() => {
       setCurrentSpecIndex(null)
+      setReviewDeck(null)
       setViewMode('library')
       setGameTransition(true)
     }, 200)
@@ -673,7 +724,7 @@ export default function App() {
               >
                 Reset Progress
               </button>
-              {viewMode === 'playing' && (
+              {viewMode !== 'library' && (
                 <button
                   onClick={handleReturnToLibrary}
                   className="inline-flex items-center justify-center rounded-full bg-zinc-900 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-zinc-700"
@@ -701,6 +752,12 @@ export default function App() {
           </div>
         )}
 
+        {fetchError && !loading && assessmentIssues.length > 0 && (
+          <div className="mt-6">
+            <AssessmentReport issues={assessmentIssues} />
+          </div>
+        )}
+
         {!loading && !fetchError && currentSpecIndex !== null && specs[currentSpecIndex]?.error && (
           <div className="rounded-2xl border border-amber-200 bg-amber-50 p-6 text-sm text-amber-700">
             <p className="font-semibold">This activity isn’t available right now.</p>
@@ -710,6 +767,10 @@ export default function App() {
 
         {!loading && !fetchError && viewMode === 'library' && (
           <section className="space-y-6">
+            <AssessmentReport
+              issues={authorMode ? assessmentIssues : assessmentIssues.filter((issue) => issue.severity === 'error')}
+            />
+
             <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
               <h2 className="text-lg font-semibold text-zinc-900">Choose your next challenge</h2>
               <p className="mt-2 text-sm text-zinc-600">
@@ -717,6 +778,38 @@ export default function App() {
               </p>
             </div>
 
+            {dueDecks.length > 0 && (
+              <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-800 dark:bg-slate-900">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-lg font-semibold text-zinc-900">Due today</h2>
+                  <span className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">
+                    {formatPlural(dueDecks.reduce((sum, entry) => sum + entry.dueCards.length, 0), 'card')}
+                  </span>
+                </div>
+                <ul className="mt-4 divide-y divide-zinc-100">
+                  {dueDecks.map((entry) => (
+                    <li key={entry.deck.id} className="flex items-center justify-between gap-4 py-3">
+                      <div>
+                        <p className="text-sm font-semibold text-zinc-800">{entry.deck.title ?? entry.deck.id}</p>
+                        <p className="text-xs text-zinc-500">
+                          {entry.dueCards.length === 0
+                            ? 'All caught up.'
+                            : `${formatPlural(entry.dueCards.length - entry.newCards, 'review')} · ${entry.newCards} new`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleReviewDeck(entry)}
+                        disabled={entry.dueCards.length === 0}
+                        className="inline-flex items-center justify-center rounded-full bg-zinc-900 px-3 py-1.5 text-xs font-medium text-white transition hover:bg-zinc-700 disabled:cursor-not-allowed disabled:bg-zinc-300"
+                      >
+                        Review
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-3">
               {gameCards.map((card) => (
                 <button
@@ -785,6 +878,21 @@ export default function App() {
                   key={`${currentAssessment.id}-${specs[currentSpecIndex].path}-${gameKey}`} 
                   spec={activeSpec} 
                   onEvent={handleGameEvent}
+                  evaluationMode={evaluatorUrl ? 'host' : 'local'}
+                />
+              </section>
+            )}
+          </div>
+        ) : null}
+
+        {!loading && !fetchError && viewMode === 'reviewing' && reviewDeck ? (
+          <div className={`transition-all duration-500 transform ${gameTransition ? 'opacity-100 scale-100' : 'opacity-0 scale-95'}`}>
+            {gameTransition && (
+              <section className="rounded-3xl border border-white/60 bg-white/80 p-6 shadow-xl ring-1 ring-black/5">
+                <GameRenderer
+                  key={`${currentAssessment.id}-review-${reviewDeck.id}-${gameKey}`}
+                  spec={reviewDeck}
+                  onEvent={handleGameEvent}
                 />
               </section>
             )}
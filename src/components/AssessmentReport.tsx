@@ -0,0 +1,63 @@
+import type { AssessmentIssue } from '../domain/assessment'
+
+interface AssessmentReportProps {
+  issues: AssessmentIssue[]
+}
+
+export function AssessmentReport({ issues }: AssessmentReportProps) {
+  if (issues.length === 0) {
+    return null
+  }
+
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length
+  const warningCount = issues.length - errorCount
+  const bySource = new Map<string, AssessmentIssue[]>()
+  issues.forEach((issue) => {
+    bySource.set(issue.source, [...(bySource.get(issue.source) ?? []), issue])
+  })
+
+  return (
+    <div
+      className={`rounded-2xl border p-6 text-sm ${
+        errorCount > 0 ? 'border-rose-200 bg-rose-50 text-rose-700' : 'border-amber-200 bg-amber-50 text-amber-700'
+      }`}
+      role="status"
+    >
+      <p className="font-semibold">
+        {errorCount > 0 ? 'This assessment has content errors.' : 'This assessment has content warnings.'}
+      </p>
+      <p className="mt-1 text-xs">
+        {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount} {warningCount === 1 ? 'warning' : 'warnings'}.
+        Affected activities may be missing or behave unexpectedly.
+      </p>
+      <details className="mt-3">
+        <summary className="cursor-pointer underline">Validation report</summary>
+        <div className="mt-3 space-y-4">
+          {Array.from(bySource.entries()).map(([source, sourceIssues]) => (
+            <div key={source}>
+              <p className="font-mono text-xs font-semibold text-zinc-700">{source}</p>
+              <ul className="mt-2 space-y-1">
+                {sourceIssues.map((issue, index) => (
+                  <li
+                    key={`${issue.code}-${issue.path}-${index}`}
+                    className="flex flex-wrap items-baseline gap-2 rounded-md bg-white/70 px-3 py-2 text-xs text-zinc-700"
+                  >
+                    <span
+                      className={`font-semibold uppercase tracking-wide ${
+                        issue.severity === 'error' ? 'text-rose-600' : 'text-amber-600'
+                      }`}
+                    >
+                      {issue.severity}
+                    </span>
+                    <span className="font-mono text-zinc-500">{issue.path}</span>
+                    <span>{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </details>
+    </div>
+  )
+}
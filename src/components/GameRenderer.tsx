@@ -1,28 +1,85 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { gameSpecSchema } from '../domain/schema'
-import type { AnswerPayload, GameSpec, MCQAnswer, MCQSetAnswer, OrderingAnswer, OrderingSetAnswer, PairMatchAnswer, PairMatchSetAnswer, FillInTheBlanksAnswer, ClassificationSetAnswer, ShowdownSetAnswer } from '../domain/schema'
-import type { EvaluationResult, RendererEventListener } from '../domain/events'
-import { scoreGame } from '../domain/scoring'
+import { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react'
+import type { Ref } from 'react'
+import type { ActivitySetAnswer, AnswerPayload, GameSpec, MCQAnswer, MCQMultiAnswer, MCQSetAnswer, OrderingAnswer, OrderingSetAnswer, ParsonsAnswer, PairMatchAnswer, PairMatchSetAnswer, FillInTheBlanksAnswer, FillInTheBlanksSetAnswer, ClassificationSetAnswer, ShowdownSetAnswer, HeuristicEvaluationAnswer, ScenarioAnswer, HotspotAnswer, FlashcardsAnswer, ShortAnswerAnswer, NumericAnswer, NumericSetAnswer } from '../domain/schema'
+import type { EvaluationMode, EvaluationResult, RendererEventListener } from '../domain/events'
+import { canScoreLocally, scoreGame } from '../domain/scoring'
+import { lintSpec } from '../domain/lint'
+import { migrateSpec } from '../domain/migrations'
+import { getGameType, isBuiltInGameSpec, parseGameSpec } from '../domain/registry'
+import type { CustomGameSpec } from '../domain/registry'
 import { useRendererStore } from '../lib/store'
 import { MCQ } from './games/MCQ'
+import { MCQMulti } from './games/MCQMulti'
 import { MCQSet } from './games/MCQSet'
 import { Ordering } from './games/Ordering'
 import { OrderingSet } from './games/OrderingSet'
+import { Parsons } from './games/Parsons'
 import { PairMatch } from './games/PairMatch'
 import { PairMatchSet } from './games/PairMatchSet'
+import { PairMatchMemory } from './games/PairMatchMemory'
+import { PairMatchSetMemory } from './games/PairMatchSetMemory'
 import { FillInTheBlanks } from './games/FillInTheBlanks'
+import { FillInTheBlanksSet } from './games/FillInTheBlanksSet'
 import { ClassificationSet } from './games/ClassificationSet'
 import { ShowdownSet } from './games/ShowdownSet'
+import { HeuristicEvaluation } from './games/HeuristicEvaluation'
+import { Scenario } from './games/Scenario'
+import { Hotspot } from './games/Hotspot'
+import { Flashcards } from './games/Flashcards'
+import { ShortAnswer } from './games/ShortAnswer'
+import { Numeric } from './games/Numeric'
+import { NumericSet } from './games/NumericSet'
+import { ActivitySet } from './games/ActivitySet'
 import { OMIProgress } from './OMIProgress'
 
+const DEFAULT_EVALUATION_TIMEOUT_MS = 15000
+
+export interface GameRendererHandle {
+  /** Host mode: delivers the result for the answer awaiting evaluation. */
+  resolveEvaluation: (result: EvaluationResult) => void
+}
+
 interface GameRendererProps {
   spec: unknown
   onEvent?: RendererEventListener
+  evaluationMode?: EvaluationMode // Types that cannot be scored locally always use host mode
+  evaluationTimeoutMs?: number // Host mode: how long to wait for the result
+  ref?: Ref<GameRendererHandle>
+}
+
+// Host mode: the answer awaiting a result; settle(null) gives up on it
+interface PendingEvaluation {
+  settle: (result: EvaluationResult | null) => void
 }
 
-export function GameRenderer({ spec, onEvent }: GameRendererProps) {
-  const parsed = useMemo(() => gameSpecSchema.safeParse(spec), [spec])
+export function GameRenderer({
+  spec,
+  onEvent,
+  evaluationMode = 'local',
+  evaluationTimeoutMs = DEFAULT_EVALUATION_TIMEOUT_MS,
+  ref,
+}: GameRendererProps) {
+  // Legacy shapes are upgraded first; a too-new schemaVersion is left for the schema to reject
+  const parsed = useMemo(() => parseGameSpec(migrateSpec(spec).spec), [spec])
+  const lintErrors = useMemo(
+    () =>
+      parsed.success && isBuiltInGameSpec(parsed.data)
+        ? lintSpec(parsed.data).filter((diagnostic) => diagnostic.severity === 'error')
+        : [],
+    [parsed],
+  )
   const [copyState, setCopyState] = useState<'idle' | 'copied' | 'error'>('idle')
+  const [evaluationPending, setEvaluationPending] = useState(false)
+  const [evaluationTimedOut, setEvaluationTimedOut] = useState(false)
+  const pendingEvaluationRef = useRef<PendingEvaluation | null>(null)
+
+  useImperativeHandle(ref, () => ({ resolveEvaluation: (result) => pendingEvaluationRef.current?.settle(result) }), [])
+
+  useEffect(() => {
+    if (!evaluationPending) return
+    const timeout = window.setTimeout(() => pendingEvaluationRef.current?.settle(null), evaluationTimeoutMs)
+    return () => window.clearTimeout(timeout)
+  }, [evaluationPending, evaluationTimeoutMs])
 
   const copyJson = async () => {
     try {
@@ -62,6 +119,32 @@ export function GameRenderer({ spec, onEvent }: GameRendererProps) {
     )
   }
 
+  if (lintErrors.length > 0) {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 p-6 text-sm text-red-700 shadow-sm dark:border-red-500/40 dark:bg-red-950/50 dark:text-red-200">
+        <h2 className="text-lg font-semibold">Inconsistent game specification</h2>
+        <p className="mt-2">The JSON matches the schema, but its answer key or ids cannot be scored reliably.</p>
+        <ul className="mt-3 space-y-1">
+          {lintErrors.map((diagnostic, index) => (
+            <li
+              key={`${diagnostic.code}-${diagnostic.path}-${index}`}
+              className="rounded bg-white/70 px-3 py-2 text-xs text-red-800 dark:bg-slate-900 dark:text-red-200"
+            >
+              <span className="font-mono">{diagnostic.path}</span> {diagnostic.message}
+            </li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          onClick={copyJson}
+          className="mt-4 rounded-md border border-red-300 px-3 py-1 text-red-700 transition hover:bg-red-100 dark:border-red-400 dark:hover:bg-red-900/50"
+        >
+          {copyState === 'copied' ? 'Copied!' : copyState === 'error' ? 'Copy failed' : 'Copy JSON'}
+        </button>
+      </div>
+    )
+  }
+
   const validatedSpec = parsed.data
   const specId = validatedSpec.id
   const timeLimit = 'timeLimitSec' in validatedSpec ? validatedSpec.timeLimitSec : undefined
@@ -125,15 +208,18 @@ export function GameRenderer({ spec, onEvent }: GameRendererProps) {
   }, [specId, timeLimit, initTimer, tickTimer, stopTimer, onEvent])
 
   const isTimeExpired = Boolean(timer && timer.remainingSec === 0)
+  const hostEvaluates = evaluationMode === 'host' || !canScoreLocally(validatedSpec.type)
 
   const handleSubmit = useCallback(
     (payload: AnswerPayload['payload']) => {
+      // One answer at a time waits for the host
+      if (pendingEvaluationRef.current) return
+
       const envelope: AnswerPayload = { type: validatedSpec.type, payload } as AnswerPayload
       setAnswer(specId, envelope)
       onEvent?.({ kind: 'answer.submitted', gameId: specId, payload: envelope })
-      onEvent?.({ kind: 'evaluate.requested', gameId: specId })
-      const result = scoreGame(validatedSpec, envelope)
-      if (result) {
+
+      const applyResult = (result: EvaluationResult) => {
         setEvaluation(specId, result)
         stopTimer(specId)
         
@@ -146,8 +232,34 @@ export function GameRenderer({ spec, onEvent }: GameRendererProps) {
         // Emit game completion event
         onEvent?.({ kind: 'game.completed', gameId: specId, score: result.score })
       }
+
+      if (!hostEvaluates) {
+        onEvent?.({ kind: 'evaluate.requested', gameId: specId, payload: envelope })
+        const result = scoreGame(validatedSpec, envelope)
+        if (result) applyResult(result)
+        return
+      }
+
+      // Results for another game, or arriving after the timeout, are dropped
+      const pending: PendingEvaluation = {
+        settle: (result) => {
+          if (pendingEvaluationRef.current !== pending || (result && result.gameId !== specId)) return
+          pendingEvaluationRef.current = null
+          setEvaluationPending(false)
+          if (result) {
+            applyResult(result)
+          } else {
+            setEvaluationTimedOut(true)
+            onEvent?.({ kind: 'evaluate.timeout', gameId: specId })
+          }
+        },
+      }
+      pendingEvaluationRef.current = pending
+      setEvaluationTimedOut(false)
+      setEvaluationPending(true)
+      onEvent?.({ kind: 'evaluate.requested', gameId: specId, payload: envelope, respond: pending.settle })
     },
-    [validatedSpec, specId, setAnswer, onEvent, setEvaluation, stopTimer, recordOMIEvidence],
+    [validatedSpec, specId, hostEvaluates, setAnswer, onEvent, setEvaluation, stopTimer, recordOMIEvidence],
   )
 
   const handleReset = useCallback(() => {
@@ -157,6 +269,9 @@ export function GameRenderer({ spec, onEvent }: GameRendererProps) {
 
   const handleAnswerChange = useCallback(
     (payload: AnswerPayload['payload']) => {
+      // The submitted answer stays as it is until the host replies
+      if (pendingEvaluationRef.current) return
+
       const envelope: AnswerPayload = { type: validatedSpec.type, payload } as AnswerPayload
       setAnswer(specId, envelope)
       // Clear evaluation if it exists
@@ -165,6 +280,12 @@ export function GameRenderer({ spec, onEvent }: GameRendererProps) {
     [validatedSpec, specId, setAnswer, clearEvaluation],
   )
 
+  // Sets report each question check, so a host that scores can count the attempt
+  const handleQuestionCheck = (payload: AnswerPayload['payload'], questionId: string) => {
+    const envelope: AnswerPayload = { type: validatedSpec.type, payload } as AnswerPayload
+    onEvent?.({ kind: 'answer.checked', gameId: specId, questionId, payload: envelope })
+  }
+
   const currentAnswer = answerEnvelope && answerEnvelope.type === validatedSpec.type ? answerEnvelope.payload : undefined
 
   return (
@@ -207,39 +328,89 @@ export function GameRenderer({ spec, onEvent }: GameRendererProps) {
       </div>
 
       {/* OMI Progress Display */}
-      {validatedSpec.metadata?.omis && 
+      {isBuiltInGameSpec(validatedSpec) &&
+       validatedSpec.metadata?.omis && 
        validatedSpec.metadata.omis.length > 0 && 
        !['mcq-set', 'ordering-set', 'pair-match-set', 'classification-set'].includes(validatedSpec.type) && (
         <OMIProgress spec={validatedSpec} />
       )}
 
-      {/* Game Content */}
-      <div className="rounded-lg border border-slate-200 bg-white p-6 dark:border-slate-800 dark:bg-slate-900">
+      {/* Game Content; games that submit on time up have already submitted once the host is evaluating */}
+      <div
+        className={`rounded-lg border border-slate-200 bg-white p-6 dark:border-slate-800 dark:bg-slate-900 ${
+          evaluationPending ? 'opacity-60' : ''
+        }`}
+        aria-busy={evaluationPending}
+      >
         {renderGameComponent({
           spec: validatedSpec,
           answer: currentAnswer,
           evaluation,
-          disabled: isTimeExpired || Boolean(evaluation),
+          disabled: isTimeExpired || Boolean(evaluation) || evaluationPending,
           onAnswerChange: handleAnswerChange,
           onSubmit: handleSubmit,
           onReset: handleReset,
+          onQuestionCheck: handleQuestionCheck,
         })}
       </div>
+
+      {evaluationPending && (
+        <p role="status" className="flex items-center gap-2 text-sm font-medium text-indigo-600 dark:text-indigo-400">
+          <svg className="h-4 w-4 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth={4} />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" />
+          </svg>
+          Checking your answer…
+        </p>
+      )}
+      {evaluationTimedOut && !evaluation && (
+        <p role="alert" className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-900/50 dark:bg-amber-950/30 dark:text-amber-200">
+          Your answer could not be checked in time. Submit it again to retry.
+        </p>
+      )}
     </section>
   )
 }
 
 type RenderArgs = {
-  spec: GameSpec
+  spec: GameSpec | CustomGameSpec
   answer: AnswerPayload['payload'] | undefined
   evaluation?: EvaluationResult
   disabled: boolean
   onAnswerChange: (payload: AnswerPayload['payload']) => void
   onSubmit: (payload: AnswerPayload['payload']) => void
   onReset: () => void
+  onQuestionCheck: (payload: AnswerPayload['payload'], questionId: string) => void
 }
 
-function renderGameComponent({ spec, answer, evaluation, disabled, onAnswerChange, onSubmit, onReset }: RenderArgs) {
+function renderGameComponent({
+  spec,
+  answer,
+  evaluation,
+  disabled,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+  onQuestionCheck,
+}: RenderArgs) {
+  if (!isBuiltInGameSpec(spec)) {
+    const definition = getGameType(spec.type)
+    if (!definition) {
+      return <p className="text-sm text-red-600">Unsupported game type: {spec.type}</p>
+    }
+    return (
+      <definition.Component
+        spec={spec}
+        answer={answer}
+        evaluation={evaluation}
+        disabled={disabled}
+        onAnswerChange={(customAnswer) => onAnswerChange(customAnswer as AnswerPayload['payload'])}
+        onSubmit={(customAnswer) => onSubmit(customAnswer as AnswerPayload['payload'])}
+        onReset={onReset}
+      />
+    )
+  }
+
   switch (spec.type) {
     case 'mcq':
       return (
@@ -253,6 +424,54 @@ function renderGameComponent({ spec, answer, evaluation, disabled, onAnswerChang
           onReset={onReset}
         />
       )
+    case 'mcq-multi':
+      return (
+        <MCQMulti
+          spec={spec}
+          answer={answer as MCQMultiAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(mcqMultiAnswer) => onAnswerChange(mcqMultiAnswer)}
+          onSubmit={(mcqMultiAnswer) => onSubmit(mcqMultiAnswer)}
+          onReset={onReset}
+        />
+      )
+    case 'short-answer':
+      return (
+        <ShortAnswer
+          spec={spec}
+          answer={answer as ShortAnswerAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(shortAnswer) => onAnswerChange(shortAnswer)}
+          onSubmit={(shortAnswer) => onSubmit(shortAnswer)}
+          onReset={onReset}
+        />
+      )
+    case 'numeric':
+      return (
+        <Numeric
+          spec={spec}
+          answer={answer as NumericAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(numericAnswer) => onAnswerChange(numericAnswer)}
+          onSubmit={(numericAnswer) => onSubmit(numericAnswer)}
+          onReset={onReset}
+        />
+      )
+    case 'numeric-set':
+      return (
+        <NumericSet
+          spec={spec}
+          answer={answer as NumericSetAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(numericSetAnswer) => onAnswerChange(numericSetAnswer)}
+          onSubmit={(numericSetAnswer) => onSubmit(numericSetAnswer)}
+          onReset={onReset}
+        />
+      )
     case 'mcq-set':
       return (
         <MCQSet
@@ -263,6 +482,7 @@ function renderGameComponent({ spec, answer, evaluation, disabled, onAnswerChang
           onAnswerChange={(mcqSetAnswer) => onAnswerChange(mcqSetAnswer)}
           onSubmit={(mcqSetAnswer) => onSubmit(mcqSetAnswer)}
           onReset={onReset}
+          onQuestionCheck={onQuestionCheck}
         />
       )
     case 'ordering':
@@ -277,6 +497,18 @@ function renderGameComponent({ spec, answer, evaluation, disabled, onAnswerChang
           onReset={onReset}
         />
       )
+    case 'parsons':
+      return (
+        <Parsons
+          spec={spec}
+          answer={answer as ParsonsAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(parsonsAnswer) => onAnswerChange(parsonsAnswer)}
+          onSubmit={(parsonsAnswer) => onSubmit(parsonsAnswer)}
+          onReset={onReset}
+        />
+      )
     case 'ordering-set':
       return (
         <OrderingSet
@@ -287,9 +519,23 @@ function renderGameComponent({ spec, answer, evaluation, disabled, onAnswerChang
           onAnswerChange={(orderingSetAnswer) => onAnswerChange(orderingSetAnswer)}
           onSubmit={(orderingSetAnswer) => onSubmit(orderingSetAnswer)}
           onReset={onReset}
+          onQuestionCheck={onQuestionCheck}
         />
       )
     case 'pair-match':
+      if (spec.presentation === 'memory') {
+        return (
+          <PairMatchMemory
+            spec={spec}
+            answer={answer as PairMatchAnswer | undefined}
+            evaluation={evaluation}
+            disabled={disabled}
+            onAnswerChange={(pairMatchAnswer) => onAnswerChange(pairMatchAnswer)}
+            onSubmit={(pairMatchAnswer) => onSubmit(pairMatchAnswer)}
+            onReset={onReset}
+          />
+        )
+      }
       return (
         <PairMatch
           spec={spec}
@@ -302,6 +548,19 @@ function renderGameComponent({ spec, answer, evaluation, disabled, onAnswerChang
         />
       )
     case 'pair-match-set':
+      if (spec.presentation === 'memory') {
+        return (
+          <PairMatchSetMemory
+            spec={spec}
+            answer={answer as PairMatchSetAnswer | undefined}
+            evaluation={evaluation}
+            disabled={disabled}
+            onAnswerChange={(pairMatchSetAnswer) => onAnswerChange(pairMatchSetAnswer)}
+            onSubmit={(pairMatchSetAnswer) => onSubmit(pairMatchSetAnswer)}
+            onReset={onReset}
+          />
+        )
+      }
       return (
         <PairMatchSet
           spec={spec}
@@ -327,9 +586,15 @@ function renderGameComponent({ spec, answer, evaluation, disabled, onAnswerChang
       )
     case 'fill-in-the-blanks-set':
       return (
-        <p className="text-sm text-red-600">
-          Unsupported game type: fill-in-the-blanks-set
-        </p>
+        <FillInTheBlanksSet
+          spec={spec}
+          answer={answer as FillInTheBlanksSetAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(fillSetAnswer) => onAnswerChange(fillSetAnswer)}
+          onSubmit={(fillSetAnswer) => onSubmit(fillSetAnswer)}
+          onReset={onReset}
+        />
       )
     case 'classification-set':
       return (
@@ -353,6 +618,67 @@ function renderGameComponent({ spec, answer, evaluation, disabled, onAnswerChang
           onAnswerChange={(payload) => onAnswerChange(payload)}
           onSubmit={(payload) => onSubmit(payload)}
           onReset={onReset}
+          onQuestionCheck={onQuestionCheck}
+        />
+      )
+    case 'heuristic-evaluation':
+      return (
+        <HeuristicEvaluation
+          spec={spec}
+          answer={answer as HeuristicEvaluationAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(evaluationAnswer) => onAnswerChange(evaluationAnswer)}
+          onSubmit={(evaluationAnswer) => onSubmit(evaluationAnswer)}
+          onReset={onReset}
+        />
+      )
+    case 'scenario':
+      return (
+        <Scenario
+          spec={spec}
+          answer={answer as ScenarioAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(scenarioAnswer) => onAnswerChange(scenarioAnswer)}
+          onSubmit={(scenarioAnswer) => onSubmit(scenarioAnswer)}
+          onReset={onReset}
+        />
+      )
+    case 'hotspot':
+      return (
+        <Hotspot
+          spec={spec}
+          answer={answer as HotspotAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(hotspotAnswer) => onAnswerChange(hotspotAnswer)}
+          onSubmit={(hotspotAnswer) => onSubmit(hotspotAnswer)}
+          onReset={onReset}
+        />
+      )
+    case 'flashcards':
+      return (
+        <Flashcards
+          spec={spec}
+          answer={answer as FlashcardsAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(flashcardsAnswer) => onAnswerChange(flashcardsAnswer)}
+          onSubmit={(flashcardsAnswer) => onSubmit(flashcardsAnswer)}
+          onReset={onReset}
+        />
+      )
+    case 'activity-set':
+      return (
+        <ActivitySet
+          spec={spec}
+          answer={answer as ActivitySetAnswer | undefined}
+          evaluation={evaluation}
+          disabled={disabled}
+          onAnswerChange={(activitySetAnswer) => onAnswerChange(activitySetAnswer)}
+          onSubmit={(activitySetAnswer) => onSubmit(activitySetAnswer)}
+          onReset={onReset}
         />
       )
     default:
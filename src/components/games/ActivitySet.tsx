@@ -0,0 +1,303 @@
+import { useEffect, useState } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type {
+  ActivitySetAnswer,
+  ActivitySetSpec,
+  ActivitySpec,
+  AnswerPayload,
+  FillInTheBlanksAnswer,
+  MCQAnswer,
+  MCQMultiAnswer,
+  NumericAnswer,
+  OrderingAnswer,
+  PairMatchAnswer,
+} from '../../domain/schema'
+import { scoreActivity } from '../../domain/scoring'
+import { useRendererStore } from '../../lib/store'
+import { MCQ } from './MCQ'
+import { MCQMulti } from './MCQMulti'
+import { Numeric } from './Numeric'
+import { Ordering } from './Ordering'
+import { PairMatch } from './PairMatch'
+import { FillInTheBlanks } from './FillInTheBlanks'
+
+interface ActivitySetProps {
+  spec: ActivitySetSpec
+  answer?: ActivitySetAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: ActivitySetAnswer) => void
+  onSubmit: (answer: ActivitySetAnswer) => void
+  onReset: () => void
+}
+
+type ActivityAnswer = AnswerPayload['payload']
+
+const activityLabels: Record<ActivitySpec['type'], string> = {
+  mcq: 'Multiple Choice',
+  'mcq-multi': 'Select All That Apply',
+  numeric: 'Calculation',
+  ordering: 'Ordering',
+  'pair-match': 'Matching',
+  'fill-in-the-blanks': 'Fill in the Blanks',
+}
+
+export function ActivitySet({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: ActivitySetProps) {
+  const [currentActivityIndex, setCurrentActivityIndex] = useState(0)
+  const [answers, setAnswers] = useState<Record<string, unknown>>(answer?.answers || {})
+  const [activityResults, setActivityResults] = useState<Record<string, EvaluationResult>>({})
+  const [showFeedback, setShowFeedback] = useState(false)
+  const markQuestionSubmitted = useRendererStore((state) => state.markQuestionSubmitted)
+
+  const currentActivity = spec.activities[currentActivityIndex]
+  const totalActivities = spec.activities.length
+  const isLastActivity = currentActivityIndex === totalActivities - 1
+  const currentResult = activityResults[currentActivity.id]
+  const allSubmitted = spec.activities.every((activity) => activityResults[activity.id])
+
+  // Follow the stored answer: a cleared answer starts the set over, and results go with their answers
+  useEffect(() => {
+    const nextAnswers = answer?.answers || {}
+    setAnswers(nextAnswers)
+    setActivityResults((results) =>
+      Object.fromEntries(Object.entries(results).filter(([activityId]) => activityId in nextAnswers)),
+    )
+    if (!answer) {
+      setCurrentActivityIndex(0)
+      setShowFeedback(false)
+    }
+  }, [answer])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const updateAnswers = (nextAnswers: Record<string, unknown>) => {
+    setAnswers(nextAnswers)
+    onAnswerChange({ answers: nextAnswers })
+  }
+
+  const handleActivityAnswerChange = (activityAnswer: ActivityAnswer) => {
+    updateAnswers({ ...answers, [currentActivity.id]: activityAnswer })
+  }
+
+  const handleActivitySubmit = (activityAnswer: ActivityAnswer) => {
+    updateAnswers({ ...answers, [currentActivity.id]: activityAnswer })
+    const result = scoreActivity(currentActivity, activityAnswer)
+    setActivityResults({ ...activityResults, [currentActivity.id]: result })
+    markQuestionSubmitted(spec.id, currentActivity.id, result.correct)
+  }
+
+  const handleActivityReset = () => {
+    // Try Again in the single-game UI clears only the current activity
+    const isOther = ([activityId]: [string, unknown]) => activityId !== currentActivity.id
+    updateAnswers(Object.fromEntries(Object.entries(answers).filter(isOther)))
+    setActivityResults(Object.fromEntries(Object.entries(activityResults).filter(isOther)))
+  }
+
+  const handleTryAgain = () => {
+    setAnswers({})
+    setActivityResults({})
+    setCurrentActivityIndex(0)
+    setShowFeedback(false)
+    onReset()
+  }
+
+  const handleFinish = () => {
+    if (evaluation || !allSubmitted) return
+    onSubmit({ answers })
+  }
+
+  const renderActivity = (activity: ActivitySpec) => {
+    const activityAnswer = answers[activity.id]
+    const activityDisabled = disabled || Boolean(activityResults[activity.id])
+
+    switch (activity.type) {
+      case 'mcq':
+        return (
+          <MCQ
+            key={activity.id}
+            spec={activity}
+            answer={activityAnswer as MCQAnswer | undefined}
+            evaluation={activityResults[activity.id]}
+            disabled={activityDisabled}
+            onAnswerChange={handleActivityAnswerChange}
+            onSubmit={handleActivitySubmit}
+            onReset={handleActivityReset}
+          />
+        )
+      case 'mcq-multi':
+        return (
+          <MCQMulti
+            key={activity.id}
+            spec={activity}
+            answer={activityAnswer as MCQMultiAnswer | undefined}
+            evaluation={activityResults[activity.id]}
+            disabled={activityDisabled}
+            onAnswerChange={handleActivityAnswerChange}
+            onSubmit={handleActivitySubmit}
+            onReset={handleActivityReset}
+          />
+        )
+      case 'numeric':
+        return (
+          <Numeric
+            key={activity.id}
+            spec={activity}
+            answer={activityAnswer as NumericAnswer | undefined}
+            evaluation={activityResults[activity.id]}
+            disabled={activityDisabled}
+            onAnswerChange={handleActivityAnswerChange}
+            onSubmit={handleActivitySubmit}
+            onReset={handleActivityReset}
+          />
+        )
+      case 'ordering':
+        return (
+          <Ordering
+            key={activity.id}
+            spec={activity}
+            answer={activityAnswer as OrderingAnswer | undefined}
+            evaluation={activityResults[activity.id]}
+            disabled={activityDisabled}
+            onAnswerChange={handleActivityAnswerChange}
+            onSubmit={handleActivitySubmit}
+            onReset={handleActivityReset}
+          />
+        )
+      case 'pair-match':
+        return (
+          <PairMatch
+            key={activity.id}
+            spec={activity}
+            answer={activityAnswer as PairMatchAnswer | undefined}
+            evaluation={activityResults[activity.id]}
+            disabled={activityDisabled}
+            onAnswerChange={handleActivityAnswerChange}
+            onSubmit={handleActivitySubmit}
+            onReset={handleActivityReset}
+          />
+        )
+      case 'fill-in-the-blanks':
+        return (
+          <FillInTheBlanks
+            key={activity.id}
+            spec={activity}
+            answer={activityAnswer as FillInTheBlanksAnswer | undefined}
+            evaluation={activityResults[activity.id]}
+            disabled={activityDisabled}
+            onAnswerChange={handleActivityAnswerChange}
+            onSubmit={handleActivitySubmit}
+            onReset={handleActivityReset}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Simple Progress Bar */}
+      <div className="relative h-1 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+        <div
+          className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500 ease-out"
+          style={{
+            width: `${((currentActivityIndex + 1) / totalActivities) * 100}%`,
+          }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-400">
+        <span>
+          Activity {currentActivityIndex + 1} of {totalActivities}
+        </span>
+        <span className="rounded-full bg-indigo-50 px-3 py-1 text-xs font-semibold text-indigo-700 dark:bg-indigo-950/30 dark:text-indigo-300">
+          {activityLabels[currentActivity.type]}
+        </span>
+      </div>
+
+      {/* Current Activity, reusing the single-game UI */}
+      <div className="rounded-lg border border-slate-200 bg-white p-6 dark:border-slate-700 dark:bg-slate-800">
+        {currentActivity.title && (
+          <h3 className="mb-4 text-lg font-semibold text-slate-900 dark:text-slate-100">{currentActivity.title}</h3>
+        )}
+        {renderActivity(currentActivity)}
+      </div>
+
+      {/* Navigation and Submit */}
+      <div className="flex items-center justify-center gap-4 rounded-3xl border border-zinc-200 bg-white/80 p-4 shadow-sm">
+        <button
+          type="button"
+          onClick={() => setCurrentActivityIndex(currentActivityIndex - 1)}
+          disabled={currentActivityIndex === 0}
+          className="rounded-full border border-zinc-200 px-6 py-2 text-sm font-medium text-zinc-600 hover:border-zinc-300 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Previous
+        </button>
+        {!isLastActivity ? (
+          <button
+            type="button"
+            onClick={() => setCurrentActivityIndex(currentActivityIndex + 1)}
+            disabled={!currentResult}
+            className="rounded-full border border-zinc-200 px-6 py-2 text-sm font-medium text-zinc-600 hover:border-zinc-300 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Next Activity
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleFinish}
+            disabled={disabled || !allSubmitted || Boolean(evaluation)}
+            className="rounded-full bg-emerald-600 px-6 py-2 text-sm font-semibold text-white hover:bg-emerald-700 disabled:cursor-not-allowed disabled:bg-zinc-400"
+          >
+            Finish Set
+          </button>
+        )}
+      </div>
+
+      {/* Final Feedback - only shown after finishing the set */}
+      {evaluation && showFeedback && (
+        <div
+          className={`rounded-lg border p-6 ${
+            evaluation.correct
+              ? 'border-green-200 bg-green-50 dark:border-green-900/50 dark:bg-green-950/50'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/50'
+          }`}
+        >
+          <p
+            className={`text-lg font-semibold ${
+              evaluation.correct ? 'text-green-800 dark:text-green-200' : 'text-amber-800 dark:text-amber-200'
+            }`}
+          >
+            {evaluation.correct ? '🎉 Perfect! All Correct!' : '📊 Activities Complete'}
+          </p>
+          {evaluation.feedback && (
+            <p className="mt-1 text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+          )}
+          <p className="mt-2 text-sm font-medium text-slate-600 dark:text-slate-400">
+            Score: {Math.round(evaluation.score * 100)}%
+          </p>
+          {!evaluation.correct && (
+            <button
+              type="button"
+              onClick={handleTryAgain}
+              className="mt-4 rounded-lg bg-indigo-600 px-6 py-2.5 font-semibold text-white shadow-lg transition hover:bg-indigo-700"
+            >
+              Try Again
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,8 +2,10 @@ import { useState, useEffect } from 'react'
 import type { FormEvent } from 'react'
 import type { EvaluationResult } from '../../domain/events'
 import type { ClassificationSetSpec, ClassificationSetAnswer } from '../../domain/schema'
+import { gradeClassificationItem } from '../../domain/classification'
 import { OMIProgress } from '../OMIProgress'
 import { useRendererStore } from '../../lib/store'
+import { ClassificationVenn } from './ClassificationVenn'
 
 interface ClassificationSetProps {
   spec: ClassificationSetSpec
@@ -25,7 +27,8 @@ export function ClassificationSet({
   onReset,
 }: ClassificationSetProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [answers, setAnswers] = useState<Record<string, Record<string, string>>>(answer?.answers || {})
+  const [answers, setAnswers] = useState<Record<string, Record<string, string[]>>>(answer?.answers || {})
+  // Item being dragged, or picked with a click for keyboard and touch placement
   const [draggedItem, setDraggedItem] = useState<string | null>(null)
   const [showFeedback, setShowFeedback] = useState(false)
   const markQuestionSubmitted = useRendererStore((state) => state.markQuestionSubmitted)
@@ -36,12 +39,21 @@ export function ClassificationSet({
   const isFirstQuestion = currentQuestionIndex === 0
 
   const currentQuestionAnswers = answers[currentQuestion.id] || {}
+  const isVenn = currentQuestion.layout === 'venn'
+  const hasMultiLabelItems = currentQuestion.items.some((item) => item.correctCategoryIds.length > 1)
 
   const allQuestionsComplete = spec.questions.every((question) => {
     const questionAnswers = answers[question.id] || {}
-    return question.items.every((item) => questionAnswers[item.id])
+    return question.items.every((item) => questionAnswers[item.id] !== undefined)
   })
 
+  const isQuestionCorrect = (question: ClassificationSetSpec['questions'][number]) => {
+    const questionAnswers = answers[question.id] || {}
+    return question.items.every(
+      (item) => gradeClassificationItem(item.correctCategoryIds, questionAnswers[item.id]).credit === 1,
+    )
+  }
+
   useEffect(() => {
     if (evaluation) {
       setShowFeedback(false)
@@ -58,51 +70,71 @@ export function ClassificationSet({
     event.preventDefault()
   }
 
-  const handleDrop = (event: React.DragEvent, categoryId: string) => {
-    event.preventDefault()
-    if (disabled || evaluation || !draggedItem) return
+  const handleDragEnd = () => {
+    setDraggedItem(null)
+  }
 
-    const newQuestionAnswers = { ...currentQuestionAnswers, [draggedItem]: categoryId }
+  const handleItemClick = (itemId: string) => {
+    if (disabled || evaluation) return
+    setDraggedItem((current) => (current === itemId ? null : itemId))
+  }
+
+  // undefined sends the item back to the pool; [] puts it in the noneBin
+  const setPlacement = (itemId: string, categoryIds: string[] | undefined) => {
+    const newQuestionAnswers = { ...currentQuestionAnswers }
+    if (categoryIds === undefined) {
+      delete newQuestionAnswers[itemId]
+    } else {
+      newQuestionAnswers[itemId] = categoryIds
+    }
     const newAnswers = { ...answers, [currentQuestion.id]: newQuestionAnswers }
     setAnswers(newAnswers)
     onAnswerChange({ answers: newAnswers })
+  }
+
+  // In bins, an item collects every category it is dropped into; the noneBin replaces them
+  const handlePlace = (categoryId: string | null) => {
+    if (disabled || evaluation || !draggedItem) return
+    const placed = currentQuestionAnswers[draggedItem] ?? []
+    if (categoryId === null) {
+      setPlacement(draggedItem, [])
+    } else if (!placed.includes(categoryId)) {
+      setPlacement(draggedItem, [...placed, categoryId])
+    }
     setDraggedItem(null)
   }
 
-  const handleDragEnd = () => {
+  const handlePlaceVenn = (categoryIds: string[]) => {
+    if (disabled || evaluation || !draggedItem) return
+    setPlacement(draggedItem, categoryIds)
     setDraggedItem(null)
   }
 
-  const handleRemoveItem = (itemId: string) => {
+  const handleDrop = (event: React.DragEvent, categoryId: string | null) => {
+    event.preventDefault()
+    handlePlace(categoryId)
+  }
+
+  const handleRemoveItem = (itemId: string, categoryId: string | null) => {
     if (disabled || evaluation) return
-    const newQuestionAnswers = { ...currentQuestionAnswers }
-    delete newQuestionAnswers[itemId]
-    const newAnswers = { ...answers, [currentQuestion.id]: newQuestionAnswers }
-    setAnswers(newAnswers)
-    onAnswerChange({ answers: newAnswers })
+    const remaining = (currentQuestionAnswers[itemId] ?? []).filter((id) => id !== categoryId)
+    setPlacement(itemId, categoryId === null || isVenn || remaining.length === 0 ? undefined : remaining)
   }
 
   const handleNext = () => {
     if (!isLastQuestion) {
-      const questionAnswers = answers[currentQuestion.id] || {}
-      const allItemsClassified = currentQuestion.items.every((item) => questionAnswers[item.id])
-
-      if (allItemsClassified) {
-        const allCorrect = currentQuestion.items.every((item) => {
-          const assignedCategory = questionAnswers[item.id]
-          return assignedCategory === item.correctCategoryId
-        })
-        if (allCorrect) {
-          markQuestionSubmitted(spec.id, currentQuestion.id, true)
-        }
+      if (isQuestionCorrect(currentQuestion)) {
+        markQuestionSubmitted(spec.id, currentQuestion.id, true)
       }
 
+      setDraggedItem(null)
       setCurrentQuestionIndex((index) => index + 1)
     }
   }
 
   const handlePrevious = () => {
     if (!isFirstQuestion) {
+      setDraggedItem(null)
       setCurrentQuestionIndex((index) => index - 1)
     }
   }
@@ -111,12 +143,7 @@ export function ClassificationSet({
     event.preventDefault()
     if (!allQuestionsComplete) return
 
-    const questionAnswers = answers[currentQuestion.id] || {}
-    const allCorrect = currentQuestion.items.every((item) => {
-      const assignedCategory = questionAnswers[item.id]
-      return assignedCategory === item.correctCategoryId
-    })
-    if (allCorrect) {
+    if (isQuestionCorrect(currentQuestion)) {
       markQuestionSubmitted(spec.id, currentQuestion.id, true)
     }
 
@@ -125,27 +152,126 @@ export function ClassificationSet({
 
   const handleTryAgain = () => {
     setAnswers({})
+    setDraggedItem(null)
     setCurrentQuestionIndex(0)
     setShowFeedback(false)
     onReset()
   }
 
-  const isItemCorrect = (itemId: string): boolean | null => {
-    const assignedCategoryId = currentQuestionAnswers[itemId]
-    if (!assignedCategoryId) return null
-
+  // In bins each copy of an item is marked on its own; in a venn the whole placement must match
+  const isItemCorrect = (itemId: string, categoryId: string | null): boolean | null => {
+    const placed = currentQuestionAnswers[itemId]
     const item = currentQuestion.items.find((i) => i.id === itemId)
-    return item?.correctCategoryId === assignedCategoryId
+    if (!placed || !item) return null
+
+    if (isVenn) return gradeClassificationItem(item.correctCategoryIds, placed).credit === 1
+    if (categoryId === null) return item.correctCategoryIds.length === 0
+    return item.correctCategoryIds.includes(categoryId)
   }
 
-  const getItemsInCategory = (categoryId: string) => {
+  // null is the noneBin
+  const getItemsInCategory = (categoryId: string | null) => {
     return Object.entries(currentQuestionAnswers)
-      .filter(([_, catId]) => catId === categoryId)
+      .filter(([, categoryIds]) => (categoryId === null ? categoryIds.length === 0 : categoryIds.includes(categoryId)))
       .map(([itemId]) => itemId)
   }
 
   const getUnclassifiedItems = () => {
-    return currentQuestion.items.filter((item) => !currentQuestionAnswers[item.id])
+    return currentQuestion.items.filter((item) => currentQuestionAnswers[item.id] === undefined)
+  }
+
+  const itemFeedback = evaluation?.criteria?.filter(
+    (criterion) => criterion.id.startsWith(`${currentQuestion.id}/`) && !criterion.met,
+  )
+
+  const renderPlacedItem = (itemId: string, categoryId: string | null) => {
+    const item = currentQuestion.items.find((i) => i.id === itemId)!
+    const isCorrect = isItemCorrect(itemId, categoryId)
+    return (
+      <div
+        key={itemId}
+        draggable={!disabled && !evaluation}
+        onDragStart={() => handleDragStart(itemId)}
+        onDragEnd={handleDragEnd}
+        onClick={(e) => {
+          e.stopPropagation()
+          handleItemClick(itemId)
+        }}
+        className={`flex items-start gap-2 rounded-lg border-2 transition-all ${isVenn ? 'p-1.5' : 'p-3'} ${
+          isCorrect === true
+            ? 'border-green-500 bg-green-50 dark:border-green-600 dark:bg-green-950/30'
+            : isCorrect === false
+              ? 'border-red-500 bg-red-50 dark:border-red-600 dark:bg-red-950/30'
+              : 'border-slate-200 bg-slate-50 dark:border-slate-600 dark:bg-slate-900/50'
+        } ${disabled || evaluation ? '' : 'cursor-move'} ${draggedItem === itemId ? 'ring-2 ring-indigo-500 ring-offset-1' : ''}`}
+      >
+        <span
+          className={`flex-shrink-0 ${isVenn ? 'text-xs' : 'text-lg'} ${
+            isCorrect === true
+              ? 'text-green-600 dark:text-green-400'
+              : isCorrect === false
+                ? 'text-red-600 dark:text-red-400'
+                : 'text-slate-400'
+          }`}
+        >
+          {isCorrect === true ? '✓' : isCorrect === false ? '✗' : '•'}
+        </span>
+        <span
+          className={`flex-1 font-medium ${isVenn ? 'text-xs' : 'text-sm'} ${
+            isCorrect === true
+              ? 'text-green-800 dark:text-green-200'
+              : isCorrect === false
+                ? 'text-red-800 dark:text-red-200'
+                : 'text-slate-700 dark:text-slate-300'
+          }`}
+        >
+          {item.text}
+        </span>
+        {!evaluation && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation()
+              handleRemoveItem(itemId, categoryId)
+            }}
+            className="flex-shrink-0 rounded-md bg-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"
+            title="Remove from category"
+            aria-label={`Remove ${item.text}`}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  const renderBin = (categoryId: string | null, name: string) => {
+    const itemsInCategory = getItemsInCategory(categoryId)
+    return (
+      <div
+        key={categoryId ?? 'none'}
+        onDragOver={handleDragOver}
+        onDrop={(e) => handleDrop(e, categoryId)}
+        onClick={() => handlePlace(categoryId)}
+        className={`min-h-[200px] rounded-lg border-2 border-dashed p-4 transition-all ${
+          categoryId === null
+            ? 'border-slate-300 bg-slate-50 dark:border-slate-700 dark:bg-slate-900/50'
+            : 'border-slate-300 bg-white dark:border-slate-700 dark:bg-slate-800'
+        } ${draggedItem ? 'cursor-pointer hover:border-indigo-400' : ''}`}
+      >
+        <h4 className="mb-3 text-base font-bold text-slate-700 dark:text-slate-300">
+          {name}
+        </h4>
+        <div className="space-y-2">
+          {itemsInCategory.map((itemId) => renderPlacedItem(itemId, categoryId))}
+          {itemsInCategory.length === 0 && (
+            <p className="py-8 text-center text-sm text-slate-400 dark:text-slate-500">
+              Drop items here
+            </p>
+          )}
+        </div>
+      </div>
+    )
   }
 
   return (
@@ -178,7 +304,13 @@ export function ClassificationSet({
 
         <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 dark:border-blue-900/50 dark:bg-blue-950/30">
           <p className="text-sm text-blue-800 dark:text-blue-200">
-            💡 Drag each item into the category box where it belongs. Items will show green for correct or red for incorrect.
+            💡 {isVenn
+              ? 'Drag each item into the part of the diagram where it belongs; an overlap means it fits every circle around it.'
+              : hasMultiLabelItems
+                ? 'Drag each item into every category box where it belongs; some items belong in more than one.'
+                : 'Drag each item into the category box where it belongs.'}
+            {currentQuestion.noneBin && ` Items that fit no category go in "${currentQuestion.noneBin}".`}
+            {' '}Items will show green for correct or red for incorrect. You can also click an item, then a box.
           </p>
         </div>
 
@@ -189,95 +321,60 @@ export function ClassificationSet({
             </h4>
             <div className="flex flex-wrap gap-2">
               {getUnclassifiedItems().map((item) => (
-                <div
+                <button
                   key={item.id}
+                  type="button"
                   draggable={!disabled && !evaluation}
                   onDragStart={() => handleDragStart(item.id)}
                   onDragEnd={handleDragEnd}
+                  onClick={() => handleItemClick(item.id)}
+                  disabled={disabled || Boolean(evaluation)}
+                  aria-pressed={draggedItem === item.id}
                   className={`rounded-lg border-2 border-indigo-300 bg-white px-4 py-2 text-sm font-medium text-slate-800 shadow-sm transition-all dark:border-indigo-600 dark:bg-slate-800 dark:text-slate-200 ${
                     disabled || evaluation ? 'cursor-not-allowed opacity-60' : 'cursor-move hover:border-indigo-500 hover:shadow-md'
-                  } ${draggedItem === item.id ? 'opacity-50' : ''}`}
+                  } ${draggedItem === item.id ? 'ring-2 ring-indigo-500 ring-offset-1' : ''}`}
                 >
                   {item.text}
-                </div>
+                </button>
               ))}
             </div>
           </div>
         )}
 
-        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-          {currentQuestion.categories.map((category) => {
-            const itemsInCategory = getItemsInCategory(category.id)
-            return (
-              <div
-                key={category.id}
-                onDragOver={handleDragOver}
-                onDrop={(e) => handleDrop(e, category.id)}
-                className="min-h-[200px] rounded-lg border-2 border-dashed border-slate-300 bg-white p-4 transition-all dark:border-slate-700 dark:bg-slate-800"
-              >
-                <h4 className="mb-3 text-base font-bold text-slate-700 dark:text-slate-300">
-                  {category.name}
-                </h4>
-                <div className="space-y-2">
-                  {itemsInCategory.map((itemId) => {
-                    const item = currentQuestion.items.find((i) => i.id === itemId)!
-                    const isCorrect = isItemCorrect(itemId)
-                    return (
-                      <div
-                        key={itemId}
-                        className={`flex items-start gap-2 rounded-lg border-2 p-3 transition-all ${
-                          isCorrect === true
-                            ? 'border-green-500 bg-green-50 dark:border-green-600 dark:bg-green-950/30'
-                            : isCorrect === false
-                              ? 'border-red-500 bg-red-50 dark:border-red-600 dark:bg-red-950/30'
-                              : 'border-slate-200 bg-slate-50 dark:border-slate-600 dark:bg-slate-900/50'
-                        }`}
-                      >
-                        <span
-                          className={`flex-shrink-0 text-lg ${
-                            isCorrect === true
-                              ? 'text-green-600 dark:text-green-400'
-                              : isCorrect === false
-                                ? 'text-red-600 dark:text-red-400'
-                                : 'text-slate-400'
-                          }`}
-                        >
-                          {isCorrect === true ? '✓' : isCorrect === false ? '✗' : '•'}
-                        </span>
-                        <span
-                          className={`flex-1 text-sm font-medium ${
-                            isCorrect === true
-                              ? 'text-green-800 dark:text-green-200'
-                              : isCorrect === false
-                                ? 'text-red-800 dark:text-red-200'
-                                : 'text-slate-700 dark:text-slate-300'
-                          }`}
-                        >
-                          {item.text}
-                        </span>
-                        {!evaluation && (
-                          <button
-                            type="button"
-                            onClick={() => handleRemoveItem(itemId)}
-                            className="flex-shrink-0 rounded-md bg-slate-200 px-2 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"
-                            title="Remove from category"
-                          >
-                            ✕
-                          </button>
-                        )}
-                      </div>
-                    )
-                  })}
-                  {itemsInCategory.length === 0 && (
-                    <p className="py-8 text-center text-sm text-slate-400 dark:text-slate-500">
-                      Drop items here
-                    </p>
-                  )}
-                </div>
-              </div>
-            )
-          })}
-        </div>
+        {isVenn ? (
+          <div className="space-y-4">
+            <ClassificationVenn
+              categories={currentQuestion.categories}
+              placements={Object.fromEntries(
+                Object.entries(currentQuestionAnswers).filter(([, categoryIds]) => categoryIds.length > 0),
+              )}
+              canPlace={Boolean(draggedItem) && !disabled && !evaluation}
+              onPlace={handlePlaceVenn}
+              renderItem={(itemId) => renderPlacedItem(itemId, null)}
+            />
+            {currentQuestion.noneBin && renderBin(null, currentQuestion.noneBin)}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            {currentQuestion.categories.map((category) => renderBin(category.id, category.name))}
+            {currentQuestion.noneBin && renderBin(null, currentQuestion.noneBin)}
+          </div>
+        )}
+
+        {itemFeedback && itemFeedback.length > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 dark:border-amber-900/50 dark:bg-amber-950/30">
+            <h4 className="mb-2 text-sm font-semibold uppercase tracking-wide text-amber-800 dark:text-amber-200">
+              Item feedback
+            </h4>
+            <ul className="space-y-1 text-sm text-slate-700 dark:text-slate-300">
+              {itemFeedback.map((criterion) => (
+                <li key={criterion.id}>
+                  <span className="font-medium">{criterion.label}:</span> {criterion.feedback}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
       <div className="flex flex-wrap items-center justify-between gap-4 rounded-lg border border-slate-200 bg-slate-50 p-4 dark:border-slate-800 dark:bg-slate-900">
@@ -306,7 +403,7 @@ export function ClassificationSet({
           >
             {allQuestionsComplete
               ? '✓ Submit All Classifications'
-              : `Classify ${currentQuestion.items.length - Object.values(currentQuestionAnswers).length} more`}
+              : `Classify ${currentQuestion.items.length - Object.keys(currentQuestionAnswers).length} more`}
           </button>
         )}
       </div>
@@ -0,0 +1,149 @@
+import type { DragEvent, ReactNode } from 'react'
+import type { ClassificationSetSpec } from '../../domain/schema'
+
+type Category = ClassificationSetSpec['questions'][number]['categories'][number]
+
+interface ClassificationVennProps {
+  categories: Category[]
+  placements: Record<string, string[]> // Record<itemId, categoryIds>
+  canPlace: boolean
+  onPlace: (categoryIds: string[]) => void
+  renderItem: (itemId: string) => ReactNode
+}
+
+interface VennRegion {
+  members: number[] // Indexes into categories
+  x: number // Anchor in percent of the board
+  y: number
+}
+
+// Circle centres, label positions and one anchor inside each overlap, in viewBox units
+const LAYOUTS = {
+  2: {
+    viewBox: { width: 100, height: 60 },
+    radius: 26,
+    circles: [
+      { cx: 37, cy: 32, labelX: 25, labelY: 4 },
+      { cx: 63, cy: 32, labelX: 75, labelY: 4 },
+    ],
+    regions: [
+      { members: [0], x: 22, y: 32 },
+      { members: [0, 1], x: 50, y: 32 },
+      { members: [1], x: 78, y: 32 },
+    ],
+  },
+  3: {
+    viewBox: { width: 100, height: 100 },
+    radius: 25,
+    circles: [
+      { cx: 38, cy: 38, labelX: 25, labelY: 8 },
+      { cx: 62, cy: 38, labelX: 75, labelY: 8 },
+      { cx: 50, cy: 60, labelX: 50, labelY: 94 },
+    ],
+    regions: [
+      { members: [0], x: 27, y: 30 },
+      { members: [1], x: 73, y: 30 },
+      { members: [2], x: 50, y: 76 },
+      { members: [0, 1], x: 50, y: 27 },
+      { members: [0, 2], x: 36, y: 55 },
+      { members: [1, 2], x: 64, y: 55 },
+      { members: [0, 1, 2], x: 50, y: 45 },
+    ],
+  },
+} satisfies Record<number, {
+  viewBox: { width: number; height: number }
+  radius: number
+  circles: Array<{ cx: number; cy: number; labelX: number; labelY: number }>
+  regions: VennRegion[]
+}>
+
+const CIRCLE_COLORS = ['fill-indigo-400/20 stroke-indigo-500', 'fill-purple-400/20 stroke-purple-500', 'fill-teal-400/20 stroke-teal-500']
+
+const sameMembers = (a: string[], b: string[]) => a.length === b.length && a.every((id) => b.includes(id))
+
+/** Overlapping circles for two or three categories; each overlap is a drop target. */
+export function ClassificationVenn({ categories, placements, canPlace, onPlace, renderItem }: ClassificationVennProps) {
+  const layout = categories.length === 2 ? LAYOUTS[2] : LAYOUTS[3]
+  const { width, height } = layout.viewBox
+
+  // A drop anywhere on the board lands in the overlap of every circle under the pointer
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const x = ((event.clientX - bounds.left) / bounds.width) * width
+    const y = ((event.clientY - bounds.top) / bounds.height) * height
+    const categoryIds = layout.circles
+      .map((circle, index) => ({ inside: Math.hypot(x - circle.cx, y - circle.cy) <= layout.radius, index }))
+      .filter((circle) => circle.inside)
+      .map((circle) => categories[circle.index].id)
+    if (categoryIds.length > 0) onPlace(categoryIds)
+  }
+
+  return (
+    <div
+      className="relative w-full"
+      style={{ aspectRatio: `${width} / ${height}` }}
+      onDragOver={(event) => event.preventDefault()}
+      onDrop={handleDrop}
+    >
+      <svg className="absolute inset-0 h-full w-full" viewBox={`0 0 ${width} ${height}`} aria-hidden="true">
+        {layout.circles.map((circle, index) => (
+          <g key={categories[index].id}>
+            <circle
+              cx={circle.cx}
+              cy={circle.cy}
+              r={layout.radius}
+              className={`${CIRCLE_COLORS[index]} stroke-[0.4]`}
+            />
+            <text
+              x={circle.labelX}
+              y={circle.labelY}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              className="fill-slate-700 text-[3.5px] font-bold dark:fill-slate-200"
+            >
+              {categories[index].name}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      {layout.regions.map((region) => {
+        const categoryIds = region.members.map((index) => categories[index].id)
+        const label =
+          region.members.length === 1
+            ? `${categories[region.members[0]].name} only`
+            : region.members.map((index) => categories[index].name).join(' and ')
+        const itemIds = Object.entries(placements)
+          .filter(([, placed]) => sameMembers(placed, categoryIds))
+          .map(([itemId]) => itemId)
+
+        return (
+          <div
+            key={categoryIds.join('+')}
+            role="group"
+            aria-label={label}
+            className="absolute flex w-[22%] -translate-x-1/2 -translate-y-1/2 flex-col items-center gap-1"
+            style={{ left: `${(region.x / width) * 100}%`, top: `${(region.y / height) * 100}%` }}
+          >
+            {itemIds.map((itemId) => (
+              <div key={itemId} className="w-full">
+                {renderItem(itemId)}
+              </div>
+            ))}
+            {canPlace && (
+              <button
+                type="button"
+                onClick={() => onPlace(categoryIds)}
+                aria-label={`Place in ${label}`}
+                className="rounded-full border border-dashed border-indigo-400 bg-white/80 px-2 py-0.5 text-xs font-medium text-indigo-700 hover:bg-indigo-50 dark:bg-slate-800/80 dark:text-indigo-300"
+              >
+                Place here
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
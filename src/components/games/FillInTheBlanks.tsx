@@ -2,6 +2,14 @@ import { useState, useEffect } from 'react'
 import type { FormEvent } from 'react'
 import type { EvaluationResult } from '../../domain/events'
 import type { FillInTheBlanksSpec, FillInTheBlanksAnswer } from '../../domain/schema'
+import {
+  getBlankResponses,
+  getSentenceBlanks,
+  isBlankCorrect,
+  isSentenceAnswered,
+  isSentenceCorrect,
+  setBlankResponse,
+} from '../../domain/blanks'
 import { useRendererStore } from '../../lib/store'
 
 interface FillInTheBlanksProps {
@@ -14,6 +22,8 @@ interface FillInTheBlanksProps {
   onReset: () => void
 }
 
+type Sentence = FillInTheBlanksSpec['sentences'][number]
+
 export function FillInTheBlanks({
   spec,
   answer,
@@ -24,7 +34,7 @@ export function FillInTheBlanks({
   onReset,
 }: FillInTheBlanksProps) {
   const [currentSentenceIndex, setCurrentSentenceIndex] = useState(0)
-  const [answers, setAnswers] = useState<Record<string, string>>(answer?.answers || {})
+  const [answers, setAnswers] = useState<FillInTheBlanksAnswer['answers']>(answer?.answers || {})
   const [draggedWord, setDraggedWord] = useState<string | null>(null)
   const [showFeedback, setShowFeedback] = useState(false)
   const [shuffledWordBank, setShuffledWordBank] = useState<string[]>([])
@@ -34,7 +44,8 @@ export function FillInTheBlanks({
   const totalSentences = spec.sentences.length
   const isLastSentence = currentSentenceIndex === totalSentences - 1
   const isFirstSentence = currentSentenceIndex === 0
-  const allAnswered = spec.sentences.every((s) => answers[s.id])
+  const allAnswered = spec.sentences.every((s) => isSentenceAnswered(s, answers[s.id]))
+  const isTyped = spec.mode === 'typed'
 
   // Shuffle array using Fisher-Yates algorithm
   const shuffleArray = <T,>(array: T[]): T[] => {
@@ -48,7 +59,7 @@ export function FillInTheBlanks({
 
   // Shuffle word bank on mount
   useEffect(() => {
-    setShuffledWordBank(shuffleArray(spec.word_bank))
+    setShuffledWordBank(shuffleArray(spec.word_bank ?? []))
   }, [spec.word_bank])
 
   useEffect(() => {
@@ -67,13 +78,23 @@ export function FillInTheBlanks({
     event.preventDefault()
   }
 
-  const handleDrop = (event: React.DragEvent, sentenceId: string) => {
+  const updateBlank = (sentence: Sentence, blankIndex: number, value: string) => {
+    const response = setBlankResponse(sentence, answers[sentence.id], blankIndex, value)
+    const newAnswers = { ...answers }
+    if (response === undefined) {
+      delete newAnswers[sentence.id]
+    } else {
+      newAnswers[sentence.id] = response
+    }
+    setAnswers(newAnswers)
+    onAnswerChange({ answers: newAnswers })
+  }
+
+  const handleDrop = (event: React.DragEvent, sentence: Sentence, blankIndex: number) => {
     event.preventDefault()
     if (disabled || evaluation || !draggedWord) return
 
-    const newAnswers = { ...answers, [sentenceId]: draggedWord }
-    setAnswers(newAnswers)
-    onAnswerChange({ answers: newAnswers })
+    updateBlank(sentence, blankIndex, draggedWord)
     setDraggedWord(null)
   }
 
@@ -81,19 +102,16 @@ export function FillInTheBlanks({
     setDraggedWord(null)
   }
 
-  // Check if the current sentence's answer is correct (real-time feedback)
-  const isCurrentAnswerCorrect = (): boolean | null => {
-    const selectedWord = answers[currentSentence.id]
-    if (!selectedWord) return null
-    return selectedWord === currentSentence.blank_answer
+  // Dropped words get real-time feedback; typed blanks are only checked once submitted
+  const getBlankStatus = (blankIndex: number): boolean | null => {
+    const response = getBlankResponses(answers[currentSentence.id])[blankIndex]
+    if (!response || (isTyped && !evaluation)) return null
+    return isBlankCorrect(spec.mode, getSentenceBlanks(currentSentence)[blankIndex], response)
   }
 
-  const handleRemoveAnswer = (sentenceId: string) => {
+  const handleRemoveAnswer = (sentence: Sentence, blankIndex: number) => {
     if (disabled || evaluation) return
-    const newAnswers = { ...answers }
-    delete newAnswers[sentenceId]
-    setAnswers(newAnswers)
-    onAnswerChange({ answers: newAnswers })
+    updateBlank(sentence, blankIndex, '')
   }
 
   const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
@@ -101,8 +119,7 @@ export function FillInTheBlanks({
     if (!allAnswered) return
     
     // Mark the last sentence as submitted
-    const isCorrect = answers[currentSentence.id] === currentSentence.blank_answer
-    if (isCorrect) {
+    if (isSentenceCorrect(spec, currentSentence, answers[currentSentence.id])) {
       markQuestionSubmitted(spec.id, currentSentence.id, true)
     }
     
@@ -119,8 +136,7 @@ export function FillInTheBlanks({
   const handleNext = () => {
     if (!isLastSentence) {
       // Mark current sentence as submitted before moving to next
-      const isCorrect = answers[currentSentence.id] === currentSentence.blank_answer
-      if (answers[currentSentence.id] && isCorrect) {
+      if (isSentenceCorrect(spec, currentSentence, answers[currentSentence.id])) {
         markQuestionSubmitted(spec.id, currentSentence.id, true)
       }
       setCurrentSentenceIndex((prev) => prev + 1)
@@ -133,8 +149,14 @@ export function FillInTheBlanks({
     }
   }
 
-  // Words that are already used
-  const usedWords = new Set(Object.values(answers))
+  // How often each word is placed, so a word listed twice in the bank stays available once
+  const usedCounts = new Map<string, number>()
+  if (!spec.reuseWords) {
+    for (const word of Object.values(answers).flatMap(getBlankResponses)) {
+      if (word) usedCounts.set(word, (usedCounts.get(word) ?? 0) + 1)
+    }
+  }
+  const bankSeen = new Map<string, number>()
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
@@ -158,7 +180,11 @@ export function FillInTheBlanks({
         {/* Instructions */}
         <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 dark:border-blue-900/50 dark:bg-blue-950/30">
           <p className="text-sm text-blue-800 dark:text-blue-200">
-            💡 Drag a word from the word bank into the blank space to complete the sentence.
+            {isTyped
+              ? '💡 Type the missing word into each blank to complete the sentence.'
+              : spec.reuseWords
+                ? '💡 Drag words from the word bank into the blanks. A word can be used more than once.'
+                : '💡 Drag a word from the word bank into each blank space to complete the sentence.'}
           </p>
         </div>
 
@@ -166,25 +192,41 @@ export function FillInTheBlanks({
         <div className="rounded-lg border border-slate-200 bg-white p-6 dark:border-slate-700 dark:bg-slate-800">
           <div className="flex flex-wrap items-center gap-2 text-lg leading-relaxed">
             {currentSentence.text.map((segment, idx) => {
-              const selectedWord = answers[currentSentence.id]
-              const answerStatus = isCurrentAnswerCorrect()
+              const selectedWord = getBlankResponses(answers[currentSentence.id])[idx]
+              const answerStatus = getBlankStatus(idx)
               const isCorrect = answerStatus === true
               const isIncorrect = answerStatus === false
+              const statusClass = isCorrect
+                ? 'border-green-500 bg-green-100 text-green-800 dark:border-green-400 dark:bg-green-950/50 dark:text-green-200'
+                : isIncorrect
+                  ? 'border-red-500 bg-red-100 text-red-800 dark:border-red-400 dark:bg-red-950/50 dark:text-red-200'
+                  : 'border-indigo-400 bg-indigo-50 text-indigo-800 dark:border-indigo-500 dark:bg-indigo-950/30 dark:text-indigo-200'
 
               return (
                 <span key={idx} className="text-slate-800 dark:text-slate-200">
                   {segment}
-                  {idx < currentSentence.text.length - 1 && (
+                  {idx < currentSentence.text.length - 1 && isTyped && (
+                    <input
+                      type="text"
+                      autoComplete="off"
+                      aria-label={`Blank ${idx + 1}`}
+                      value={selectedWord ?? ''}
+                      onChange={(event) => updateBlank(currentSentence, idx, event.target.value)}
+                      disabled={disabled || Boolean(evaluation)}
+                      className={`ml-2 w-48 rounded-lg border-2 px-4 py-2 font-semibold transition-all focus:outline-none ${
+                        selectedWord
+                          ? statusClass
+                          : 'border-dashed border-slate-300 bg-slate-50 text-slate-800 focus:border-indigo-400 dark:border-slate-600 dark:bg-slate-900/50 dark:text-slate-200'
+                      }`}
+                    />
+                  )}
+                  {idx < currentSentence.text.length - 1 && !isTyped && (
                     <span
                       onDragOver={handleDragOver}
-                      onDrop={(e) => handleDrop(e, currentSentence.id)}
+                      onDrop={(e) => handleDrop(e, currentSentence, idx)}
                       className={`ml-2 inline-flex min-w-[240px] items-center justify-center rounded-lg border-2 border-dashed px-6 py-3 font-semibold transition-all ${
                         selectedWord
-                          ? isCorrect
-                            ? 'border-green-500 bg-green-100 text-green-800 dark:border-green-400 dark:bg-green-950/50 dark:text-green-200'
-                            : isIncorrect
-                              ? 'border-red-500 bg-red-100 text-red-800 dark:border-red-400 dark:bg-red-950/50 dark:text-red-200'
-                              : 'border-indigo-400 bg-indigo-50 text-indigo-800 dark:border-indigo-500 dark:bg-indigo-950/30 dark:text-indigo-200'
+                          ? statusClass
                           : 'border-slate-300 bg-slate-50 text-slate-400 hover:border-indigo-400 hover:bg-indigo-50 dark:border-slate-600 dark:bg-slate-900/50 dark:text-slate-500 dark:hover:border-indigo-500'
                       }`}
                     >
@@ -196,7 +238,7 @@ export function FillInTheBlanks({
                           {!evaluation && (
                             <button
                               type="button"
-                              onClick={() => handleRemoveAnswer(currentSentence.id)}
+                              onClick={() => handleRemoveAnswer(currentSentence, idx)}
                               className="rounded-full bg-slate-200 p-1 text-slate-600 transition hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"
                             >
                               <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -217,35 +259,40 @@ export function FillInTheBlanks({
         </div>
 
         {/* Word Bank */}
-        <div className="rounded-lg border border-slate-200 bg-slate-50 p-6 dark:border-slate-800 dark:bg-slate-900">
-          <h3 className="mb-4 text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
-            Word Bank
-          </h3>
-          <div className="flex flex-wrap gap-3">
-            {shuffledWordBank.map((word) => {
-              const isUsed = usedWords.has(word)
-              return (
-                <div
-                  key={word}
-                  draggable={!isUsed && !disabled && !evaluation}
-                  onDragStart={() => handleDragStart(word)}
-                  onDragEnd={handleDragEnd}
-                  className={`rounded-lg border px-4 py-2 font-medium transition-all ${
-                    isUsed
-                      ? 'border-slate-300 bg-slate-200 text-slate-400 opacity-40 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-500'
-                      : draggedWord === word
-                        ? 'border-purple-500 bg-purple-100 opacity-50 dark:border-purple-400 dark:bg-purple-950/50'
-                        : 'border-indigo-400 bg-white text-indigo-700 hover:border-indigo-600 hover:bg-indigo-50 dark:border-indigo-500 dark:bg-slate-800 dark:text-indigo-300 dark:hover:bg-indigo-950/50'
-                  } ${
-                    !isUsed && !disabled && !evaluation ? 'cursor-move' : 'cursor-not-allowed'
-                  }`}
-                >
-                  {word}
-                </div>
-              )
-            })}
+        {!isTyped && (
+          <div className="rounded-lg border border-slate-200 bg-slate-50 p-6 dark:border-slate-800 dark:bg-slate-900">
+            <h3 className="mb-4 text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+              Word Bank
+            </h3>
+            <div className="flex flex-wrap gap-3">
+              {shuffledWordBank.map((word, index) => {
+                // The first copies of a placed word in the bank are the ones shown as used
+                const seen = bankSeen.get(word) ?? 0
+                bankSeen.set(word, seen + 1)
+                const isUsed = seen < (usedCounts.get(word) ?? 0)
+                return (
+                  <div
+                    key={`${word}-${index}`}
+                    draggable={!isUsed && !disabled && !evaluation}
+                    onDragStart={() => handleDragStart(word)}
+                    onDragEnd={handleDragEnd}
+                    className={`rounded-lg border px-4 py-2 font-medium transition-all ${
+                      isUsed
+                        ? 'border-slate-300 bg-slate-200 text-slate-400 opacity-40 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-500'
+                        : draggedWord === word
+                          ? 'border-purple-500 bg-purple-100 opacity-50 dark:border-purple-400 dark:bg-purple-950/50'
+                          : 'border-indigo-400 bg-white text-indigo-700 hover:border-indigo-600 hover:bg-indigo-50 dark:border-indigo-500 dark:bg-slate-800 dark:text-indigo-300 dark:hover:bg-indigo-950/50'
+                    } ${
+                      !isUsed && !disabled && !evaluation ? 'cursor-move' : 'cursor-not-allowed'
+                    }`}
+                  >
+                    {word}
+                  </div>
+                )
+              })}
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Navigation Buttons */}
@@ -274,7 +321,7 @@ export function FillInTheBlanks({
               disabled={!allAnswered || disabled}
               className="rounded-lg bg-green-600 px-6 py-2 font-semibold text-white hover:bg-green-700 disabled:cursor-not-allowed disabled:bg-slate-400 dark:bg-green-500 dark:hover:bg-green-600"
             >
-              {allAnswered ? '✓ Submit All Answers' : `Fill ${spec.sentences.length - Object.keys(answers).length} more`}
+              {allAnswered ? '✓ Submit All Answers' : `Fill ${spec.sentences.filter((s) => !isSentenceAnswered(s, answers[s.id])).length} more`}
             </button>
           )}
         </div>
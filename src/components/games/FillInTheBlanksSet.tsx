@@ -0,0 +1,418 @@
+import { useState, useEffect } from 'react'
+import type { FormEvent } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { FillInTheBlanksSetSpec, FillInTheBlanksSetAnswer } from '../../domain/schema'
+import { OMIProgress } from '../OMIProgress'
+import {
+  getBlankResponses,
+  getSentenceBlanks,
+  isBlankCorrect,
+  isSentenceAnswered,
+  isSentenceCorrect,
+  setBlankResponse,
+} from '../../domain/blanks'
+import { useRendererStore } from '../../lib/store'
+
+interface FillInTheBlanksSetProps {
+  spec: FillInTheBlanksSetSpec
+  answer?: FillInTheBlanksSetAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: FillInTheBlanksSetAnswer) => void
+  onSubmit: (answer: FillInTheBlanksSetAnswer) => void
+  onReset: () => void
+}
+
+type Question = FillInTheBlanksSetSpec['questions'][number]
+type Sentence = Question['sentences'][number]
+
+export function FillInTheBlanksSet({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: FillInTheBlanksSetProps) {
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
+  const [answers, setAnswers] = useState<FillInTheBlanksSetAnswer['answers']>(answer?.answers || {})
+  const [draggedWord, setDraggedWord] = useState<string | null>(null)
+  const [showFeedback, setShowFeedback] = useState(false)
+  const [fadeIn, setFadeIn] = useState(true)
+  const [shuffledWordBank, setShuffledWordBank] = useState<string[]>([])
+  const markQuestionSubmitted = useRendererStore((state) => state.markQuestionSubmitted)
+
+  const currentQuestion = spec.questions[currentQuestionIndex]
+  const currentAnswers = answers[currentQuestion.id] || {}
+  const totalQuestions = spec.questions.length
+  const isLastQuestion = currentQuestionIndex === totalQuestions - 1
+  const isFirstQuestion = currentQuestionIndex === 0
+  const isQuestionAnswered = (question: Question) =>
+    question.sentences.every((sentence) => isSentenceAnswered(sentence, answers[question.id]?.[sentence.id]))
+  const allAnswered = spec.questions.every(isQuestionAnswered)
+  const isTyped = currentQuestion.mode === 'typed'
+
+  // Shuffle array using Fisher-Yates algorithm
+  const shuffleArray = <T,>(array: T[]): T[] => {
+    const shuffled = [...array]
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+    }
+    return shuffled
+  }
+
+  // Fade in effect when question changes with slide animation
+  useEffect(() => {
+    setFadeIn(false)
+    const timer = setTimeout(() => setFadeIn(true), 100)
+    return () => clearTimeout(timer)
+  }, [currentQuestionIndex])
+
+  // Each question has its own word bank, shuffled when the question changes
+  useEffect(() => {
+    setShuffledWordBank(shuffleArray(currentQuestion.word_bank ?? []))
+  }, [currentQuestion.word_bank])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const saveCurrentQuestionAnswers = (questionAnswers: FillInTheBlanksSetAnswer['answers'][string]) => {
+    const newAnswers = { ...answers, [currentQuestion.id]: questionAnswers }
+    setAnswers(newAnswers)
+    onAnswerChange({ answers: newAnswers })
+  }
+
+  const handleDragStart = (word: string) => {
+    if (disabled || evaluation) return
+    setDraggedWord(word)
+  }
+
+  const handleDragOver = (event: React.DragEvent) => {
+    event.preventDefault()
+  }
+
+  const updateBlank = (sentence: Sentence, blankIndex: number, value: string) => {
+    const response = setBlankResponse(sentence, currentAnswers[sentence.id], blankIndex, value)
+    const questionAnswers = { ...currentAnswers }
+    if (response === undefined) {
+      delete questionAnswers[sentence.id]
+    } else {
+      questionAnswers[sentence.id] = response
+    }
+    saveCurrentQuestionAnswers(questionAnswers)
+  }
+
+  const handleDrop = (event: React.DragEvent, sentence: Sentence, blankIndex: number) => {
+    event.preventDefault()
+    if (disabled || evaluation || !draggedWord) return
+    updateBlank(sentence, blankIndex, draggedWord)
+    setDraggedWord(null)
+  }
+
+  const handleDragEnd = () => {
+    setDraggedWord(null)
+  }
+
+  const handleRemoveAnswer = (sentence: Sentence, blankIndex: number) => {
+    if (disabled || evaluation) return
+    updateBlank(sentence, blankIndex, '')
+  }
+
+  const isCurrentQuestionCorrect = () =>
+    currentQuestion.sentences.every((sentence) => isSentenceCorrect(currentQuestion, sentence, currentAnswers[sentence.id]))
+
+  const handleNext = () => {
+    if (!isLastQuestion) {
+      // Mark current question as submitted before moving to next
+      if (isCurrentQuestionCorrect()) {
+        markQuestionSubmitted(spec.id, currentQuestion.id, true)
+      }
+      setCurrentQuestionIndex(currentQuestionIndex + 1)
+    }
+  }
+
+  const handlePrevious = () => {
+    if (!isFirstQuestion) {
+      setCurrentQuestionIndex(currentQuestionIndex - 1)
+    }
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!allAnswered) return
+
+    // Mark the last question as submitted
+    if (isCurrentQuestionCorrect()) {
+      markQuestionSubmitted(spec.id, currentQuestion.id, true)
+    }
+
+    onSubmit({ answers })
+  }
+
+  const handleTryAgain = () => {
+    setAnswers({})
+    setCurrentQuestionIndex(0)
+    setShowFeedback(false)
+    onReset()
+  }
+
+  // How often each word is placed in this question, so a word listed twice in the bank stays available once
+  const usedCounts = new Map<string, number>()
+  if (!currentQuestion.reuseWords) {
+    for (const word of Object.values(currentAnswers).flatMap(getBlankResponses)) {
+      if (word) usedCounts.set(word, (usedCounts.get(word) ?? 0) + 1)
+    }
+  }
+  const bankSeen = new Map<string, number>()
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Simple Progress Bar */}
+      <div className="relative h-1 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+        <div
+          className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500 ease-out"
+          style={{
+            width: `${((currentQuestionIndex + 1) / totalQuestions) * 100}%`
+          }}
+        />
+      </div>
+
+      {/* Current Question */}
+      <div className={`space-y-4 transition-all duration-500 transform ${fadeIn ? 'opacity-100 translate-x-0' : 'opacity-0 -translate-x-8'}`}>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1">
+            {currentQuestion.title && (
+              <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100">
+                {currentQuestion.title}
+              </h3>
+            )}
+
+            {currentQuestion.prompt && (
+              <p className="text-base text-slate-600 dark:text-slate-300">
+                {currentQuestion.prompt}
+              </p>
+            )}
+          </div>
+          {currentQuestion.omiMapping && currentQuestion.omiMapping.length > 0 && (
+            <OMIProgress spec={spec} currentOmiIds={currentQuestion.omiMapping} />
+          )}
+        </div>
+
+        {/* Instructions */}
+        <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-950/30">
+          <p className="text-sm font-medium text-blue-800 dark:text-blue-200">
+            {isTyped
+              ? '💡 Type the missing word into each blank to complete the sentences.'
+              : currentQuestion.reuseWords
+                ? '💡 Drag words from the word bank into the blanks. A word can be used more than once.'
+                : '💡 Drag a word from the word bank into each blank to complete the sentences.'}
+          </p>
+        </div>
+
+        {/* Sentences with blanks */}
+        <div className="space-y-3">
+          {currentQuestion.sentences.map((sentence) => {
+            const responses = getBlankResponses(currentAnswers[sentence.id])
+            const blanks = getSentenceBlanks(sentence)
+
+            return (
+              <div
+                key={sentence.id}
+                className="rounded-lg border border-slate-200 bg-white p-4 dark:border-slate-700 dark:bg-slate-800"
+              >
+                <div className="flex flex-wrap items-center gap-2 leading-relaxed">
+                  {sentence.text.map((segment, idx) => {
+                    const selectedWord = responses[idx]
+                    // Typed blanks are only marked once the set is submitted
+                    const showStatus = Boolean(selectedWord) && (!isTyped || Boolean(evaluation))
+                    const isCorrect = isBlankCorrect(currentQuestion.mode, blanks[idx] ?? [], selectedWord)
+                    const statusClass = isCorrect
+                      ? 'border-green-500 bg-green-100 text-green-800 dark:border-green-400 dark:bg-green-950/50 dark:text-green-200'
+                      : 'border-red-500 bg-red-100 text-red-800 dark:border-red-400 dark:bg-red-950/50 dark:text-red-200'
+
+                    return (
+                      <span key={idx} className="text-slate-800 dark:text-slate-200">
+                        {segment}
+                        {idx < sentence.text.length - 1 && isTyped && (
+                          <input
+                            type="text"
+                            autoComplete="off"
+                            aria-label={`Blank ${idx + 1}`}
+                            value={selectedWord ?? ''}
+                            onChange={(event) => updateBlank(sentence, idx, event.target.value)}
+                            disabled={disabled || Boolean(evaluation)}
+                            className={`ml-2 w-40 rounded-lg border-2 px-4 py-2 font-semibold transition-all focus:outline-none ${
+                              showStatus
+                                ? statusClass
+                                : 'border-dashed border-slate-300 bg-slate-50 text-slate-800 focus:border-indigo-400 dark:border-slate-600 dark:bg-slate-900/50 dark:text-slate-200'
+                            }`}
+                          />
+                        )}
+                        {idx < sentence.text.length - 1 && !isTyped && (
+                          <span
+                            onDragOver={handleDragOver}
+                            onDrop={(e) => handleDrop(e, sentence, idx)}
+                            className={`ml-2 inline-flex min-w-[160px] items-center justify-center rounded-lg border-2 border-dashed px-4 py-2 font-semibold transition-all ${
+                              showStatus
+                                ? statusClass
+                                : 'border-slate-300 bg-slate-50 text-slate-400 hover:border-indigo-400 hover:bg-indigo-50 dark:border-slate-600 dark:bg-slate-900/50 dark:text-slate-500 dark:hover:border-indigo-500'
+                            }`}
+                          >
+                            {selectedWord ? (
+                              <span className="flex items-center gap-2">
+                                {isCorrect ? (
+                                  <span className="text-green-600 dark:text-green-400">✓</span>
+                                ) : (
+                                  <span className="text-red-600 dark:text-red-400">✗</span>
+                                )}
+                                <span>{selectedWord}</span>
+                                {!evaluation && (
+                                  <button
+                                    type="button"
+                                    onClick={() => handleRemoveAnswer(sentence, idx)}
+                                    className="rounded-full bg-slate-200 p-1 text-slate-600 transition hover:bg-slate-300 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"
+                                    title="Remove word"
+                                  >
+                                    <svg className="h-3 w-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                    </svg>
+                                  </button>
+                                )}
+                              </span>
+                            ) : (
+                              <span className="text-sm">Drop word here</span>
+                            )}
+                          </span>
+                        )}
+                      </span>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {/* Word Bank */}
+        {!isTyped && (
+          <div className="rounded-lg border border-slate-200 bg-slate-50 p-6 dark:border-slate-800 dark:bg-slate-900">
+            <h3 className="mb-4 text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+              Word Bank
+            </h3>
+            <div className="flex flex-wrap gap-3">
+              {shuffledWordBank.map((word, index) => {
+                // The first copies of a placed word in the bank are the ones shown as used
+                const seen = bankSeen.get(word) ?? 0
+                bankSeen.set(word, seen + 1)
+                const isUsed = seen < (usedCounts.get(word) ?? 0)
+                return (
+                  <div
+                    key={`${word}-${index}`}
+                    draggable={!isUsed && !disabled && !evaluation}
+                    onDragStart={() => handleDragStart(word)}
+                    onDragEnd={handleDragEnd}
+                    className={`rounded-lg border px-4 py-2 font-medium transition-all ${
+                      isUsed
+                        ? 'border-slate-300 bg-slate-200 text-slate-400 opacity-40 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-500'
+                        : draggedWord === word
+                          ? 'border-purple-500 bg-purple-100 opacity-50 dark:border-purple-400 dark:bg-purple-950/50'
+                          : 'border-indigo-400 bg-white text-indigo-700 hover:border-indigo-600 hover:bg-indigo-50 dark:border-indigo-500 dark:bg-slate-800 dark:text-indigo-300 dark:hover:bg-indigo-950/50'
+                    } ${
+                      !isUsed && !disabled && !evaluation ? 'cursor-move' : 'cursor-not-allowed'
+                    }`}
+                  >
+                    {word}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Navigation Buttons */}
+      <div className="flex flex-wrap items-center justify-between gap-4 rounded-xl border-2 border-slate-200 bg-slate-50 p-4 dark:border-slate-700 dark:bg-slate-800/50">
+        <button
+          type="button"
+          onClick={handlePrevious}
+          disabled={isFirstQuestion}
+          className="rounded-lg bg-white px-4 py-2 font-semibold text-slate-700 shadow-sm transition-all hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600"
+        >
+          ← Previous
+        </button>
+
+        {!isLastQuestion ? (
+          <button
+            type="button"
+            onClick={handleNext}
+            className="rounded-lg bg-indigo-600 px-6 py-2 font-semibold text-white shadow-sm transition-all hover:bg-indigo-700 dark:bg-indigo-500 dark:hover:bg-indigo-600"
+          >
+            Next →
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!allAnswered || disabled || Boolean(evaluation)}
+            className="rounded-lg bg-gradient-to-r from-green-600 to-green-700 px-6 py-2.5 font-bold text-white shadow-lg transition-all hover:from-green-700 hover:to-green-800 disabled:cursor-not-allowed disabled:from-slate-400 disabled:to-slate-500"
+          >
+            {allAnswered
+              ? '✓ Submit All Answers'
+              : `Answer ${spec.questions.filter((question) => !isQuestionAnswered(question)).length} more`}
+          </button>
+        )}
+      </div>
+
+      {/* Feedback */}
+      {evaluation && showFeedback && (
+        <div
+          className={`rounded-2xl border-2 p-6 shadow-xl transition-all animate-slide-in ${
+            evaluation.correct
+              ? 'border-green-300 bg-gradient-to-br from-green-50 to-green-100 dark:border-green-500/40 dark:from-green-950/50 dark:to-green-900/30'
+              : 'border-amber-300 bg-gradient-to-br from-amber-50 to-amber-100 dark:border-amber-500/40 dark:from-amber-950/50 dark:to-amber-900/30'
+          }`}
+        >
+          <div className="flex items-start gap-4">
+            <div
+              className={`flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full text-2xl ${
+                evaluation.correct
+                  ? 'bg-green-500 text-white'
+                  : 'bg-amber-500 text-white'
+              }`}
+            >
+              {evaluation.correct ? '✓' : '○'}
+            </div>
+            <div className="flex-1 space-y-3">
+              <p
+                className={`text-lg font-bold ${
+                  evaluation.correct
+                    ? 'text-green-800 dark:text-green-200'
+                    : 'text-amber-800 dark:text-amber-200'
+                }`}
+              >
+                {evaluation.feedback}
+              </p>
+              <p className="text-sm font-medium text-slate-600 dark:text-slate-400">
+                Score: {Math.round(evaluation.score * 100)}%
+              </p>
+              {!evaluation.correct && (
+                <button
+                  type="button"
+                  onClick={handleTryAgain}
+                  className="mt-4 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-2.5 font-semibold text-white shadow-lg transition-all hover:from-indigo-700 hover:to-purple-700"
+                >
+                  Try Again
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,230 @@
+import { useEffect, useRef, useState } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { FlashcardGrade, FlashcardsAnswer, FlashcardsSpec } from '../../domain/schema'
+import { flashcardKey, isRecalled, scheduleReview } from '../../domain/flashcards'
+import { useRendererStore } from '../../lib/store'
+
+interface FlashcardsProps {
+  spec: FlashcardsSpec
+  answer?: FlashcardsAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: FlashcardsAnswer) => void
+  onSubmit: (answer: FlashcardsAnswer) => void
+  onReset: () => void
+}
+
+const GRADES: Array<{ grade: FlashcardGrade; label: string; className: string }> = [
+  { grade: 'again', label: 'Again', className: 'border-red-300 text-red-700 hover:bg-red-50 dark:border-red-700 dark:text-red-300 dark:hover:bg-red-950/30' },
+  { grade: 'hard', label: 'Hard', className: 'border-amber-300 text-amber-700 hover:bg-amber-50 dark:border-amber-700 dark:text-amber-300 dark:hover:bg-amber-950/30' },
+  { grade: 'good', label: 'Good', className: 'border-emerald-300 text-emerald-700 hover:bg-emerald-50 dark:border-emerald-700 dark:text-emerald-300 dark:hover:bg-emerald-950/30' },
+  { grade: 'easy', label: 'Easy', className: 'border-indigo-300 text-indigo-700 hover:bg-indigo-50 dark:border-indigo-700 dark:text-indigo-300 dark:hover:bg-indigo-950/30' },
+]
+
+const formatInterval = (days: number) => (days === 0 ? 'today' : days === 1 ? '1 day' : `${days} days`)
+
+export function Flashcards({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: FlashcardsProps) {
+  const [grades, setGrades] = useState<Record<string, FlashcardGrade>>(answer?.grades ?? {})
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [revealed, setRevealed] = useState(false)
+  const [hintShown, setHintShown] = useState(false)
+  const [showFeedback, setShowFeedback] = useState(false)
+  const submittedRef = useRef(false)
+  const reviews = useRendererStore((state) => state.flashcardReviews)
+  const reviewFlashcard = useRendererStore((state) => state.reviewFlashcard)
+  const markQuestionSubmitted = useRendererStore((state) => state.markQuestionSubmitted)
+
+  const card = spec.cards[currentIndex]
+  const totalCards = spec.cards.length
+  const gradedCount = Object.keys(grades).length
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const submit = (result: FlashcardsAnswer) => {
+    if (submittedRef.current) return
+    submittedRef.current = true
+    onSubmit(result)
+  }
+
+  // Before scoring, only the time limit disables the deck: score the cards reviewed so far
+  useEffect(() => {
+    if (disabled && !evaluation && gradedCount > 0) {
+      submit({ grades })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [disabled, evaluation])
+
+  const handleGrade = (grade: FlashcardGrade) => {
+    if (disabled || !card) return
+    reviewFlashcard(spec.id, card.id, grade)
+    markQuestionSubmitted(spec.id, card.id, isRecalled(grade))
+
+    const newGrades = { ...grades, [card.id]: grade }
+    setGrades(newGrades)
+    onAnswerChange({ grades: newGrades })
+    setRevealed(false)
+    setHintShown(false)
+
+    if (currentIndex === totalCards - 1) {
+      submit({ grades: newGrades })
+    } else {
+      setCurrentIndex(currentIndex + 1)
+    }
+  }
+
+  const handleReviewAgain = () => {
+    submittedRef.current = false
+    setGrades({})
+    setCurrentIndex(0)
+    setRevealed(false)
+    setHintShown(false)
+    setShowFeedback(false)
+    onReset()
+  }
+
+  const review = card ? reviews[flashcardKey(spec.id, card.id)] : undefined
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-3">
+        {spec.prompt && (
+          <p className="text-xl font-semibold text-slate-800 dark:text-slate-100">{spec.prompt}</p>
+        )}
+        {spec.instructions && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{spec.instructions}</p>
+        )}
+        {!disabled && (
+          <p className="text-sm font-medium text-indigo-600 dark:text-indigo-400 flex items-center gap-2">
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            Recall the answer, turn the card over, then grade how well you remembered it.
+          </p>
+        )}
+      </div>
+
+      {!evaluation && card && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-sm font-medium text-slate-600 dark:text-slate-400">
+            <span>
+              Card {currentIndex + 1} of {totalCards}
+            </span>
+            {review && (
+              <span className="text-xs">Last reviewed {new Date(review.lastReviewedAt).toLocaleDateString()}</span>
+            )}
+          </div>
+
+          <div
+            className="flex min-h-[12rem] flex-col items-center justify-center gap-4 rounded-2xl border-2 border-slate-200 bg-white p-8 text-center shadow-md dark:border-slate-700 dark:bg-slate-800"
+            aria-live="polite"
+          >
+            <p className="text-2xl font-semibold text-slate-800 dark:text-slate-100">{card.front}</p>
+            {revealed ? (
+              <p className="border-t border-slate-200 pt-4 text-lg text-indigo-700 dark:border-slate-700 dark:text-indigo-300">
+                {card.back}
+              </p>
+            ) : (
+              hintShown && card.hint && (
+                <p className="text-sm italic text-slate-500 dark:text-slate-400">Hint: {card.hint}</p>
+              )
+            )}
+          </div>
+
+          {!revealed ? (
+            <div className="flex items-center justify-center gap-3">
+              {card.hint && !hintShown && (
+                <button
+                  type="button"
+                  onClick={() => setHintShown(true)}
+                  disabled={disabled}
+                  className="rounded-lg border-2 border-slate-300 px-6 py-3 font-semibold text-slate-600 transition-all duration-200 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-600 dark:text-slate-300 dark:hover:bg-slate-800"
+                >
+                  Show Hint
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setRevealed(true)}
+                disabled={disabled}
+                className="rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 px-6 py-3 font-semibold text-white shadow-lg transition-all duration-200 hover:shadow-xl hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+              >
+                Show Answer
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {GRADES.map(({ grade, label, className }) => (
+                <button
+                  key={grade}
+                  type="button"
+                  onClick={() => handleGrade(grade)}
+                  disabled={disabled}
+                  className={`flex flex-col items-center rounded-lg border-2 bg-white px-4 py-3 font-semibold transition-all duration-200 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-slate-900 ${className}`}
+                >
+                  {label}
+                  <span className="text-xs font-normal opacity-75">
+                    {formatInterval(scheduleReview(review, grade).intervalDays)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {evaluation && (
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={handleReviewAgain}
+            className="rounded-lg border-2 border-indigo-600 bg-transparent px-6 py-3 font-semibold text-indigo-600 transition-all duration-200 hover:bg-indigo-50 hover:scale-105 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            Review Again
+          </button>
+        </div>
+      )}
+
+      {evaluation && showFeedback && (
+        <div
+          className={`space-y-3 rounded-xl border p-4 animate-slide-in ${
+            evaluation.correct
+              ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-900/50 dark:bg-emerald-950/30'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30'
+          }`}
+        >
+          <p
+            className={`text-lg font-semibold ${
+              evaluation.correct ? 'text-emerald-800 dark:text-emerald-200' : 'text-amber-800 dark:text-amber-200'
+            }`}
+          >
+            {evaluation.correct ? '🎉 All Recalled!' : '📝 Keep Revising'}
+          </p>
+          {evaluation.feedback && (
+            <p className="text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+          )}
+          <p className="text-sm font-medium text-slate-600 dark:text-slate-400">
+            Score: {Math.round(evaluation.score * 100)}%
+          </p>
+          {!evaluation.correct && (
+            <p className="text-xs text-slate-600 dark:text-slate-400">
+              Cards you marked Again stay in today's review queue.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
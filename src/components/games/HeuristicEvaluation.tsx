@@ -0,0 +1,408 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { CSSProperties, KeyboardEvent, MouseEvent, ReactNode } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { HeuristicEvaluationAnswer, HeuristicEvaluationSpec, MockupElement } from '../../domain/schema'
+import { describeMockupPart, indexMockup } from '../../domain/mockup'
+
+interface HeuristicEvaluationProps {
+  spec: HeuristicEvaluationSpec
+  answer?: HeuristicEvaluationAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: HeuristicEvaluationAnswer) => void
+  onSubmit: (answer: HeuristicEvaluationAnswer) => void
+  onReset: () => void
+}
+
+const textSizeClass = {
+  small: 'text-xs',
+  medium: 'text-sm',
+  large: 'text-lg',
+} as const
+
+const buttonVariantClass = {
+  primary: 'bg-indigo-600 text-white',
+  secondary: 'border border-slate-400 bg-white text-slate-700',
+  disabled: 'bg-slate-200 text-slate-400',
+} as const
+
+function styleOf(part: { color?: string; background?: string }): CSSProperties {
+  return { color: part.color, background: part.background }
+}
+
+// Draws one element the way the spec describes it; nothing inside the mockup is interactive
+function renderElement(element: MockupElement): ReactNode {
+  const size = textSizeClass[element.size ?? 'medium']
+  switch (element.kind) {
+    case 'heading':
+      return (
+        <span className={`block font-bold ${element.size ? size : 'text-lg'}`} style={styleOf(element)}>
+          {element.text}
+        </span>
+      )
+    case 'label':
+      return (
+        <span className={`block ${size}`} style={styleOf(element)}>
+          {element.text}
+        </span>
+      )
+    case 'button':
+      return (
+        <span
+          className={`inline-block min-h-[2rem] min-w-[2.5rem] rounded-md px-4 py-1.5 text-center font-medium ${size} ${
+            buttonVariantClass[element.variant ?? 'secondary']
+          }`}
+          style={styleOf(element)}
+        >
+          {element.text}
+        </span>
+      )
+    case 'input':
+      return (
+        <span className={`block space-y-1 ${size}`}>
+          {element.label && <span className="block font-medium text-slate-700">{element.label}</span>}
+          <span
+            className={`block rounded-md border border-slate-300 bg-white px-3 py-1.5 ${element.value ? 'text-slate-800' : 'text-slate-400'}`}
+            style={styleOf(element)}
+          >
+            {element.value || element.placeholder || ' '}
+          </span>
+        </span>
+      )
+    case 'error':
+      return (
+        <span className={`block font-medium text-red-600 ${size}`} style={styleOf(element)}>
+          ⚠ {element.text}
+        </span>
+      )
+    case 'image':
+      return (
+        <span
+          className={`flex h-20 items-center justify-center rounded-md bg-slate-200 text-slate-500 ${size}`}
+          style={styleOf(element)}
+        >
+          🖼 {element.alt}
+        </span>
+      )
+  }
+}
+
+export function HeuristicEvaluation({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: HeuristicEvaluationProps) {
+  const parts = useMemo(() => indexMockup(spec), [spec])
+  const heuristicNames = useMemo(
+    () => new Map(spec.heuristics.map((heuristic) => [heuristic.id, heuristic.name])),
+    [spec.heuristics],
+  )
+
+  const [flags, setFlags] = useState<Record<string, string>>(answer?.flags ?? {})
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [showFeedback, setShowFeedback] = useState(false)
+  const locked = disabled || Boolean(evaluation)
+
+  useEffect(() => {
+    if (answer?.flags) {
+      setFlags(answer.flags)
+    }
+  }, [answer?.flags])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setSelectedId(null)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const criteriaById = new Map((evaluation?.criteria ?? []).map((criterion) => [criterion.id, criterion]))
+  const flaggedIds = Object.keys(flags)
+  const missed = (evaluation?.criteria ?? []).filter((criterion) => !(criterion.id in flags))
+
+  const updateFlags = (next: Record<string, string>) => {
+    setFlags(next)
+    onAnswerChange({ flags: next })
+  }
+
+  const tagSelected = (heuristicId: string) => {
+    if (locked || !selectedId) return
+    updateFlags({ ...flags, [selectedId]: heuristicId })
+  }
+
+  const removeFlag = (id: string) => {
+    if (locked) return
+    const next = { ...flags }
+    delete next[id]
+    updateFlags(next)
+  }
+
+  const selectPart = (event: MouseEvent | KeyboardEvent, id: string) => {
+    // Elements sit inside their panel, so only the innermost part is selected
+    event.stopPropagation()
+    if (locked) return
+    setSelectedId(id === selectedId ? null : id)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent, id: string) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault()
+      selectPart(event, id)
+    }
+  }
+
+  const partClassName = (id: string) => {
+    const criterion = criteriaById.get(id)
+    if (evaluation && criterion) {
+      if (criterion.met) return 'ring-2 ring-emerald-500 ring-offset-2'
+      return id in flags ? 'ring-2 ring-red-500 ring-offset-2' : 'outline-dashed outline-2 outline-offset-2 outline-amber-500'
+    }
+    if (id === selectedId) return 'ring-2 ring-indigo-500 ring-offset-2'
+    if (id in flags) return 'ring-2 ring-amber-400 ring-offset-2'
+    return locked ? '' : 'hover:ring-2 hover:ring-indigo-200 hover:ring-offset-2'
+  }
+
+  const handleSubmit = () => {
+    if (flaggedIds.length === 0) return
+    onSubmit({ flags })
+  }
+
+  const handleTryAgain = () => {
+    // Keep the flags so only the mistakes need revisiting
+    setShowFeedback(false)
+    onReset()
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-3">
+        {spec.prompt && (
+          <p className="text-xl font-semibold text-slate-800 dark:text-slate-100">{spec.prompt}</p>
+        )}
+        {spec.instructions && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{spec.instructions}</p>
+        )}
+        {!locked && (
+          <p className="text-sm font-medium text-indigo-600 dark:text-indigo-400 flex items-center gap-2">
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            Click a part of the interface that breaks a heuristic, then choose which heuristic it breaks.
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+        {/* Mockup */}
+        <div className="overflow-hidden rounded-xl border border-slate-300 bg-white shadow-md dark:border-slate-600">
+          <div className="flex items-center gap-2 border-b border-slate-200 bg-slate-100 px-4 py-2">
+            <span className="h-3 w-3 rounded-full bg-red-400" />
+            <span className="h-3 w-3 rounded-full bg-amber-400" />
+            <span className="h-3 w-3 rounded-full bg-emerald-400" />
+            {spec.mockup.title && (
+              <span className="ml-2 truncate text-xs font-medium text-slate-600">{spec.mockup.title}</span>
+            )}
+          </div>
+          <div className="space-y-4 p-4 text-slate-800">
+            {spec.mockup.panels.map((panel) => (
+              <div
+                key={panel.id}
+                role="button"
+                tabIndex={locked ? -1 : 0}
+                aria-pressed={panel.id in flags}
+                aria-label={describeMockupPart(parts.get(panel.id))}
+                onClick={(event) => selectPart(event, panel.id)}
+                onKeyDown={(event) => handleKeyDown(event, panel.id)}
+                className={`rounded-lg border border-slate-200 p-3 transition-all ${partClassName(panel.id)}`}
+                style={{ background: panel.background }}
+              >
+                {panel.title && (
+                  <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">{panel.title}</p>
+                )}
+                <div className={`flex gap-3 ${panel.layout === 'row' ? 'flex-row flex-wrap items-center' : 'flex-col'}`}>
+                  {panel.elements.map((element) => (
+                    <div
+                      key={element.id}
+                      role="button"
+                      tabIndex={locked ? -1 : 0}
+                      aria-pressed={element.id in flags}
+                      aria-label={describeMockupPart(parts.get(element.id))}
+                      onClick={(event) => selectPart(event, element.id)}
+                      onKeyDown={(event) => handleKeyDown(event, element.id)}
+                      className={`rounded-md transition-all ${locked ? '' : 'cursor-pointer'} ${partClassName(element.id)}`}
+                    >
+                      {renderElement(element)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Tagging and flag list */}
+        <div className="space-y-4">
+          {selectedId && !locked ? (
+            <div className="rounded-lg border border-indigo-200 bg-indigo-50 p-4 dark:border-indigo-900/50 dark:bg-indigo-950/30">
+              <p className="text-sm font-semibold text-slate-800 dark:text-slate-100">
+                Which heuristic does {describeMockupPart(parts.get(selectedId))} break?
+              </p>
+              <div className="mt-3 space-y-2" role="radiogroup" aria-label="Heuristics">
+                {spec.heuristics.map((heuristic) => {
+                  const isChosen = flags[selectedId] === heuristic.id
+                  return (
+                    <button
+                      key={heuristic.id}
+                      type="button"
+                      role="radio"
+                      aria-checked={isChosen}
+                      onClick={() => tagSelected(heuristic.id)}
+                      className={`w-full rounded-lg border-2 px-3 py-2 text-left text-sm transition-all ${
+                        isChosen
+                          ? 'border-indigo-500 bg-white font-semibold text-indigo-700 dark:bg-slate-800 dark:text-indigo-300'
+                          : 'border-slate-200 bg-white text-slate-700 hover:border-indigo-300 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-200'
+                      }`}
+                    >
+                      {heuristic.name}
+                      {heuristic.description && (
+                        <span className="block text-xs font-normal text-slate-500 dark:text-slate-400">
+                          {heuristic.description}
+                        </span>
+                      )}
+                    </button>
+                  )
+                })}
+              </div>
+              {selectedId in flags && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    removeFlag(selectedId)
+                    setSelectedId(null)
+                  }}
+                  className="mt-3 text-sm font-medium text-red-600 hover:underline dark:text-red-400"
+                >
+                  Remove flag
+                </button>
+              )}
+            </div>
+          ) : (
+            !locked && (
+              <div className="rounded-lg border border-dashed border-slate-300 p-4 text-sm text-slate-500 dark:border-slate-700 dark:text-slate-400">
+                Select a part of the interface to flag it.
+              </div>
+            )
+          )}
+
+          <div className="rounded-lg border border-slate-200 bg-slate-50 p-4 dark:border-slate-800 dark:bg-slate-900">
+            <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+              Your Flags ({flaggedIds.length})
+            </h3>
+            {flaggedIds.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Nothing flagged yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {flaggedIds.map((id) => {
+                  const criterion = criteriaById.get(id)
+                  return (
+                    <li key={id} className="text-sm">
+                      <button
+                        type="button"
+                        onClick={() => !locked && setSelectedId(id)}
+                        disabled={locked}
+                        className="flex w-full items-start gap-2 text-left disabled:cursor-default"
+                      >
+                        {evaluation && criterion && (
+                          <span className={criterion.met ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}>
+                            {criterion.met ? '✓' : '✗'}
+                          </span>
+                        )}
+                        <span className="flex-1">
+                          <span className="font-medium text-slate-800 dark:text-slate-100">
+                            {describeMockupPart(parts.get(id))}
+                          </span>
+                          <span className="text-slate-600 dark:text-slate-400"> — {heuristicNames.get(flags[id]) ?? flags[id]}</span>
+                        </span>
+                      </button>
+                      {evaluation && criterion?.feedback && (
+                        <p className="ml-6 mt-0.5 text-xs text-slate-600 dark:text-slate-400">{criterion.feedback}</p>
+                      )}
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSubmit}
+          className="group relative overflow-hidden rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 px-6 py-3 font-semibold text-white shadow-lg transition-all duration-200 hover:shadow-xl hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+          disabled={locked || flaggedIds.length === 0}
+        >
+          <span className="relative z-10 flex items-center gap-2">
+            Submit Evaluation
+            <svg className="h-4 w-4 transition-transform group-hover:translate-x-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </span>
+        </button>
+        {evaluation && !evaluation.correct && (
+          <button
+            type="button"
+            onClick={handleTryAgain}
+            className="rounded-lg border-2 border-indigo-600 bg-transparent px-6 py-3 font-semibold text-indigo-600 transition-all duration-200 hover:bg-indigo-50 hover:scale-105 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            Try Again
+          </button>
+        )}
+      </div>
+
+      {evaluation && showFeedback && (
+        <div
+          className={`space-y-3 rounded-xl border p-4 animate-slide-in ${
+            evaluation.correct
+              ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-900/50 dark:bg-emerald-950/30'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30'
+          }`}
+        >
+          <div>
+            <p
+              className={`text-lg font-semibold ${
+                evaluation.correct ? 'text-emerald-800 dark:text-emerald-200' : 'text-amber-800 dark:text-amber-200'
+              }`}
+            >
+              {evaluation.correct ? '🎉 Sharp Eye!' : '📝 Not Quite'}
+            </p>
+            {evaluation.feedback && (
+              <p className="mt-1 text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+            )}
+            <p className="mt-1 text-sm font-medium text-slate-600 dark:text-slate-400">
+              Score: {Math.round(evaluation.score * 100)}%
+            </p>
+          </div>
+          {missed.length > 0 && (
+            <ul className="space-y-2">
+              {missed.map((criterion) => (
+                <li key={criterion.id} className="text-sm">
+                  <span className="font-medium text-slate-800 dark:text-slate-100">{criterion.label}</span>
+                  {criterion.feedback && (
+                    <span className="block text-slate-600 dark:text-slate-400">{criterion.feedback}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
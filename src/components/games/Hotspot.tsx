@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { DragEvent, MouseEvent } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { HotspotAnswer, HotspotSpec } from '../../domain/schema'
+import { regionBounds, regionCenter, regionOutline } from '../../domain/hotspot'
+
+interface HotspotProps {
+  spec: HotspotSpec
+  answer?: HotspotAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: HotspotAnswer) => void
+  onSubmit: (answer: HotspotAnswer) => void
+  onReset: () => void
+}
+
+type Points = HotspotAnswer['points']
+
+export function Hotspot({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: HotspotProps) {
+  const imageRef = useRef<HTMLDivElement>(null)
+  const [points, setPoints] = useState<Points>(answer?.points ?? {})
+  const [activeId, setActiveId] = useState<string | null>(spec.regions[0]?.id ?? null)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+  const [showFeedback, setShowFeedback] = useState(false)
+  const locked = disabled || Boolean(evaluation)
+  const isClickMode = spec.mode === 'click'
+
+  // Keyboard areas are numbered by position so their order does not give away the answer key
+  const areas = useMemo(
+    () =>
+      spec.regions
+        .map((region) => ({ region, bounds: regionBounds(region) }))
+        .sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x),
+    [spec.regions],
+  )
+
+  useEffect(() => {
+    if (answer?.points) {
+      setPoints(answer.points)
+    }
+  }, [answer?.points])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const criteriaById = new Map((evaluation?.criteria ?? []).map((criterion) => [criterion.id, criterion]))
+  const placedCount = spec.regions.filter((region) => points[region.id]).length
+  const allPlaced = placedCount === spec.regions.length
+  const taskText = (region: HotspotSpec['regions'][number]) => region.prompt ?? `Click the ${region.label}.`
+
+  const place = (regionId: string, point: { x: number; y: number }) => {
+    const next = { ...points, [regionId]: point }
+    setPoints(next)
+    onAnswerChange({ points: next })
+    // Move on to the next region still to be placed
+    const nextRegion = spec.regions.find((region) => !next[region.id])
+    setActiveId(nextRegion?.id ?? null)
+  }
+
+  const removePoint = (regionId: string) => {
+    if (locked) return
+    const next = { ...points }
+    delete next[regionId]
+    setPoints(next)
+    onAnswerChange({ points: next })
+    setActiveId(regionId)
+  }
+
+  // Percent of the image size, matching the coordinates regions are written in
+  const toImagePoint = (clientX: number, clientY: number) => {
+    const rect = imageRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0 || rect.height === 0) return null
+    const clamp = (value: number) => Math.round(Math.min(100, Math.max(0, value)) * 10) / 10
+    return {
+      x: clamp(((clientX - rect.left) / rect.width) * 100),
+      y: clamp(((clientY - rect.top) / rect.height) * 100),
+    }
+  }
+
+  const handleImageClick = (e: MouseEvent<HTMLDivElement>) => {
+    if (locked || !activeId) return
+    const point = toImagePoint(e.clientX, e.clientY)
+    if (point) place(activeId, point)
+  }
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    if (locked || !draggedId) return
+    const point = toImagePoint(e.clientX, e.clientY)
+    if (point) place(draggedId, point)
+    setDraggedId(null)
+  }
+
+  const handleAreaSelect = (areaRegion: HotspotSpec['regions'][number]) => {
+    if (locked || !activeId) return
+    place(activeId, regionCenter(areaRegion))
+  }
+
+  const handleSubmit = () => {
+    if (!allPlaced) return
+    onSubmit({ points })
+  }
+
+  const handleTryAgain = () => {
+    // Keep the marks so only the misplaced ones need moving
+    setShowFeedback(false)
+    setActiveId(spec.regions.find((region) => !criteriaById.get(region.id)?.met)?.id ?? null)
+    onReset()
+  }
+
+  const outlineClass = (regionId: string) => {
+    const criterion = criteriaById.get(regionId)
+    if (criterion?.met) return 'fill-emerald-400/20 stroke-emerald-500'
+    return points[regionId] ? 'fill-red-400/20 stroke-red-500' : 'fill-amber-300/20 stroke-amber-500'
+  }
+
+  const markerClass = (regionId: string) => {
+    const criterion = criteriaById.get(regionId)
+    if (evaluation && criterion) {
+      return criterion.met
+        ? 'border-emerald-500 bg-emerald-500 text-white'
+        : 'border-red-500 bg-red-500 text-white'
+    }
+    if (regionId === activeId) return 'border-indigo-600 bg-indigo-600 text-white'
+    return 'border-indigo-500 bg-white text-indigo-700'
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-3">
+        {spec.prompt && (
+          <p className="text-xl font-semibold text-slate-800 dark:text-slate-100">{spec.prompt}</p>
+        )}
+        {spec.instructions && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{spec.instructions}</p>
+        )}
+        {!locked && (
+          <p className="text-sm font-medium text-indigo-600 dark:text-indigo-400 flex items-center gap-2">
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            {isClickMode
+              ? 'Click the image to mark each part in turn. With a keyboard, Tab to a numbered area and press Enter.'
+              : 'Drag each label onto the image. With a keyboard, select a label, then Tab to a numbered area and press Enter.'}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[3fr_2fr]">
+        {/* Image with marks */}
+        <div
+          ref={imageRef}
+          onClick={handleImageClick}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDrop}
+          className={`relative select-none self-start overflow-hidden rounded-xl border border-slate-300 bg-white shadow-md dark:border-slate-600 ${
+            locked || !activeId ? '' : 'cursor-crosshair'
+          }`}
+        >
+          <img src={spec.image.src} alt={spec.image.alt} draggable={false} className="block w-full" />
+
+          {evaluation && showFeedback && (
+            <svg
+              className="pointer-events-none absolute inset-0 h-full w-full"
+              viewBox="0 0 100 100"
+              preserveAspectRatio="none"
+              aria-hidden="true"
+            >
+              {spec.regions.map((region) => (
+                <polygon
+                  key={region.id}
+                  points={regionOutline(region)}
+                  vectorEffect="non-scaling-stroke"
+                  strokeWidth={2}
+                  className={outlineClass(region.id)}
+                />
+              ))}
+            </svg>
+          )}
+
+          {/* Keyboard alternative: focusable areas that mouse clicks pass through */}
+          {!locked &&
+            areas.map(({ region, bounds }, index) => (
+              <button
+                key={region.id}
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleAreaSelect(region)
+                }}
+                disabled={!activeId}
+                aria-label={`Area ${index + 1}`}
+                className="pointer-events-none absolute rounded outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 focus-visible:bg-indigo-500/10"
+                style={{ left: `${bounds.x}%`, top: `${bounds.y}%`, width: `${bounds.width}%`, height: `${bounds.height}%` }}
+              >
+                <span className="sr-only">Area {index + 1}</span>
+              </button>
+            ))}
+
+          {spec.regions.map((region, index) => {
+            const point = points[region.id]
+            if (!point) return null
+            return (
+              <span
+                key={region.id}
+                className={`pointer-events-none absolute -translate-x-1/2 -translate-y-1/2 whitespace-nowrap rounded-full border-2 px-2 py-0.5 text-xs font-semibold shadow ${markerClass(region.id)}`}
+                style={{ left: `${point.x}%`, top: `${point.y}%` }}
+              >
+                {isClickMode ? index + 1 : region.label}
+              </span>
+            )
+          })}
+        </div>
+
+        {/* Tasks in click mode, labels in drag-label mode */}
+        <div className="space-y-3">
+          <p className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+            {isClickMode ? 'Find these parts' : 'Labels'} ({placedCount}/{spec.regions.length})
+          </p>
+          <ul className="space-y-2">
+            {spec.regions.map((region, index) => {
+              const placed = Boolean(points[region.id])
+              const criterion = criteriaById.get(region.id)
+              return (
+                <li key={region.id}>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      draggable={!isClickMode && !locked}
+                      onDragStart={() => setDraggedId(region.id)}
+                      onDragEnd={() => setDraggedId(null)}
+                      onClick={() => !locked && setActiveId(region.id)}
+                      disabled={locked}
+                      aria-pressed={region.id === activeId}
+                      className={`flex flex-1 items-center gap-2 rounded-lg border-2 px-3 py-2 text-left text-sm transition-all disabled:cursor-default ${
+                        evaluation && criterion
+                          ? criterion.met
+                            ? 'border-emerald-300 bg-emerald-50 dark:border-emerald-800 dark:bg-emerald-950/30'
+                            : 'border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-950/30'
+                          : region.id === activeId
+                            ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-950/30'
+                            : 'border-slate-200 bg-white hover:border-indigo-300 dark:border-slate-700 dark:bg-slate-800'
+                      } ${!isClickMode && !locked ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                    >
+                      <span
+                        className={`flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-xs font-bold ${
+                          placed ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300'
+                        }`}
+                      >
+                        {placed ? '✓' : index + 1}
+                      </span>
+                      <span className="text-slate-800 dark:text-slate-200">
+                        {isClickMode ? taskText(region) : region.label}
+                      </span>
+                    </button>
+                    {placed && !locked && (
+                      <button
+                        type="button"
+                        onClick={() => removePoint(region.id)}
+                        aria-label={`Remove mark for ${region.label}`}
+                        className="rounded p-1 text-slate-400 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-950/30"
+                      >
+                        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
+                  </div>
+                  {evaluation && criterion && !criterion.met && criterion.feedback && (
+                    <p className="ml-8 mt-0.5 text-xs text-slate-600 dark:text-slate-400">{criterion.feedback}</p>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSubmit}
+          className="group relative overflow-hidden rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 px-6 py-3 font-semibold text-white shadow-lg transition-all duration-200 hover:shadow-xl hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+          disabled={locked || !allPlaced}
+        >
+          <span className="relative z-10 flex items-center gap-2">
+            Submit Answer
+            <svg className="h-4 w-4 transition-transform group-hover:translate-x-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </span>
+        </button>
+        {evaluation && !evaluation.correct && (
+          <button
+            type="button"
+            onClick={handleTryAgain}
+            className="rounded-lg border-2 border-indigo-600 bg-transparent px-6 py-3 font-semibold text-indigo-600 transition-all duration-200 hover:bg-indigo-50 hover:scale-105 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            Try Again
+          </button>
+        )}
+      </div>
+
+      {evaluation && showFeedback && (
+        <div
+          className={`space-y-3 rounded-xl border p-4 animate-slide-in ${
+            evaluation.correct
+              ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-900/50 dark:bg-emerald-950/30'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30'
+          }`}
+        >
+          <p
+            className={`text-lg font-semibold ${
+              evaluation.correct ? 'text-emerald-800 dark:text-emerald-200' : 'text-amber-800 dark:text-amber-200'
+            }`}
+          >
+            {evaluation.correct ? '🎉 Spot On!' : '📝 Not Quite'}
+          </p>
+          {evaluation.feedback && (
+            <p className="text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+          )}
+          <p className="text-sm font-medium text-slate-600 dark:text-slate-400">
+            Score: {Math.round(evaluation.score * 100)}%
+          </p>
+          {!evaluation.correct && (
+            <p className="text-xs text-slate-600 dark:text-slate-400">
+              Green outlines are parts you marked correctly, red are misplaced and amber were not marked.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -13,8 +13,33 @@ interface MCQSetProps {
   onAnswerChange: (answer: MCQSetAnswer) => void
   onSubmit: (answer: MCQSetAnswer) => void
   onReset: () => void
+  onQuestionCheck?: (answer: MCQSetAnswer, questionId: string) => void // Each check of one question, which counts as an attempt
 }
 
+type MCQSetQuestion = MCQSetSpec['questions'][number]
+type QuestionAnswer = MCQSetAnswer['answers'][string]
+
+const hasSelection = (selection: QuestionAnswer | undefined) =>
+  Array.isArray(selection) ? selection.length > 0 : Boolean(selection)
+
+const isQuestionCorrect = (question: MCQSetQuestion, selection: QuestionAnswer | undefined) => {
+  if (question.type !== 'mcq-multi') return selection === question.correctOptionId
+  const selectedIds = Array.isArray(selection) ? selection : []
+  return (
+    selectedIds.length === question.correctOptionIds.length &&
+    question.correctOptionIds.every((optionId) => selectedIds.includes(optionId))
+  )
+}
+
+// Attempts go along even when empty: a payload without them is scored as having an unknown history
+const toPayload = (answers: MCQSetAnswer['answers'], attempts: NonNullable<MCQSetAnswer['attempts']>): MCQSetAnswer => ({
+  answers,
+  attempts,
+})
+
+const isKeyOption = (question: MCQSetQuestion, optionId: string) =>
+  question.type === 'mcq-multi' ? question.correctOptionIds.includes(optionId) : question.correctOptionId === optionId
+
 export function MCQSet({
   spec,
   answer,
@@ -23,9 +48,11 @@ export function MCQSet({
   onAnswerChange,
   onSubmit,
   onReset: _onReset,
+  onQuestionCheck,
 }: MCQSetProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [answers, setAnswers] = useState<Record<string, string>>(answer?.answers || {})
+  const [answers, setAnswers] = useState<Record<string, QuestionAnswer>>(answer?.answers || {})
+  const [attempts, setAttempts] = useState<Record<string, QuestionAnswer[]>>(answer?.attempts || {}) // Every checked answer per question
   const [showFeedback, setShowFeedback] = useState(false)
   const [questionFeedback, setQuestionFeedback] = useState<Record<string, boolean>>({}) // Track if each question was answered correctly
   const [fadeIn, setFadeIn] = useState(true)
@@ -36,8 +63,11 @@ export function MCQSet({
   const currentQuestion = spec.questions[currentQuestionIndex]
   const totalQuestions = spec.questions.length
   const isLastQuestion = currentQuestionIndex === totalQuestions - 1
-  const allAnswered = spec.questions.every((q) => answers[q.id])
+  const allAnswered = spec.questions.every((q) => hasSelection(answers[q.id]))
   const currentAnswer = answers[currentQuestion.id]
+  const isMulti = currentQuestion.type === 'mcq-multi'
+  const isOptionSelected = (optionId: string) =>
+    Array.isArray(currentAnswer) ? currentAnswer.includes(optionId) : currentAnswer === optionId
   const hasSubmittedCurrent = questionFeedback[currentQuestion.id] !== undefined
 
   // Fade in effect when question changes with slide animation
@@ -64,9 +94,15 @@ export function MCQSet({
   }, [])
 
   const handleAnswerSelect = (questionId: string, optionId: string) => {
-    const newAnswers = { ...answers, [questionId]: optionId }
+    // Select-all questions toggle the option in a list kept in option order
+    const selection: QuestionAnswer = isMulti
+      ? currentQuestion.options
+          .map((option) => option.id)
+          .filter((id) => (id === optionId ? !isOptionSelected(id) : isOptionSelected(id)))
+      : optionId
+    const newAnswers = { ...answers, [questionId]: selection }
     setAnswers(newAnswers)
-    onAnswerChange({ answers: newAnswers })
+    onAnswerChange(toPayload(newAnswers, attempts))
     // Clear feedback for this question when changing answer
     const newFeedback = { ...questionFeedback }
     delete newFeedback[questionId]
@@ -79,15 +115,21 @@ export function MCQSet({
   }
 
   const handleSubmitQuestion = () => {
-    if (!currentAnswer) return
+    if (!hasSelection(currentAnswer)) return
     
-    const isCorrect = currentAnswer === currentQuestion.correctOptionId
+    const isCorrect = isQuestionCorrect(currentQuestion, currentAnswer)
     const updatedFeedback = { ...questionFeedback, [currentQuestion.id]: isCorrect }
     setQuestionFeedback(updatedFeedback)
+    const questionAttempts = [...(attempts[currentQuestion.id] ?? []), currentAnswer]
+    const updatedAttempts = { ...attempts, [currentQuestion.id]: questionAttempts }
+    setAttempts(updatedAttempts)
+    const payload = toPayload(answers, updatedAttempts)
+    onAnswerChange(payload)
+    onQuestionCheck?.(payload, currentQuestion.id)
     
     if (isCorrect) {
-      markQuestionSubmitted(spec.id, currentQuestion.id, true)
-      const everyQuestionAnswered = spec.questions.every((q) => answers[q.id])
+      markQuestionSubmitted(spec.id, currentQuestion.id, true, questionAttempts.length)
+      const everyQuestionAnswered = spec.questions.every((q) => hasSelection(answers[q.id]))
       const everyQuestionCorrect = spec.questions.every((q) =>
         q.id === currentQuestion.id ? true : updatedFeedback[q.id],
       )
@@ -99,7 +141,7 @@ export function MCQSet({
         setPendingCompletion(true)
         completionTimeoutRef.current = window.setTimeout(() => {
           completionTimeoutRef.current = null
-          onSubmit({ answers })
+          onSubmit(toPayload(answers, updatedAttempts))
         }, 600)
       }
     } else {
@@ -116,7 +158,7 @@ export function MCQSet({
     const newAnswers = { ...answers }
     delete newAnswers[currentQuestion.id]
     setAnswers(newAnswers)
-    onAnswerChange({ answers: newAnswers })
+    onAnswerChange(toPayload(newAnswers, attempts))
 
     const newFeedback = { ...questionFeedback }
     delete newFeedback[currentQuestion.id]
@@ -137,16 +179,21 @@ export function MCQSet({
       completionTimeoutRef.current = null
     }
     setPendingCompletion(true)
-    onSubmit({ answers })
-    markQuestionSubmitted(spec.id, currentQuestion.id, true)
+    onSubmit(toPayload(answers, attempts))
+    markQuestionSubmitted(spec.id, currentQuestion.id, true, attempts[currentQuestion.id]?.length)
   }
 
   const isCorrectOption = (optionId: string) => {
-    return hasSubmittedCurrent && currentQuestion.correctOptionId === optionId
+    return hasSubmittedCurrent && isKeyOption(currentQuestion, optionId)
   }
 
   const isSelectedWrong = (optionId: string) => {
-    return hasSubmittedCurrent && questionFeedback[currentQuestion.id] === false && currentAnswer === optionId
+    return (
+      hasSubmittedCurrent &&
+      questionFeedback[currentQuestion.id] === false &&
+      isOptionSelected(optionId) &&
+      !isKeyOption(currentQuestion, optionId)
+    )
   }
 
   return (
@@ -176,6 +223,9 @@ export function MCQSet({
                   {currentQuestion.prompt}
                 </p>
               )}
+              {isMulti && (
+                <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">Select all that apply.</p>
+              )}
             </div>
             {currentQuestion.omiMapping && currentQuestion.omiMapping.length > 0 && (
               <OMIProgress spec={spec} currentOmiIds={currentQuestion.omiMapping} />
@@ -184,9 +234,9 @@ export function MCQSet({
         </div>
 
         <fieldset className="space-y-3" disabled={disabled || hasSubmittedCurrent}>
-          <legend className="sr-only">Answer options</legend>
+          <legend className="sr-only">{isMulti ? 'Select all that apply' : 'Answer options'}</legend>
           {currentQuestion.options.map((option) => {
-            const isSelected = currentAnswer === option.id
+            const isSelected = isOptionSelected(option.id)
             const isCorrect = isCorrectOption(option.id)
             const isWrong = isSelectedWrong(option.id)
             
@@ -209,17 +259,17 @@ export function MCQSet({
               >
                 <div className="relative flex-shrink-0 mt-0.5">
                   <input
-                    type="radio"
+                    type={isMulti ? 'checkbox' : 'radio'}
                     name={`question-${currentQuestion.id}`}
                     value={option.id}
                     checked={isSelected}
                     onChange={() => handleAnswerSelect(currentQuestion.id, option.id)}
-                    className="peer h-5 w-5 cursor-pointer appearance-none rounded-full border-2 border-slate-300 bg-white transition-all checked:border-indigo-600 checked:bg-indigo-600 hover:border-indigo-400 dark:border-slate-600 dark:bg-slate-700"
+                    className={`peer h-5 w-5 cursor-pointer appearance-none ${isMulti ? 'rounded-md' : 'rounded-full'} border-2 border-slate-300 bg-white transition-all checked:border-indigo-600 checked:bg-indigo-600 hover:border-indigo-400 dark:border-slate-600 dark:bg-slate-700`}
                     disabled={disabled || hasSubmittedCurrent}
                   />
                   {isSelected && !hasSubmittedCurrent && (
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                      <div className="h-2.5 w-2.5 rounded-full bg-white"></div>
+                      <div className={`h-2.5 w-2.5 bg-white ${isMulti ? 'rounded-sm' : 'rounded-full'}`}></div>
                     </div>
                   )}
                   {isCorrect && (
@@ -293,7 +343,7 @@ export function MCQSet({
           <button
             type="button"
             onClick={handleSubmitQuestion}
-            disabled={disabled || !currentAnswer}
+            disabled={disabled || !hasSelection(currentAnswer)}
             className="rounded-full bg-zinc-900 px-6 py-2 text-sm font-semibold text-white shadow hover:bg-zinc-700 disabled:cursor-not-allowed disabled:bg-zinc-400"
           >
             Submit Answer
@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { PairMatchSpec } from '../../domain/schema'
+import { dealMemoryCards, memoryPar } from '../../domain/memory'
+
+type Match = { left: string; right: string }
+
+interface MemoryBoardProps {
+  pairs: PairMatchSpec['pairs']
+  matches: Match[] // Pairs found so far
+  moves: number
+  disabled?: boolean
+  onMove: (result: { matches: Match[]; moves: number }) => void
+}
+
+// How long a mismatched pair stays face up before turning back
+const MISMATCH_DELAY_MS = 900
+
+/**
+ * One concentration board. The cards are dealt when the board mounts, so
+ * give it a new key to reshuffle.
+ */
+export function MemoryBoard({ pairs, matches, moves, disabled = false, onMove }: MemoryBoardProps) {
+  const [cards] = useState(() => dealMemoryCards(pairs))
+  const [flipped, setFlipped] = useState<string[]>([])
+  const [lastMove, setLastMove] = useState<'match' | 'miss' | null>(null)
+  const timerRef = useRef<number | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current)
+    }
+  }, [])
+
+  const foundIndexes = useMemo(
+    () =>
+      new Set(
+        matches
+          .map((match) => pairs.findIndex((pair) => pair.left === match.left && pair.right === match.right))
+          .filter((index) => index >= 0),
+      ),
+    [matches, pairs],
+  )
+
+  const handleFlip = (key: string, pairIndex: number) => {
+    if (disabled || flipped.length === 2 || flipped.includes(key) || foundIndexes.has(pairIndex)) return
+    const next = [...flipped, key]
+    setFlipped(next)
+    if (next.length < 2) return
+
+    const [first, second] = next.map((cardKey) => cards.find((card) => card.key === cardKey))
+    if (first && second && first.pairIndex === second.pairIndex) {
+      const pair = pairs[first.pairIndex]
+      setFlipped([])
+      setLastMove('match')
+      onMove({ matches: [...matches, { left: pair.left, right: pair.right }], moves: moves + 1 })
+    } else {
+      setLastMove('miss')
+      onMove({ matches, moves: moves + 1 })
+      timerRef.current = window.setTimeout(() => setFlipped([]), MISMATCH_DELAY_MS)
+    }
+  }
+
+  const par = memoryPar(pairs.length)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+        <div className="flex items-center gap-4 font-medium text-slate-700 dark:text-slate-300">
+          <span>
+            Pairs: {foundIndexes.size}/{pairs.length}
+          </span>
+          <span className={moves > par ? 'text-amber-600 dark:text-amber-400' : ''}>
+            Moves: {moves} <span className="text-slate-500 dark:text-slate-400">(par {par})</span>
+          </span>
+        </div>
+        <span className="text-slate-500 dark:text-slate-400" role="status" aria-live="polite">
+          {lastMove === 'match' ? 'Match!' : lastMove === 'miss' ? 'No match.' : ''}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 sm:grid-cols-4">
+        {cards.map((card, index) => {
+          const found = foundIndexes.has(card.pairIndex)
+          const faceUp = found || flipped.includes(card.key)
+          return (
+            <button
+              key={card.key}
+              type="button"
+              onClick={() => handleFlip(card.key, card.pairIndex)}
+              disabled={disabled || found}
+              aria-label={faceUp ? card.text : `Card ${index + 1}, face down`}
+              aria-pressed={faceUp}
+              className={`flex min-h-[6rem] items-center justify-center rounded-xl border-2 p-3 text-center text-sm font-medium shadow-sm transition-all duration-200 ${
+                found
+                  ? 'border-emerald-400 bg-emerald-50 text-emerald-800 dark:border-emerald-600 dark:bg-emerald-950/30 dark:text-emerald-200'
+                  : faceUp
+                    ? 'border-indigo-400 bg-white text-slate-800 dark:border-indigo-500 dark:bg-slate-800 dark:text-slate-100'
+                    : 'border-indigo-600 bg-gradient-to-br from-indigo-600 to-indigo-500 text-2xl text-white/80 hover:scale-105 disabled:hover:scale-100'
+              } ${disabled && !faceUp ? 'cursor-not-allowed opacity-60' : ''}`}
+            >
+              {faceUp ? card.text : '?'}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { NumericAnswer, NumericSpec } from '../../domain/schema'
+
+interface NumericProps {
+  spec: NumericSpec
+  answer?: NumericAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: NumericAnswer) => void
+  onSubmit: (answer: NumericAnswer) => void
+  onReset: () => void
+}
+
+export function Numeric({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: NumericProps) {
+  const [value, setValue] = useState(answer?.value ?? '')
+  const [unit, setUnit] = useState(answer?.unit ?? '')
+  const [showFeedback, setShowFeedback] = useState(false)
+  const locked = disabled || Boolean(evaluation)
+
+  useEffect(() => {
+    if (answer) {
+      setValue(answer.value)
+      setUnit(answer.unit ?? '')
+    }
+  }, [answer])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const toAnswer = (nextValue: string, nextUnit: string): NumericAnswer =>
+    spec.unit ? { value: nextValue, unit: nextUnit } : { value: nextValue }
+
+  const handleValueChange = (nextValue: string) => {
+    setValue(nextValue)
+    onAnswerChange(toAnswer(nextValue, unit))
+  }
+
+  const handleUnitChange = (nextUnit: string) => {
+    setUnit(nextUnit)
+    onAnswerChange(toAnswer(value, nextUnit))
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!value.trim()) return
+    onSubmit(toAnswer(value, unit))
+  }
+
+  const handleTryAgain = () => {
+    // Keep the working so a unit or rounding slip can be fixed in place
+    setShowFeedback(false)
+    onReset()
+  }
+
+  return (
+    <form className="space-y-6 animate-fade-in" onSubmit={handleSubmit}>
+      <div className="space-y-3">
+        {spec.prompt && (
+          <p className="text-xl font-semibold text-slate-800 dark:text-slate-100">{spec.prompt}</p>
+        )}
+        {spec.instructions && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{spec.instructions}</p>
+        )}
+        {spec.sigFigs && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Give your answer to {spec.sigFigs} significant figures.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+          Value
+          <input
+            type="text"
+            inputMode="decimal"
+            autoComplete="off"
+            value={value}
+            onChange={(event) => handleValueChange(event.target.value)}
+            disabled={locked}
+            placeholder="e.g. 0.25"
+            className="w-40 rounded-lg border-2 border-slate-200 bg-white px-4 py-2 text-base text-slate-800 transition-all focus:border-indigo-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-75 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+          />
+        </label>
+        {spec.unit && (
+          <label className="flex flex-col gap-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+            Unit
+            <input
+              type="text"
+              autoComplete="off"
+              value={unit}
+              onChange={(event) => handleUnitChange(event.target.value)}
+              disabled={locked}
+              placeholder="unit"
+              className="w-24 rounded-lg border-2 border-slate-200 bg-white px-4 py-2 text-base text-slate-800 transition-all focus:border-indigo-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-75 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+            />
+          </label>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          className="group relative overflow-hidden rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 px-6 py-3 font-semibold text-white shadow-lg transition-all duration-200 hover:shadow-xl hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+          disabled={locked || !value.trim()}
+        >
+          <span className="relative z-10 flex items-center gap-2">
+            Submit Answer
+            <svg className="h-4 w-4 transition-transform group-hover:translate-x-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </span>
+        </button>
+        {evaluation && !evaluation.correct && (
+          <button
+            type="button"
+            onClick={handleTryAgain}
+            className="rounded-lg border-2 border-indigo-600 bg-transparent px-6 py-3 font-semibold text-indigo-600 transition-all duration-200 hover:bg-indigo-50 hover:scale-105 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            Try Again
+          </button>
+        )}
+      </div>
+
+      {evaluation && showFeedback && (
+        <div
+          className={`space-y-4 rounded-xl border p-4 animate-slide-in ${
+            evaluation.correct
+              ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-900/50 dark:bg-emerald-950/30'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30'
+          }`}
+        >
+          <div>
+            <p
+              className={`text-lg font-semibold ${
+                evaluation.correct ? 'text-emerald-800 dark:text-emerald-200' : 'text-amber-800 dark:text-amber-200'
+              }`}
+            >
+              {evaluation.correct ? '🎉 Correct!' : '📝 Not Quite'}
+            </p>
+            {evaluation.feedback && (
+              <p className="mt-1 text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+            )}
+            <p className="mt-1 text-sm font-medium text-slate-600 dark:text-slate-400">
+              Score: {Math.round(evaluation.score * 100)}%
+            </p>
+          </div>
+
+          {evaluation.criteria && evaluation.criteria.length > 1 && (
+            <ul className="space-y-2">
+              {evaluation.criteria.map((criterion) => (
+                <li key={criterion.id} className="flex items-start gap-2 text-sm">
+                  <span className={criterion.met ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}>
+                    {criterion.met ? '✓' : '✗'}
+                  </span>
+                  <span className="flex-1 text-slate-700 dark:text-slate-300">{criterion.label}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { NumericAnswer, NumericSetAnswer, NumericSetSpec } from '../../domain/schema'
+import { gradeNumericAnswer } from '../../domain/scoring'
+import { OMIProgress } from '../OMIProgress'
+import { useRendererStore } from '../../lib/store'
+
+interface NumericSetProps {
+  spec: NumericSetSpec
+  answer?: NumericSetAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: NumericSetAnswer) => void
+  onSubmit: (answer: NumericSetAnswer) => void
+  onReset: () => void
+}
+
+type QuestionResult = ReturnType<typeof gradeNumericAnswer>
+
+export function NumericSet({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+}: NumericSetProps) {
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
+  const [answers, setAnswers] = useState<Record<string, NumericAnswer>>(answer?.answers || {})
+  const [questionResults, setQuestionResults] = useState<Record<string, QuestionResult>>({})
+  const [showFeedback, setShowFeedback] = useState(false)
+  const [fadeIn, setFadeIn] = useState(true)
+  const markQuestionSubmitted = useRendererStore((state) => state.markQuestionSubmitted)
+
+  const currentQuestion = spec.questions[currentQuestionIndex]
+  const currentAnswer = answers[currentQuestion.id] ?? { value: '' }
+  const currentResult = questionResults[currentQuestion.id]
+  const totalQuestions = spec.questions.length
+  const isLastQuestion = currentQuestionIndex === totalQuestions - 1
+  const allChecked = spec.questions.every((question) => questionResults[question.id])
+  const locked = disabled || Boolean(currentResult) || Boolean(evaluation)
+
+  // Fade in effect when question changes with slide animation
+  useEffect(() => {
+    setFadeIn(false)
+    const timer = setTimeout(() => setFadeIn(true), 100)
+    return () => clearTimeout(timer)
+  }, [currentQuestionIndex])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const updateCurrentAnswer = (questionAnswer: NumericAnswer) => {
+    const newAnswers = { ...answers, [currentQuestion.id]: questionAnswer }
+    setAnswers(newAnswers)
+    onAnswerChange({ answers: newAnswers })
+  }
+
+  const handleCheckQuestion = () => {
+    if (!currentAnswer.value.trim()) return
+    const result = gradeNumericAnswer(currentQuestion, currentAnswer)
+    setQuestionResults({ ...questionResults, [currentQuestion.id]: result })
+    if (result.correct) {
+      markQuestionSubmitted(spec.id, currentQuestion.id, true)
+    }
+  }
+
+  const handleTryAgain = () => {
+    // Keep the typed working; only the check is cleared
+    const newResults = { ...questionResults }
+    delete newResults[currentQuestion.id]
+    setQuestionResults(newResults)
+  }
+
+  const handleSubmitAll = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (evaluation || !allChecked) return
+    onSubmit({ answers })
+  }
+
+  const inputClassName =
+    'rounded-lg border-2 border-slate-200 bg-white px-4 py-2 text-base text-slate-800 transition-all focus:border-indigo-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-75 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100'
+
+  return (
+    <form className="space-y-6" onSubmit={handleSubmitAll}>
+      {/* Simple Progress Bar */}
+      <div className="relative h-1 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+        <div
+          className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500 ease-out"
+          style={{
+            width: `${((currentQuestionIndex + 1) / totalQuestions) * 100}%`,
+          }}
+        />
+      </div>
+
+      <div
+        className={`space-y-4 rounded-lg border border-slate-200 bg-white p-6 dark:border-slate-700 dark:bg-slate-800 transition-all duration-500 transform ${fadeIn ? 'opacity-100 translate-x-0' : 'opacity-0 -translate-x-8'}`}
+      >
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1">
+            {currentQuestion.title && (
+              <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{currentQuestion.title}</h3>
+            )}
+            {currentQuestion.prompt && (
+              <p className="mt-2 text-base text-slate-800 dark:text-slate-200">{currentQuestion.prompt}</p>
+            )}
+            {currentQuestion.sigFigs && (
+              <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+                Give your answer to {currentQuestion.sigFigs} significant figures.
+              </p>
+            )}
+          </div>
+          {currentQuestion.omiMapping && currentQuestion.omiMapping.length > 0 && (
+            <OMIProgress spec={spec} currentOmiIds={currentQuestion.omiMapping} />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+            Value
+            <input
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              value={currentAnswer.value}
+              onChange={(event) => updateCurrentAnswer({ ...currentAnswer, value: event.target.value })}
+              disabled={locked}
+              placeholder="e.g. 0.25"
+              className={`w-40 ${inputClassName}`}
+            />
+          </label>
+          {currentQuestion.unit && (
+            <label className="flex flex-col gap-1 text-sm font-medium text-slate-700 dark:text-slate-300">
+              Unit
+              <input
+                type="text"
+                autoComplete="off"
+                value={currentAnswer.unit ?? ''}
+                onChange={(event) => updateCurrentAnswer({ ...currentAnswer, unit: event.target.value })}
+                disabled={locked}
+                placeholder="unit"
+                className={`w-24 ${inputClassName}`}
+              />
+            </label>
+          )}
+        </div>
+
+        {/* Question Feedback */}
+        {currentResult && (
+          <div
+            className={`rounded-lg p-4 ${
+              currentResult.correct
+                ? 'bg-green-50 border border-green-200 dark:bg-green-950/30 dark:border-green-900/50'
+                : 'bg-red-50 border border-red-200 dark:bg-red-950/30 dark:border-red-900/50'
+            }`}
+          >
+            <p
+              className={`font-semibold ${
+                currentResult.correct ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'
+              }`}
+            >
+              {currentResult.correct ? '✓ Correct!' : `✗ ${currentResult.feedback}`}
+            </p>
+            {!currentResult.correct && currentQuestion.explanation && (
+              <p className="mt-1 text-sm text-slate-700 dark:text-slate-300">{currentQuestion.explanation}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Navigation and Submit */}
+      <div className="flex items-center justify-center gap-4 rounded-3xl border border-zinc-200 bg-white/80 p-4 shadow-sm">
+        <button
+          type="button"
+          onClick={() => setCurrentQuestionIndex(currentQuestionIndex - 1)}
+          disabled={currentQuestionIndex === 0}
+          className="rounded-full border border-zinc-200 px-6 py-2 text-sm font-medium text-zinc-600 hover:border-zinc-300 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Previous
+        </button>
+        {!currentResult ? (
+          <button
+            type="button"
+            onClick={handleCheckQuestion}
+            disabled={disabled || !currentAnswer.value.trim()}
+            className="rounded-full bg-zinc-900 px-6 py-2 text-sm font-semibold text-white shadow hover:bg-zinc-700 disabled:cursor-not-allowed disabled:bg-zinc-400"
+          >
+            Submit Answer
+          </button>
+        ) : !currentResult.correct && !evaluation ? (
+          <button
+            type="button"
+            onClick={handleTryAgain}
+            className="rounded-full border border-amber-500 px-6 py-2 text-sm font-semibold text-amber-600 hover:bg-amber-50"
+          >
+            Try Again
+          </button>
+        ) : null}
+        {!isLastQuestion ? (
+          <button
+            type="button"
+            onClick={() => setCurrentQuestionIndex(currentQuestionIndex + 1)}
+            disabled={!currentResult}
+            className="rounded-full border border-zinc-200 px-6 py-2 text-sm font-medium text-zinc-600 hover:border-zinc-300 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Next Question
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={disabled || !allChecked || Boolean(evaluation)}
+            className="rounded-full bg-emerald-600 px-6 py-2 text-sm font-semibold text-white hover:bg-emerald-700 disabled:cursor-not-allowed disabled:bg-zinc-400"
+          >
+            Finish Set
+          </button>
+        )}
+      </div>
+
+      {/* Final Feedback - only shown after finishing the set */}
+      {evaluation && showFeedback && (
+        <div
+          className={`rounded-lg border p-6 ${
+            evaluation.correct
+              ? 'border-green-200 bg-green-50 dark:border-green-900/50 dark:bg-green-950/50'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/50'
+          }`}
+        >
+          <p
+            className={`text-lg font-semibold ${
+              evaluation.correct ? 'text-green-800 dark:text-green-200' : 'text-amber-800 dark:text-amber-200'
+            }`}
+          >
+            {evaluation.correct ? '🎉 Perfect! All Correct!' : '📊 Calculations Complete'}
+          </p>
+          {evaluation.feedback && (
+            <p className="mt-1 text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+          )}
+          <p className="mt-2 text-sm font-medium text-slate-600 dark:text-slate-400">
+            Score: {Math.round(evaluation.score * 100)}%
+          </p>
+        </div>
+      )}
+    </form>
+  )
+}
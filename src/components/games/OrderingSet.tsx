@@ -5,6 +5,11 @@ import type { OrderingSetSpec, OrderingSetAnswer } from '../../domain/schema'
 import { OMIProgress } from '../OMIProgress'
 import { useRendererStore } from '../../lib/store'
 
+type Attempts = NonNullable<OrderingSetAnswer['attempts']>
+
+// Attempts go along even when empty: a payload without them is scored as having an unknown history
+const toPayload = (answers: OrderingSetAnswer['answers'], attempts: Attempts): OrderingSetAnswer => ({ answers, attempts })
+
 interface OrderingSetProps {
   spec: OrderingSetSpec
   answer?: OrderingSetAnswer
@@ -13,6 +18,7 @@ interface OrderingSetProps {
   onAnswerChange: (answer: OrderingSetAnswer) => void
   onSubmit: (answer: OrderingSetAnswer) => void
   onReset: () => void
+  onQuestionCheck?: (answer: OrderingSetAnswer, questionId: string) => void // Each check of one question, which counts as an attempt
 }
 
 export function OrderingSet({
@@ -23,9 +29,11 @@ export function OrderingSet({
   onAnswerChange,
   onSubmit,
   onReset,
+  onQuestionCheck,
 }: OrderingSetProps) {
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
   const [answers, setAnswers] = useState<Record<string, string[]>>(answer?.answers || {})
+  const [attempts, setAttempts] = useState<Attempts>(answer?.attempts || {}) // Every order committed with Next or Submit
   const [showFeedback, setShowFeedback] = useState(false)
   const markQuestionSubmitted = useRendererStore((state) => state.markQuestionSubmitted)
 
@@ -71,7 +79,17 @@ export function OrderingSet({
   const saveCurrentQuestionOrder = (newOrder: string[]) => {
     const newAnswers = { ...answers, [currentQuestion.id]: newOrder }
     setAnswers(newAnswers)
-    onAnswerChange({ answers: newAnswers })
+    onAnswerChange(toPayload(newAnswers, attempts))
+  }
+
+  // Moving on with an order is an attempt; coming back and moving on unchanged is not
+  const commitCurrentOrder = (): Attempts => {
+    const previous = attempts[currentQuestion.id] ?? []
+    const last = previous[previous.length - 1]
+    if (last && last.join('\u0000') === currentOrder.join('\u0000')) return attempts
+    const updated = { ...attempts, [currentQuestion.id]: [...previous, currentOrder] }
+    setAttempts(updated)
+    return updated
   }
 
   const handleDragStart = (item: string) => {
@@ -131,8 +149,12 @@ export function OrderingSet({
     if (!isLastQuestion) {
       // Check if current question is answered correctly before moving
       const isCorrect = currentOrder.every((item, index) => item === currentQuestion.items[index])
+      const updatedAttempts = commitCurrentOrder()
+      const payload = toPayload(answers, updatedAttempts)
+      onAnswerChange(payload)
+      if (updatedAttempts !== attempts) onQuestionCheck?.(payload, currentQuestion.id)
       if (isCorrect) {
-        markQuestionSubmitted(spec.id, currentQuestion.id, true)
+        markQuestionSubmitted(spec.id, currentQuestion.id, true, updatedAttempts[currentQuestion.id].length)
       }
       setCurrentQuestionIndex(currentQuestionIndex + 1)
     }
@@ -150,13 +172,15 @@ export function OrderingSet({
     
     // Mark the last question as submitted
     const isCorrect = currentOrder.every((item, index) => item === currentQuestion.items[index])
+    const updatedAttempts = commitCurrentOrder()
     if (isCorrect) {
-      markQuestionSubmitted(spec.id, currentQuestion.id, true)
+      markQuestionSubmitted(spec.id, currentQuestion.id, true, updatedAttempts[currentQuestion.id].length)
     }
     
-    onSubmit({ answers })
+    onSubmit(toPayload(answers, updatedAttempts))
   }
 
+  // Attempts are kept, so the next submission is scored as a retry
   const handleTryAgain = () => {
     setAnswers({})
     setCurrentQuestionIndex(0)
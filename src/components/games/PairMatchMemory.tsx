@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { PairMatchAnswer, PairMatchSpec } from '../../domain/schema'
+import { MemoryBoard } from './MemoryBoard'
+
+interface PairMatchMemoryProps {
+  spec: PairMatchSpec
+  answer?: PairMatchAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: PairMatchAnswer) => void
+  onSubmit: (answer: PairMatchAnswer) => void
+  onReset: () => void
+}
+
+export function PairMatchMemory({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: PairMatchMemoryProps) {
+  const [matches, setMatches] = useState<PairMatchAnswer['matches']>(answer?.matches ?? [])
+  const [moves, setMoves] = useState(answer?.moves ?? 0)
+  const [deal, setDeal] = useState(0)
+  const [showFeedback, setShowFeedback] = useState(false)
+  const submittedRef = useRef(false)
+
+  useEffect(() => {
+    if (answer?.matches) {
+      setMatches(answer.matches)
+    }
+    if (answer?.moves !== undefined) {
+      setMoves(answer.moves)
+    }
+  }, [answer?.matches, answer?.moves])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const submit = (result: PairMatchAnswer) => {
+    if (submittedRef.current) return
+    submittedRef.current = true
+    onSubmit(result)
+  }
+
+  // Before scoring, only the time limit disables the board: score what was found
+  useEffect(() => {
+    if (disabled && !evaluation && moves > 0) {
+      submit({ matches, moves })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [disabled, evaluation])
+
+  const handleMove = (result: { matches: PairMatchAnswer['matches']; moves: number }) => {
+    setMatches(result.matches)
+    setMoves(result.moves)
+    onAnswerChange(result)
+    if (result.matches.length === spec.pairs.length) {
+      submit(result)
+    }
+  }
+
+  const handlePlayAgain = () => {
+    submittedRef.current = false
+    setMatches([])
+    setMoves(0)
+    setDeal((current) => current + 1)
+    setShowFeedback(false)
+    onReset()
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-3">
+        {spec.prompt && (
+          <p className="text-xl font-semibold text-slate-800 dark:text-slate-100">{spec.prompt}</p>
+        )}
+        {spec.instructions && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{spec.instructions}</p>
+        )}
+        {!disabled && (
+          <p className="text-sm font-medium text-indigo-600 dark:text-indigo-400 flex items-center gap-2">
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            Turn over two cards at a time to find each matching pair in as few moves as you can.
+          </p>
+        )}
+      </div>
+
+      <MemoryBoard
+        key={deal}
+        pairs={spec.pairs}
+        matches={matches}
+        moves={moves}
+        disabled={disabled}
+        onMove={handleMove}
+      />
+
+      {evaluation && (
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={handlePlayAgain}
+            className="rounded-lg border-2 border-indigo-600 bg-transparent px-6 py-3 font-semibold text-indigo-600 transition-all duration-200 hover:bg-indigo-50 hover:scale-105 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            Play Again
+          </button>
+        </div>
+      )}
+
+      {evaluation && showFeedback && (
+        <div
+          className={`space-y-1 rounded-xl border p-4 animate-slide-in ${
+            evaluation.correct
+              ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-900/50 dark:bg-emerald-950/30'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30'
+          }`}
+        >
+          <p
+            className={`text-lg font-semibold ${
+              evaluation.correct ? 'text-emerald-800 dark:text-emerald-200' : 'text-amber-800 dark:text-amber-200'
+            }`}
+          >
+            {evaluation.correct ? '🎉 Perfect Memory!' : '📝 Keep Practising'}
+          </p>
+          {evaluation.feedback && (
+            <p className="text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+          )}
+          <p className="text-sm font-medium text-slate-600 dark:text-slate-400">
+            Score: {Math.round(evaluation.score * 100)}%
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { PairMatchSetAnswer, PairMatchSetSpec } from '../../domain/schema'
+import { OMIProgress } from '../OMIProgress'
+import { useRendererStore } from '../../lib/store'
+import { MemoryBoard } from './MemoryBoard'
+
+interface PairMatchSetMemoryProps {
+  spec: PairMatchSetSpec
+  answer?: PairMatchSetAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: PairMatchSetAnswer) => void
+  onSubmit: (answer: PairMatchSetAnswer) => void
+  onReset: () => void
+}
+
+type Match = { left: string; right: string }
+
+export function PairMatchSetMemory({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: PairMatchSetMemoryProps) {
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
+  const [answers, setAnswers] = useState<Record<string, Match[]>>(answer?.answers || {})
+  const [moves, setMoves] = useState<Record<string, number>>(answer?.moves || {})
+  const [deal, setDeal] = useState(0)
+  const [showFeedback, setShowFeedback] = useState(false)
+  const submittedRef = useRef(false)
+  const advanceRef = useRef<number | null>(null)
+  const markQuestionSubmitted = useRendererStore((state) => state.markQuestionSubmitted)
+
+  const currentQuestion = spec.questions[currentQuestionIndex]
+  const totalQuestions = spec.questions.length
+  const currentMatches = answers[currentQuestion.id] ?? []
+  const currentMoves = moves[currentQuestion.id] ?? 0
+  const boardCleared = currentMatches.length === currentQuestion.pairs.length
+
+  useEffect(() => {
+    return () => {
+      if (advanceRef.current) clearTimeout(advanceRef.current)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const submit = (result: PairMatchSetAnswer) => {
+    if (submittedRef.current) return
+    submittedRef.current = true
+    onSubmit(result)
+  }
+
+  // Before scoring, only the time limit disables the board: score the boards played so far
+  useEffect(() => {
+    if (disabled && !evaluation && Object.keys(moves).length > 0) {
+      if (advanceRef.current) clearTimeout(advanceRef.current)
+      submit({ answers, moves })
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [disabled, evaluation])
+
+  const handleMove = (result: { matches: Match[]; moves: number }) => {
+    const newAnswers = { ...answers, [currentQuestion.id]: result.matches }
+    const newMoves = { ...moves, [currentQuestion.id]: result.moves }
+    setAnswers(newAnswers)
+    setMoves(newMoves)
+    onAnswerChange({ answers: newAnswers, moves: newMoves })
+
+    if (result.matches.length !== currentQuestion.pairs.length) return
+    markQuestionSubmitted(spec.id, currentQuestion.id, true)
+    if (currentQuestionIndex === totalQuestions - 1) {
+      submit({ answers: newAnswers, moves: newMoves })
+    } else {
+      advanceRef.current = window.setTimeout(() => {
+        setCurrentQuestionIndex((index) => index + 1)
+      }, 1200) // Leave the cleared board up briefly before dealing the next one
+    }
+  }
+
+  const handlePlayAgain = () => {
+    submittedRef.current = false
+    setAnswers({})
+    setMoves({})
+    setCurrentQuestionIndex(0)
+    setDeal((current) => current + 1)
+    setShowFeedback(false)
+    onReset()
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Simple Progress Bar */}
+      <div className="relative h-1 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+        <div
+          className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-500 ease-out"
+          style={{ width: `${((currentQuestionIndex + 1) / totalQuestions) * 100}%` }}
+        />
+      </div>
+
+      <div className="space-y-4 animate-fade-in">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+              Board {currentQuestionIndex + 1} of {totalQuestions}
+            </p>
+            {currentQuestion.title && (
+              <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100">{currentQuestion.title}</h3>
+            )}
+          </div>
+          {currentQuestion.omiMapping && currentQuestion.omiMapping.length > 0 && (
+            <OMIProgress spec={spec} currentOmiIds={currentQuestion.omiMapping} />
+          )}
+        </div>
+
+        {!disabled && (
+          <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-950/30">
+            <p className="text-sm font-medium text-blue-800 dark:text-blue-200">
+              💡 Turn over two cards at a time. Clear each board in as few moves as you can.
+            </p>
+          </div>
+        )}
+
+        <MemoryBoard
+          key={`${deal}-${currentQuestion.id}`}
+          pairs={currentQuestion.pairs}
+          matches={currentMatches}
+          moves={currentMoves}
+          disabled={disabled || boardCleared}
+          onMove={handleMove}
+        />
+
+        {boardCleared && !evaluation && currentQuestionIndex < totalQuestions - 1 && (
+          <p className="text-center text-sm font-medium text-green-600 dark:text-green-400">
+            ✓ Board cleared! Dealing the next one...
+          </p>
+        )}
+      </div>
+
+      {/* Feedback */}
+      {evaluation && showFeedback && (
+        <div
+          className={`rounded-2xl border-2 p-6 shadow-xl transition-all animate-slide-in ${
+            evaluation.correct
+              ? 'border-green-300 bg-gradient-to-br from-green-50 to-green-100 dark:border-green-500/40 dark:from-green-950/50 dark:to-green-900/30'
+              : 'border-amber-300 bg-gradient-to-br from-amber-50 to-amber-100 dark:border-amber-500/40 dark:from-amber-950/50 dark:to-amber-900/30'
+          }`}
+        >
+          <div className="flex items-start gap-4">
+            <div
+              className={`flex h-12 w-12 flex-shrink-0 items-center justify-center rounded-full text-2xl ${
+                evaluation.correct ? 'bg-green-500 text-white' : 'bg-amber-500 text-white'
+              }`}
+            >
+              {evaluation.correct ? '✓' : '○'}
+            </div>
+            <div className="flex-1 space-y-3">
+              <p
+                className={`text-lg font-bold ${
+                  evaluation.correct ? 'text-green-800 dark:text-green-200' : 'text-amber-800 dark:text-amber-200'
+                }`}
+              >
+                {evaluation.feedback}
+              </p>
+              <p className="text-sm font-medium text-slate-600 dark:text-slate-400">
+                Score: {Math.round(evaluation.score * 100)}%
+              </p>
+              <button
+                type="button"
+                onClick={handlePlayAgain}
+                className="mt-4 rounded-lg bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-2.5 font-semibold text-white shadow-lg transition-all hover:from-indigo-700 hover:to-purple-700"
+              >
+                Play Again
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,418 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { ParsonsAnswer, ParsonsSpec } from '../../domain/schema'
+
+interface ParsonsProps {
+  spec: ParsonsSpec
+  answer?: ParsonsAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: ParsonsAnswer) => void
+  onSubmit: (answer: ParsonsAnswer) => void
+  onReset: () => void
+}
+
+type ProgramLine = ParsonsAnswer['lines'][number]
+type DraggedLine = { from: 'bank' | 'program'; id: string }
+
+// Width of one indentation level in the program panel
+const INDENT_REM = 1.75
+
+function shuffle<T>(items: readonly T[]): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+export function Parsons({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: ParsonsProps) {
+  const bankOrder = useMemo(
+    () => shuffle([...spec.lines, ...(spec.distractors ?? [])].map((line) => line.id)),
+    [spec.lines, spec.distractors],
+  )
+  const codeById = useMemo(
+    () => new Map([...spec.lines, ...(spec.distractors ?? [])].map((line) => [line.id, line.code])),
+    [spec.lines, spec.distractors],
+  )
+  const maxIndent = Math.max(...spec.lines.map((line) => line.indent ?? 0)) + 1
+  const gradeIndentation = spec.gradeIndentation ?? true
+
+  const [program, setProgram] = useState<ProgramLine[]>(answer?.lines ?? [])
+  const [showFeedback, setShowFeedback] = useState(false)
+  const [dragged, setDragged] = useState<DraggedLine | null>(null)
+  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null)
+  const locked = disabled || Boolean(evaluation)
+
+  useEffect(() => {
+    if (answer?.lines) {
+      setProgram(answer.lines)
+    }
+  }, [answer?.lines])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const criteriaById = new Map((evaluation?.criteria ?? []).map((criterion) => [criterion.id, criterion]))
+  const usedIds = new Set(program.map((line) => line.id))
+  const bank = bankOrder.filter((id) => !usedIds.has(id))
+  const missingLines = (evaluation?.criteria ?? []).filter((criterion) => !criterion.met && !usedIds.has(criterion.id))
+
+  const updateProgram = (next: ProgramLine[]) => {
+    setProgram(next)
+    onAnswerChange({ lines: next })
+  }
+
+  const insertLine = (id: string, index: number) => {
+    if (locked || usedIds.has(id)) return
+    const next = [...program]
+    next.splice(index, 0, { id, indent: 0 })
+    updateProgram(next)
+  }
+
+  const removeLine = (index: number) => {
+    if (locked) return
+    updateProgram(program.filter((_, lineIndex) => lineIndex !== index))
+  }
+
+  const moveLine = (index: number, direction: -1 | 1) => {
+    const targetIndex = index + direction
+    if (locked || targetIndex < 0 || targetIndex >= program.length) return
+    const next = [...program]
+    ;[next[index], next[targetIndex]] = [next[targetIndex], next[index]]
+    updateProgram(next)
+  }
+
+  const indentLine = (index: number, direction: -1 | 1) => {
+    const indent = program[index].indent + direction
+    if (locked || indent < 0 || indent > maxIndent) return
+    updateProgram(program.map((line, lineIndex) => (lineIndex === index ? { ...line, indent } : line)))
+  }
+
+  const handleDragStart = (line: DraggedLine) => {
+    if (locked) return
+    setDragged(line)
+  }
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault()
+    if (locked || !dragged) return
+    setDragOverIndex(index)
+  }
+
+  const handleDragEnd = () => {
+    setDragged(null)
+    setDragOverIndex(null)
+  }
+
+  // Dropping on a program line inserts before it; dropping on the panel appends
+  const handleDropOnProgram = (e: React.DragEvent, dropIndex: number) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (locked || !dragged) {
+      handleDragEnd()
+      return
+    }
+    if (dragged.from === 'bank') {
+      insertLine(dragged.id, dropIndex)
+    } else {
+      const fromIndex = program.findIndex((line) => line.id === dragged.id)
+      const next = [...program]
+      const [moved] = next.splice(fromIndex, 1)
+      next.splice(fromIndex < dropIndex ? dropIndex - 1 : dropIndex, 0, moved)
+      updateProgram(next)
+    }
+    handleDragEnd()
+  }
+
+  const handleDropOnBank = (e: React.DragEvent) => {
+    e.preventDefault()
+    if (!locked && dragged?.from === 'program') {
+      removeLine(program.findIndex((line) => line.id === dragged.id))
+    }
+    handleDragEnd()
+  }
+
+  const handleSubmit = () => {
+    if (program.length === 0) return
+    onSubmit({ lines: program })
+  }
+
+  const handleTryAgain = () => {
+    // Keep the program so the flagged lines can be fixed in place
+    setShowFeedback(false)
+    onReset()
+  }
+
+  const controlClassName =
+    'flex h-8 w-8 items-center justify-center rounded-lg border-2 border-slate-300 bg-white text-slate-700 shadow-sm transition-all duration-200 hover:border-indigo-400 hover:bg-indigo-50 hover:text-indigo-600 disabled:cursor-not-allowed disabled:opacity-40 dark:border-slate-600 dark:bg-slate-700 dark:text-slate-200 dark:hover:bg-slate-600'
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-3">
+        {spec.prompt && (
+          <p className="text-xl font-semibold text-slate-800 dark:text-slate-100">{spec.prompt}</p>
+        )}
+        {spec.instructions && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{spec.instructions}</p>
+        )}
+        {!locked && (
+          <p className="text-sm font-medium text-indigo-600 dark:text-indigo-400 flex items-center gap-2">
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            {gradeIndentation
+              ? 'Drag lines into your program or use the buttons, then indent them. Some lines may not be needed.'
+              : 'Drag lines into your program or use the buttons. Some lines may not be needed.'}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {/* Line bank */}
+        <div
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleDropOnBank}
+          className="rounded-lg border border-slate-200 bg-slate-50 p-4 dark:border-slate-800 dark:bg-slate-900"
+        >
+          <h3 className="mb-3 text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+            Code Lines
+          </h3>
+          <ul className="space-y-2" aria-label="Unused code lines">
+            {bank.map((id) => (
+              <li
+                key={id}
+                draggable={!locked}
+                onDragStart={() => handleDragStart({ from: 'bank', id })}
+                onDragEnd={handleDragEnd}
+                className={`flex items-center gap-3 rounded-lg border-2 border-slate-200 bg-white px-3 py-2 shadow-sm transition-all dark:border-slate-700 dark:bg-slate-800 ${
+                  !locked ? 'cursor-grab hover:border-indigo-300 active:cursor-grabbing' : ''
+                }`}
+              >
+                <code className="flex-1 whitespace-pre font-mono text-sm text-slate-800 dark:text-slate-100">
+                  {codeById.get(id)}
+                </code>
+                <button
+                  type="button"
+                  onClick={() => insertLine(id, program.length)}
+                  disabled={locked}
+                  className={controlClassName}
+                  aria-label={`Add ${codeById.get(id)} to your program`}
+                  title="Add to program"
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+            {bank.length === 0 && (
+              <li className="text-sm text-slate-500 dark:text-slate-400">All lines are in your program.</li>
+            )}
+          </ul>
+        </div>
+
+        {/* Program */}
+        <div
+          onDragOver={(e) => handleDragOver(e, program.length)}
+          onDrop={(e) => handleDropOnProgram(e, program.length)}
+          className={`rounded-lg border-2 border-dashed p-4 transition-all ${
+            dragOverIndex === program.length
+              ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-950/30'
+              : 'border-slate-300 bg-white dark:border-slate-700 dark:bg-slate-800'
+          }`}
+        >
+          <div className="mb-3 flex items-center justify-between">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-700 dark:text-slate-300">
+              Your Program
+            </h3>
+            {spec.language && (
+              <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+                {spec.language}
+              </span>
+            )}
+          </div>
+          <ol className="space-y-2" aria-label="Your program">
+            {program.map((line, index) => {
+              const criterion = criteriaById.get(line.id)
+              const isDraggedOver = dragOverIndex === index
+
+              return (
+                <li
+                  key={line.id}
+                  draggable={!locked}
+                  onDragStart={() => handleDragStart({ from: 'program', id: line.id })}
+                  onDragOver={(e) => {
+                    e.stopPropagation()
+                    handleDragOver(e, index)
+                  }}
+                  onDrop={(e) => handleDropOnProgram(e, index)}
+                  onDragEnd={handleDragEnd}
+                  style={{ marginLeft: `${line.indent * INDENT_REM}rem` }}
+                  className={`rounded-lg border-2 px-3 py-2 shadow-sm transition-all ${
+                    isDraggedOver
+                      ? 'border-indigo-500 bg-indigo-100 dark:bg-indigo-950/50'
+                      : evaluation && criterion
+                        ? criterion.met
+                          ? 'border-emerald-500 bg-emerald-50 dark:bg-emerald-950/30'
+                          : 'border-red-500 bg-red-50 dark:bg-red-950/30'
+                        : 'border-slate-200 bg-white dark:border-slate-700 dark:bg-slate-800'
+                  } ${!locked ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <code className="flex-1 whitespace-pre font-mono text-sm text-slate-800 dark:text-slate-100">
+                      {codeById.get(line.id)}
+                    </code>
+                    {!locked && (
+                      <div className="flex gap-1">
+                        {gradeIndentation && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => indentLine(index, -1)}
+                              disabled={line.indent === 0}
+                              className={controlClassName}
+                              aria-label={`Outdent ${codeById.get(line.id)}`}
+                              title="Outdent"
+                            >
+                              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 19l-7-7 7-7" />
+                              </svg>
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => indentLine(index, 1)}
+                              disabled={line.indent >= maxIndent}
+                              className={controlClassName}
+                              aria-label={`Indent ${codeById.get(line.id)}`}
+                              title="Indent"
+                            >
+                              <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" />
+                              </svg>
+                            </button>
+                          </>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => moveLine(index, -1)}
+                          disabled={index === 0}
+                          className={controlClassName}
+                          aria-label={`Move ${codeById.get(line.id)} up`}
+                          title="Move up"
+                        >
+                          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 15l7-7 7 7" />
+                          </svg>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveLine(index, 1)}
+                          disabled={index === program.length - 1}
+                          className={controlClassName}
+                          aria-label={`Move ${codeById.get(line.id)} down`}
+                          title="Move down"
+                        >
+                          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19 9l-7 7-7-7" />
+                          </svg>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => removeLine(index)}
+                          className={controlClassName}
+                          aria-label={`Remove ${codeById.get(line.id)} from your program`}
+                          title="Remove"
+                        >
+                          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  {evaluation && criterion?.feedback && (
+                    <p className="mt-1 text-xs font-medium text-red-700 dark:text-red-300">{criterion.feedback}</p>
+                  )}
+                </li>
+              )
+            })}
+            {program.length === 0 && (
+              <li className="py-6 text-center text-sm text-slate-400 dark:text-slate-500">Drop lines here</li>
+            )}
+          </ol>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleSubmit}
+          className="group relative overflow-hidden rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 px-6 py-3 font-semibold text-white shadow-lg transition-all duration-200 hover:shadow-xl hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+          disabled={locked || program.length === 0}
+        >
+          <span className="relative z-10 flex items-center gap-2">
+            Submit Program
+            <svg className="h-4 w-4 transition-transform group-hover:translate-x-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </span>
+        </button>
+        {evaluation && !evaluation.correct && (
+          <button
+            type="button"
+            onClick={handleTryAgain}
+            className="rounded-lg border-2 border-indigo-600 bg-transparent px-6 py-3 font-semibold text-indigo-600 transition-all duration-200 hover:bg-indigo-50 hover:scale-105 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            Try Again
+          </button>
+        )}
+      </div>
+
+      {evaluation && showFeedback && (
+        <div
+          className={`space-y-3 rounded-xl border p-4 animate-slide-in ${
+            evaluation.correct
+              ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-900/50 dark:bg-emerald-950/30'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30'
+          }`}
+        >
+          <div>
+            <p
+              className={`text-lg font-semibold ${
+                evaluation.correct ? 'text-emerald-800 dark:text-emerald-200' : 'text-amber-800 dark:text-amber-200'
+              }`}
+            >
+              {evaluation.correct ? '🎉 Program Complete!' : '📝 Not Quite'}
+            </p>
+            {evaluation.feedback && (
+              <p className="mt-1 text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+            )}
+            <p className="mt-1 text-sm font-medium text-slate-600 dark:text-slate-400">
+              Score: {Math.round(evaluation.score * 100)}%
+            </p>
+          </div>
+          {missingLines.length > 0 && (
+            <p className="text-sm text-slate-700 dark:text-slate-300">
+              {missingLines.length === 1 ? '1 line is' : `${missingLines.length} lines are`} still missing from your
+              program.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
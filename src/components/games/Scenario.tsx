@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { ScenarioAnswer, ScenarioSpec } from '../../domain/schema'
+import { replayScenario } from '../../domain/scenario'
+
+interface ScenarioProps {
+  spec: ScenarioSpec
+  answer?: ScenarioAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: ScenarioAnswer) => void
+  onSubmit: (answer: ScenarioAnswer) => void
+  onReset: () => void
+}
+
+type ScenarioPath = ScenarioAnswer['path']
+
+export function Scenario({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: ScenarioProps) {
+  const [path, setPath] = useState<ScenarioPath>(answer?.path ?? [])
+  const [showFeedback, setShowFeedback] = useState(false)
+  const locked = disabled || Boolean(evaluation)
+
+  useEffect(() => {
+    if (answer?.path) {
+      setPath(answer.path)
+    }
+  }, [answer?.path])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const replay = replayScenario(spec, { path })
+  const current = replay.current
+  const lastStep = replay.steps[replay.steps.length - 1]
+
+  const updatePath = (next: ScenarioPath) => {
+    setPath(next)
+    onAnswerChange({ path: next })
+  }
+
+  const handleChoose = (choiceId: string) => {
+    if (locked || !current) return
+    updatePath([...path, { nodeId: current.id, choiceId }])
+  }
+
+  const handleSubmit = () => {
+    if (!current?.ending) return
+    onSubmit({ path })
+  }
+
+  const handleRestart = () => {
+    // A scenario is replayed from the start rather than patched mid-story
+    setShowFeedback(false)
+    setPath([])
+    if (evaluation) {
+      onReset()
+    } else {
+      onAnswerChange({ path: [] })
+    }
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="space-y-3">
+        {spec.prompt && (
+          <p className="text-xl font-semibold text-slate-800 dark:text-slate-100">{spec.prompt}</p>
+        )}
+        {spec.instructions && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{spec.instructions}</p>
+        )}
+      </div>
+
+      {/* Path taken so far */}
+      {replay.steps.length > 0 && (
+        <ol className="flex flex-wrap items-center gap-2 text-xs" aria-label="Your decisions so far">
+          {replay.steps.map((step, index) => (
+            <li key={`${step.node.id}-${index}`} className="flex items-center gap-2">
+              <span className="rounded-full bg-slate-100 px-3 py-1 font-medium text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+                {step.node.title ?? `Decision ${index + 1}`}: {step.choice.text}
+              </span>
+              <span className="text-slate-400" aria-hidden="true">→</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Feedback on the decision just made */}
+      {lastStep?.choice.feedback && !evaluation && (
+        <div className="rounded-lg border border-indigo-200 bg-indigo-50 p-4 text-sm text-indigo-900 animate-slide-in dark:border-indigo-900/50 dark:bg-indigo-950/30 dark:text-indigo-200">
+          {lastStep.choice.feedback}
+        </div>
+      )}
+
+      {current && (
+        <div
+          key={`${current.id}-${replay.steps.length}`}
+          className="space-y-4 rounded-lg border border-slate-200 bg-white p-6 animate-fade-in dark:border-slate-700 dark:bg-slate-800"
+        >
+          {current.title && (
+            <h3 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{current.title}</h3>
+          )}
+          <p className="text-base leading-relaxed text-slate-800 dark:text-slate-200">{current.text}</p>
+
+          {current.choices && (
+            <div className="space-y-3" role="group" aria-label="Choices">
+              {current.choices.map((choice) => (
+                <button
+                  key={choice.id}
+                  type="button"
+                  onClick={() => handleChoose(choice.id)}
+                  disabled={locked}
+                  className="w-full rounded-lg border-2 border-slate-200 bg-white px-4 py-3 text-left font-medium text-slate-700 transition-all duration-200 hover:border-indigo-400 hover:bg-indigo-50 disabled:cursor-not-allowed disabled:opacity-60 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200 dark:hover:bg-indigo-950/30"
+                >
+                  {choice.text}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        {current?.ending && (
+          <button
+            type="button"
+            onClick={handleSubmit}
+            className="group relative overflow-hidden rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 px-6 py-3 font-semibold text-white shadow-lg transition-all duration-200 hover:shadow-xl hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+            disabled={locked}
+          >
+            <span className="relative z-10 flex items-center gap-2">
+              See Outcome
+              <svg className="h-4 w-4 transition-transform group-hover:translate-x-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </span>
+          </button>
+        )}
+        {(evaluation || (replay.steps.length > 0 && !disabled)) && (
+          <button
+            type="button"
+            onClick={handleRestart}
+            className="rounded-lg border-2 border-indigo-600 bg-transparent px-6 py-3 font-semibold text-indigo-600 transition-all duration-200 hover:bg-indigo-50 hover:scale-105 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            {evaluation ? 'Try Again' : 'Start Over'}
+          </button>
+        )}
+      </div>
+
+      {evaluation && showFeedback && (
+        <div
+          className={`space-y-3 rounded-xl border p-4 animate-slide-in ${
+            evaluation.correct
+              ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-900/50 dark:bg-emerald-950/30'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30'
+          }`}
+        >
+          <div>
+            <p
+              className={`text-lg font-semibold ${
+                evaluation.correct ? 'text-emerald-800 dark:text-emerald-200' : 'text-amber-800 dark:text-amber-200'
+              }`}
+            >
+              {evaluation.correct ? '🎉 Good Outcome!' : '📝 Another Outcome Is Possible'}
+            </p>
+            {evaluation.feedback && (
+              <p className="mt-1 text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+            )}
+            <p className="mt-1 text-sm font-medium text-slate-600 dark:text-slate-400">
+              Score: {Math.round(evaluation.score * 100)}%
+            </p>
+          </div>
+
+          {evaluation.criteria && evaluation.criteria.length > 0 && (
+            <ul className="space-y-2">
+              {evaluation.criteria.map((criterion, index) => (
+                <li key={`${criterion.id}-${index}`} className="flex items-start gap-2 text-sm">
+                  <span className={criterion.met ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}>
+                    {criterion.met ? '✓' : '✗'}
+                  </span>
+                  <span className="flex-1 text-slate-700 dark:text-slate-300">
+                    {criterion.label}
+                    {!criterion.met && criterion.feedback && (
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">{criterion.feedback}</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
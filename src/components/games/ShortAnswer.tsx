@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react'
+import type { FormEvent } from 'react'
+import type { EvaluationResult } from '../../domain/events'
+import type { ShortAnswerAnswer, ShortAnswerSpec } from '../../domain/schema'
+
+interface ShortAnswerProps {
+  spec: ShortAnswerSpec
+  answer?: ShortAnswerAnswer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: ShortAnswerAnswer) => void
+  onSubmit: (answer: ShortAnswerAnswer) => void
+  onReset: () => void
+}
+
+export function ShortAnswer({
+  spec,
+  answer,
+  disabled = false,
+  evaluation,
+  onAnswerChange,
+  onSubmit,
+  onReset,
+}: ShortAnswerProps) {
+  const [text, setText] = useState(answer?.text ?? '')
+  const [showFeedback, setShowFeedback] = useState(false)
+
+  useEffect(() => {
+    if (answer?.text !== undefined) {
+      setText(answer.text)
+    }
+  }, [answer?.text])
+
+  useEffect(() => {
+    if (evaluation) {
+      setShowFeedback(false)
+      setTimeout(() => setShowFeedback(true), 50)
+    }
+  }, [evaluation])
+
+  const handleChange = (value: string) => {
+    setText(value)
+    onAnswerChange({ text: value })
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!text.trim()) return
+    onSubmit({ text })
+  }
+
+  const handleTryAgain = () => {
+    // Keep the text so the learner can build on their first attempt
+    setShowFeedback(false)
+    onReset()
+  }
+
+  return (
+    <form className="space-y-6 animate-fade-in" onSubmit={handleSubmit}>
+      <div className="space-y-3">
+        {spec.prompt && (
+          <p className="text-xl font-semibold text-slate-800 dark:text-slate-100">{spec.prompt}</p>
+        )}
+        {spec.instructions && (
+          <p className="text-sm text-slate-600 dark:text-slate-400">{spec.instructions}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor={`short-answer-${spec.id}`} className="sr-only">
+          Your answer
+        </label>
+        <textarea
+          id={`short-answer-${spec.id}`}
+          value={text}
+          onChange={(event) => handleChange(event.target.value)}
+          disabled={disabled || Boolean(evaluation)}
+          maxLength={spec.maxLength}
+          rows={5}
+          placeholder="Explain in your own words…"
+          className="w-full rounded-xl border-2 border-slate-200 bg-white p-4 text-base text-slate-800 transition-all focus:border-indigo-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-75 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-100"
+        />
+        {spec.maxLength && (
+          <p className="text-right text-xs text-slate-500 dark:text-slate-400">
+            {text.length} / {spec.maxLength}
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          className="group relative overflow-hidden rounded-lg bg-gradient-to-r from-indigo-600 to-indigo-500 px-6 py-3 font-semibold text-white shadow-lg transition-all duration-200 hover:shadow-xl hover:scale-105 disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:scale-100"
+          disabled={disabled || Boolean(evaluation) || !text.trim()}
+        >
+          <span className="relative z-10 flex items-center gap-2">
+            Submit Answer
+            <svg className="h-4 w-4 transition-transform group-hover:translate-x-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </span>
+        </button>
+        {evaluation && !evaluation.correct && (
+          <button
+            type="button"
+            onClick={handleTryAgain}
+            className="rounded-lg border-2 border-indigo-600 bg-transparent px-6 py-3 font-semibold text-indigo-600 transition-all duration-200 hover:bg-indigo-50 hover:scale-105 dark:border-indigo-400 dark:text-indigo-400 dark:hover:bg-indigo-950/30"
+          >
+            Try Again
+          </button>
+        )}
+      </div>
+
+      {evaluation && showFeedback && (
+        <div
+          className={`space-y-4 rounded-xl border p-4 animate-slide-in ${
+            evaluation.correct
+              ? 'border-emerald-200 bg-emerald-50 dark:border-emerald-900/50 dark:bg-emerald-950/30'
+              : 'border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-950/30'
+          }`}
+        >
+          <div>
+            <p
+              className={`text-lg font-semibold ${
+                evaluation.correct ? 'text-emerald-800 dark:text-emerald-200' : 'text-amber-800 dark:text-amber-200'
+              }`}
+            >
+              {evaluation.correct ? '🎉 Correct!' : '📝 Not Quite'}
+            </p>
+            {evaluation.feedback && (
+              <p className="mt-1 text-sm text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+            )}
+            <p className="mt-1 text-sm font-medium text-slate-600 dark:text-slate-400">
+              Score: {Math.round(evaluation.score * 100)}%
+            </p>
+          </div>
+
+          {/* Per-criterion rubric feedback */}
+          {evaluation.criteria && evaluation.criteria.length > 1 && (
+            <ul className="space-y-2">
+              {evaluation.criteria.map((criterion) => (
+                <li key={criterion.id} className="flex items-start gap-2 text-sm">
+                  <span className={criterion.met ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}>
+                    {criterion.met ? '✓' : '✗'}
+                  </span>
+                  <span className="flex-1 text-slate-700 dark:text-slate-300">
+                    {criterion.label}
+                    {criterion.feedback && (
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">{criterion.feedback}</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {spec.sampleAnswer && (evaluation.correct || evaluation.score > 0) && (
+            <div className="rounded-lg border border-slate-200 bg-white p-3 text-sm text-slate-700 dark:border-slate-700 dark:bg-slate-800 dark:text-slate-300">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">
+                Sample answer
+              </p>
+              <p className="mt-1">{spec.sampleAnswer}</p>
+            </div>
+          )}
+        </div>
+      )}
+    </form>
+  )
+}
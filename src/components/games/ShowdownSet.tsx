@@ -12,13 +12,40 @@ interface ShowdownSetProps {
   onAnswerChange: (answer: ShowdownSetAnswer) => void
   onSubmit: (answer: ShowdownSetAnswer) => void
   onReset: () => void
+  onQuestionCheck?: (answer: ShowdownSetAnswer, questionId: string) => void // Each check of one question, which counts as an attempt
 }
 
+type Showdown = ShowdownSetSpec['showdowns'][number]
+
 interface ShowdownState {
   optionId: string | null
+  ranking: string[] // Only used in rank mode; starts in option order
   reasonIds: string[]
+  improvementOptionId: string | null // Only used when the showdown has an improvementQuestion
 }
 
+const emptyState: ShowdownState = { optionId: null, ranking: [], reasonIds: [], improvementOptionId: null }
+
+const initialRanking = (showdown: Showdown) =>
+  showdown.answerMode === 'rank' ? showdown.options.map((option) => option.id) : []
+
+const interfaceLabel = (item: Showdown['context']['interfaces'][number], index: number) =>
+  item.label ?? `Interface ${String.fromCharCode(65 + index)}`
+
+type Attempts = NonNullable<ShowdownSetAnswer['attempts']>
+
+const toResponse = (value: ShowdownState): ShowdownSetAnswer['answers'][string] => ({
+  ...(value.optionId ? { optionId: value.optionId } : {}),
+  ...(value.ranking.length > 0 ? { ranking: value.ranking } : {}),
+  reasonIds: value.reasonIds,
+  ...(value.improvementOptionId ? { improvementOptionId: value.improvementOptionId } : {}),
+})
+
+const toPayload = (drafts: Record<string, ShowdownState>, attempts: Attempts): ShowdownSetAnswer => ({
+  answers: Object.fromEntries(Object.entries(drafts).map(([id, value]) => [id, toResponse(value)])),
+  attempts, // Sent even when empty: without it the scorer cannot tell a first attempt from an unknown history
+})
+
 export function ShowdownSet({
   spec,
   answer,
@@ -27,6 +54,7 @@ export function ShowdownSet({
   onAnswerChange,
   onSubmit,
   onReset,
+  onQuestionCheck,
 }: ShowdownSetProps) {
   const [currentIndex, setCurrentIndex] = useState(0)
   const [draftAnswers, setDraftAnswers] = useState<Record<string, ShowdownState>>(() => {
@@ -35,7 +63,9 @@ export function ShowdownSet({
       const existing = answer?.answers?.[showdown.id]
       initial[showdown.id] = {
         optionId: existing?.optionId ?? null,
+        ranking: existing?.ranking ?? initialRanking(showdown),
         reasonIds: existing?.reasonIds ?? [],
+        improvementOptionId: existing?.improvementOptionId ?? null,
       }
     })
     return initial
@@ -43,6 +73,8 @@ export function ShowdownSet({
   const [fadeIn, setFadeIn] = useState(true)
   const markQuestionSubmitted = useRendererStore((store) => store.markQuestionSubmitted)
   const autoAdvancedRef = useRef<Record<string, boolean>>({})
+  // Feedback shows as soon as a showdown is complete, so every distinct complete answer is an attempt
+  const attemptsRef = useRef<Attempts>(answer?.attempts ?? {})
 
   const currentShowdown = spec.showdowns[currentIndex]
   const totalShowdowns = spec.showdowns.length
@@ -63,7 +95,9 @@ export function ShowdownSet({
       const current = draftAnswers[showdown.id]
       synced[showdown.id] = {
         optionId: existing?.optionId ?? current?.optionId ?? null,
+        ranking: existing?.ranking ?? current?.ranking ?? initialRanking(showdown),
         reasonIds: existing?.reasonIds ?? current?.reasonIds ?? [],
+        improvementOptionId: existing?.improvementOptionId ?? current?.improvementOptionId ?? null,
       }
     })
     setDraftAnswers(synced)
@@ -73,7 +107,7 @@ export function ShowdownSet({
 
   const showdownById = (showdownId: string) => spec.showdowns.find((sd) => sd.id === showdownId)
 
-  const analyzeReasonSelection = (showdown: ShowdownSetSpec['showdowns'][number], draft: ShowdownState | undefined) => {
+  const analyzeReasonSelection = (showdown: Showdown, draft: ShowdownState | undefined) => {
     const correctReasonIds = showdown.reasonOptions.filter((reason) => reason.correct).map((reason) => reason.id)
     const requiredReasonCount = correctReasonIds.length
     const selectedIds = draft?.reasonIds ?? []
@@ -100,24 +134,31 @@ export function ShowdownSet({
     if (!showdown) return false
     const draft = answers[showdownId]
     if (!draft) return false
-    if (!draft.optionId) return false
+    if (!hasVerdict(showdown, draft)) return false
 
     const reasonStats = analyzeReasonSelection(showdown, draft)
     if (reasonStats.selectedIds.length < reasonStats.requiredReasonCount) return false
+    if (showdown.improvementQuestion && !draft.improvementOptionId) return false
 
     return true
   }
 
   const updateGlobalAnswer = (updated: Record<string, ShowdownState>) => {
-    const payload: ShowdownSetAnswer = {
-      answers: Object.fromEntries(
-        Object.entries(updated).map(([id, value]) => [id, {
-          optionId: value.optionId ?? '',
-          reasonIds: value.reasonIds,
-        }]),
-      ),
+    onAnswerChange(toPayload(updated, attemptsRef.current))
+  }
+
+  // Records the showdown's answer when it is complete and returns how many attempts it has taken.
+  // Each reordered ranking is shown as right or wrong, so each one counts.
+  const recordAttempt = (showdownId: string, answers: Record<string, ShowdownState>, submitted = false) => {
+    const previous = attemptsRef.current[showdownId] ?? []
+    if (!isShowdownComplete(showdownId, answers)) return previous.length
+    const response = toResponse(answers[showdownId])
+    if (JSON.stringify(previous[previous.length - 1]) !== JSON.stringify(response)) {
+      attemptsRef.current = { ...attemptsRef.current, [showdownId]: [...previous, response] }
+      // The submission itself reaches the host anyway
+      if (!submitted) onQuestionCheck?.(toPayload(answers, attemptsRef.current), showdownId)
     }
-    onAnswerChange(payload)
+    return attemptsRef.current[showdownId].length
   }
 
   const handleOptionChange = (showdownId: string, optionId: string) => {
@@ -126,13 +167,35 @@ export function ShowdownSet({
       const next: Record<string, ShowdownState> = {
         ...prev,
         [showdownId]: {
+          ...(prev[showdownId] ?? emptyState),
           optionId,
-          reasonIds: prev[showdownId]?.reasonIds ?? [],
         },
       }
+      const attempts = recordAttempt(showdownId, next)
       updateGlobalAnswer(next)
       if (isShowdownComplete(showdownId, next) && isShowdownCorrect(showdownId, next)) {
-        markQuestionSubmitted(spec.id, showdownId, true)
+        markQuestionSubmitted(spec.id, showdownId, true, attempts)
+      }
+      return next
+    })
+  }
+
+  const handleRankMove = (showdownId: string, index: number, offset: -1 | 1) => {
+    setDraftAnswers((prev) => {
+      const current = prev[showdownId] ?? emptyState
+      const target = index + offset
+      if (target < 0 || target >= current.ranking.length) return prev
+      const ranking = [...current.ranking]
+      ;[ranking[index], ranking[target]] = [ranking[target], ranking[index]]
+      autoAdvancedRef.current[showdownId] = false
+      const next = {
+        ...prev,
+        [showdownId]: { ...current, ranking },
+      }
+      const attempts = recordAttempt(showdownId, next)
+      updateGlobalAnswer(next)
+      if (isShowdownComplete(showdownId, next) && isShowdownCorrect(showdownId, next)) {
+        markQuestionSubmitted(spec.id, showdownId, true, attempts)
       }
       return next
     })
@@ -140,27 +203,48 @@ export function ShowdownSet({
 
   const handleReasonToggle = (showdownId: string, reasonId: string) => {
     setDraftAnswers((prev) => {
-      const current = prev[showdownId] ?? { optionId: null, reasonIds: [] }
+      const current = prev[showdownId] ?? emptyState
       const reasonIds = current.reasonIds.includes(reasonId)
         ? current.reasonIds.filter((id) => id !== reasonId)
         : [...current.reasonIds, reasonId]
       autoAdvancedRef.current[showdownId] = false
       const next = {
         ...prev,
-        [showdownId]: { optionId: current.optionId, reasonIds },
+        [showdownId]: { ...current, reasonIds },
+      }
+      const attempts = recordAttempt(showdownId, next)
+      updateGlobalAnswer(next)
+      if (isShowdownComplete(showdownId, next) && isShowdownCorrect(showdownId, next)) {
+        markQuestionSubmitted(spec.id, showdownId, true, attempts)
+      }
+      return next
+    })
+  }
+
+  const handleImprovementChange = (showdownId: string, improvementOptionId: string) => {
+    setDraftAnswers((prev) => {
+      autoAdvancedRef.current[showdownId] = false
+      const next: Record<string, ShowdownState> = {
+        ...prev,
+        [showdownId]: {
+          ...(prev[showdownId] ?? emptyState),
+          improvementOptionId,
+        },
       }
+      const attempts = recordAttempt(showdownId, next)
       updateGlobalAnswer(next)
       if (isShowdownComplete(showdownId, next) && isShowdownCorrect(showdownId, next)) {
-        markQuestionSubmitted(spec.id, showdownId, true)
+        markQuestionSubmitted(spec.id, showdownId, true, attempts)
       }
       return next
     })
   }
 
+  // Attempts are kept, so answers given after a reset are scored as retries
   const handleResetAll = () => {
     const reset: Record<string, ShowdownState> = {}
     spec.showdowns.forEach((showdown) => {
-      reset[showdown.id] = { optionId: null, reasonIds: [] }
+      reset[showdown.id] = { ...emptyState, ranking: initialRanking(showdown) }
     })
     setDraftAnswers(reset)
     autoAdvancedRef.current = {}
@@ -170,23 +254,16 @@ export function ShowdownSet({
 
   const handleSubmitAll = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
-    const payload: ShowdownSetAnswer = {
-      answers: Object.fromEntries(
-        Object.entries(draftAnswers).map(([id, value]) => [id, {
-          optionId: value.optionId ?? '',
-          reasonIds: value.reasonIds,
-        }]),
-      ),
-    }
     spec.showdowns.forEach((showdown) => {
+      const attempts = recordAttempt(showdown.id, draftAnswers, true)
       if (isShowdownComplete(showdown.id, draftAnswers)) {
         const correct = isShowdownCorrect(showdown.id, draftAnswers)
         if (correct) {
-          markQuestionSubmitted(spec.id, showdown.id, true)
+          markQuestionSubmitted(spec.id, showdown.id, true, attempts)
         }
       }
     })
-    onSubmit(payload)
+    onSubmit(toPayload(draftAnswers, attemptsRef.current))
   }
 
   const allComplete = useMemo(() => spec.showdowns.every((sd) => isShowdownComplete(sd.id, draftAnswers)), [spec.showdowns, draftAnswers])
@@ -195,23 +272,37 @@ export function ShowdownSet({
     const showdown = showdownById(showdownId)
     if (!showdown) return false
     const draft = answers[showdownId]
-    if (!draft || !draft.optionId) return false
-
-    if (draft.optionId !== showdown.correctOptionId) {
-      return false
-    }
+    if (!draft || !isVerdictCorrect(showdown, draft)) return false
 
     const reasonStats = analyzeReasonSelection(showdown, draft)
-    return reasonStats.onlyCorrectSelected
+    return reasonStats.onlyCorrectSelected && isImprovementCorrect(showdown, draft)
+  }
+
+  const hasVerdict = (showdown: Showdown, draft: ShowdownState) =>
+    showdown.answerMode === 'rank' ? draft.ranking.length === showdown.options.length : Boolean(draft.optionId)
+
+  // Rank mode asks for the whole order; partial credit is left to scoring
+  const isVerdictCorrect = (showdown: Showdown, draft: ShowdownState) =>
+    showdown.answerMode === 'rank'
+      ? (showdown.correctRanking ?? []).join('\u0000') === draft.ranking.join('\u0000')
+      : Boolean(draft.optionId) && draft.optionId === showdown.correctOptionId
+
+  const isImprovementCorrect = (showdown: Showdown, draft: ShowdownState) => {
+    if (!showdown.improvementQuestion) return true
+    return Boolean(
+      showdown.improvementQuestion.options.find((option) => option.id === draft.improvementOptionId && option.correct),
+    )
   }
 
-  const currentState = draftAnswers[currentShowdown.id] ?? { optionId: null, reasonIds: [] }
+  const currentState = draftAnswers[currentShowdown.id] ?? emptyState
   const currentReasonStats = analyzeReasonSelection(currentShowdown, currentState)
-  const correctOptionLabel = currentShowdown.options.find((option) => option.id === currentShowdown.correctOptionId)?.label ?? 'the stronger interface'
+  const isRankMode = currentShowdown.answerMode === 'rank'
+  const strongestOptionId = isRankMode ? currentShowdown.correctRanking?.[0] : currentShowdown.correctOptionId
+  const correctOptionLabel = currentShowdown.options.find((option) => option.id === strongestOptionId)?.label ?? 'the stronger interface'
+  const optionById = new Map(currentShowdown.options.map((option) => [option.id, option]))
 
-  const selectedOptionMatches = currentState.optionId === currentShowdown.correctOptionId
   const readyForEvaluation =
-    selectedOptionMatches &&
+    isVerdictCorrect(currentShowdown, currentState) &&
     currentReasonStats.allRequiredSelected &&
     !currentReasonStats.hasIncorrectSelection &&
     currentState.reasonIds.length === currentReasonStats.requiredReasonCount
@@ -219,7 +310,7 @@ export function ShowdownSet({
   const reachedReasonThreshold = currentState.reasonIds.length >= currentReasonStats.requiredReasonCount
 
   const shouldShowFeedback =
-    (!!currentState.optionId &&
+    (hasVerdict(currentShowdown, currentState) &&
       (reachedReasonThreshold || currentReasonStats.hasIncorrectSelection || currentState.reasonIds.length > currentReasonStats.requiredReasonCount))
 
   const currentFeedbackStatus: 'correct' | 'incorrect' | null = shouldShowFeedback
@@ -228,11 +319,33 @@ export function ShowdownSet({
       : 'incorrect'
     : null
 
-  const interfaceCard = (label: 'interfaceA' | 'interfaceB') => {
-    const content = currentShowdown.context[label]
+  // The improvement step opens once the verdict and its reasons are right
+  const currentImprovement = currentShowdown.improvementQuestion
+  const showImprovementStep = Boolean(currentImprovement) && currentFeedbackStatus === 'correct'
+  const improvementFeedbackStatus: 'correct' | 'incorrect' | null =
+    showImprovementStep && currentState.improvementOptionId
+      ? isImprovementCorrect(currentShowdown, currentState)
+        ? 'correct'
+        : 'incorrect'
+      : null
+  const currentShowdownCorrect =
+    currentFeedbackStatus === 'correct' && (!currentImprovement || improvementFeedbackStatus === 'correct')
+
+  const interfaces = currentShowdown.context.interfaces
+  // General reasons first, then the reasons about each interface under its name
+  const reasonGroups = [
+    { id: 'general', heading: null, reasons: currentShowdown.reasonOptions.filter((reason) => !reason.interfaceId) },
+    ...interfaces.map((item, index) => ({
+      id: item.id,
+      heading: interfaceLabel(item, index),
+      reasons: currentShowdown.reasonOptions.filter((reason) => reason.interfaceId === item.id),
+    })),
+  ].filter((group) => group.reasons.length > 0)
+
+  const interfaceCard = (content: Showdown['context']['interfaces'][number], index: number) => {
     return (
-      <div className="flex flex-col gap-3 rounded-2xl border border-zinc-200 bg-white/80 p-4 shadow-sm">
-        <div className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">{label === 'interfaceA' ? 'Interface A' : 'Interface B'}</div>
+      <div key={content.id} className="flex flex-col gap-3 rounded-2xl border border-zinc-200 bg-white/80 p-4 shadow-sm">
+        <div className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">{interfaceLabel(content, index)}</div>
         <p className="text-sm font-medium text-zinc-800">{content.summary}</p>
         <ul className="space-y-2 text-sm text-zinc-600">
           {content.details.map((detail) => (
@@ -255,7 +368,7 @@ export function ShowdownSet({
     if (disabled) return
     const showdownId = currentShowdown.id
     if (autoAdvancedRef.current[showdownId]) return
-    if (currentFeedbackStatus !== 'correct') return
+    if (!currentShowdownCorrect) return
     if (isLastShowdown) return
 
     autoAdvancedRef.current[showdownId] = true
@@ -265,7 +378,7 @@ export function ShowdownSet({
 
     return () => clearTimeout(timer)
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentFeedbackStatus, currentShowdown.id, disabled, isLastShowdown])
+  }, [currentShowdownCorrect, currentShowdown.id, disabled, isLastShowdown])
   return (
     <form className="space-y-8" onSubmit={handleSubmitAll}>
       <div className="relative h-1 w-full overflow-hidden rounded-full bg-zinc-100">
@@ -300,54 +413,104 @@ export function ShowdownSet({
           </div>
         </div>
 
-        <div className="grid gap-4 md:grid-cols-2">
-          {interfaceCard('interfaceA')}
-          {interfaceCard('interfaceB')}
+        <div className={`grid gap-4 md:grid-cols-2 ${interfaces.length > 2 ? 'xl:grid-cols-3' : ''}`}>
+          {interfaces.map((item, index) => interfaceCard(item, index))}
         </div>
 
-        <div className="space-y-4">
-          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">Choose the stronger interface</p>
-          <div className="grid gap-3 md:grid-cols-2">
-            {currentShowdown.options.map((option) => {
-              const selected = currentState.optionId === option.id
-              const optionIsCorrect = option.id === currentShowdown.correctOptionId
-              const optionFeedbackClass =
-                selected && currentFeedbackStatus === 'correct'
-                  ? 'border-emerald-500 bg-emerald-50'
-                  : selected && currentFeedbackStatus === 'incorrect'
-                  ? 'border-red-500 bg-red-50'
-                  : selected
-                  ? 'border-zinc-900 bg-zinc-900/5'
-                  : currentFeedbackStatus === 'correct' && optionIsCorrect
-                  ? 'border-emerald-200 bg-emerald-50/60'
-                  : 'border-zinc-200 bg-white hover:border-zinc-300'
-              return (
-                <label
-                  key={option.id}
-                  className={`flex cursor-pointer flex-col gap-2 rounded-2xl border p-4 transition ${
-                    optionFeedbackClass
-                  }`}
-                >
-                  <div className="flex items-center gap-3">
-                    <input
-                      type="radio"
-                      name={`showdown-${currentShowdown.id}-option`}
-                      value={option.id}
-                      checked={selected}
-                      disabled={disabled}
-                      onChange={() => handleOptionChange(currentShowdown.id, option.id)}
-                      className="h-4 w-4 text-zinc-900 focus:ring-zinc-700"
-                    />
-                    <div>
-                      <p className="text-sm font-semibold text-zinc-900">{option.label}</p>
-                      <p className="text-xs text-zinc-600">{option.description}</p>
+        {isRankMode ? (
+          <div className="space-y-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">Rank from strongest to weakest</p>
+            <ol className="space-y-2">
+              {currentState.ranking.map((optionId, index) => {
+                const option = optionById.get(optionId)
+                const rankFeedbackClass =
+                  currentFeedbackStatus === 'correct'
+                    ? 'border-emerald-500 bg-emerald-50'
+                    : currentFeedbackStatus === 'incorrect'
+                    ? 'border-red-300 bg-white'
+                    : 'border-zinc-200 bg-white'
+                return (
+                  <li
+                    key={optionId}
+                    className={`flex items-center gap-3 rounded-2xl border p-3 transition ${rankFeedbackClass}`}
+                  >
+                    <span className="flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full bg-zinc-900 text-xs font-semibold text-white">
+                      {index + 1}
+                    </span>
+                    <div className="flex-1">
+                      <p className="text-sm font-semibold text-zinc-900">{option?.label ?? optionId}</p>
+                      {option && <p className="text-xs text-zinc-600">{option.description}</p>}
                     </div>
-                  </div>
-                </label>
-              )
-            })}
+                    <div className="flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => handleRankMove(currentShowdown.id, index, -1)}
+                        disabled={disabled || index === 0}
+                        aria-label={`Move ${option?.label ?? optionId} up`}
+                        className="rounded-full border border-zinc-200 px-2 py-1 text-xs text-zinc-600 transition hover:border-zinc-300 disabled:cursor-not-allowed disabled:opacity-40"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRankMove(currentShowdown.id, index, 1)}
+                        disabled={disabled || index === currentState.ranking.length - 1}
+                        aria-label={`Move ${option?.label ?? optionId} down`}
+                        className="rounded-full border border-zinc-200 px-2 py-1 text-xs text-zinc-600 transition hover:border-zinc-300 disabled:cursor-not-allowed disabled:opacity-40"
+                      >
+                        ↓
+                      </button>
+                    </div>
+                  </li>
+                )
+              })}
+            </ol>
           </div>
-        </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">Choose the stronger interface</p>
+            <div className="grid gap-3 md:grid-cols-2">
+              {currentShowdown.options.map((option) => {
+                const selected = currentState.optionId === option.id
+                const optionIsCorrect = option.id === currentShowdown.correctOptionId
+                const optionFeedbackClass =
+                  selected && currentFeedbackStatus === 'correct'
+                    ? 'border-emerald-500 bg-emerald-50'
+                    : selected && currentFeedbackStatus === 'incorrect'
+                    ? 'border-red-500 bg-red-50'
+                    : selected
+                    ? 'border-zinc-900 bg-zinc-900/5'
+                    : currentFeedbackStatus === 'correct' && optionIsCorrect
+                    ? 'border-emerald-200 bg-emerald-50/60'
+                    : 'border-zinc-200 bg-white hover:border-zinc-300'
+                return (
+                  <label
+                    key={option.id}
+                    className={`flex cursor-pointer flex-col gap-2 rounded-2xl border p-4 transition ${
+                      optionFeedbackClass
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="radio"
+                        name={`showdown-${currentShowdown.id}-option`}
+                        value={option.id}
+                        checked={selected}
+                        disabled={disabled}
+                        onChange={() => handleOptionChange(currentShowdown.id, option.id)}
+                        className="h-4 w-4 text-zinc-900 focus:ring-zinc-700"
+                      />
+                      <div>
+                        <p className="text-sm font-semibold text-zinc-900">{option.label}</p>
+                        <p className="text-xs text-zinc-600">{option.description}</p>
+                      </div>
+                    </div>
+                  </label>
+                )
+              })}
+            </div>
+          </div>
+        )}
 
         <div className="space-y-3">
           <div className="space-y-1">
@@ -356,8 +519,8 @@ export function ShowdownSet({
             </p>
             <p className="text-xs text-zinc-500">
               {currentReasonStats.requiredReasonCount > 1
-                ? `Choose all ${currentReasonStats.requiredReasonCount} reasons that justify your pick.`
-                : 'Choose the reason that best justifies your pick.'}
+                ? `Choose all ${currentReasonStats.requiredReasonCount} reasons that justify your ${isRankMode ? 'ranking' : 'pick'}.`
+                : `Choose the reason that best justifies your ${isRankMode ? 'ranking' : 'pick'}.`}
             </p>
             <p className="text-xs text-zinc-500">
               {currentReasonStats.hasIncorrectSelection
@@ -365,47 +528,115 @@ export function ShowdownSet({
                 : `Selected ${currentReasonStats.selectedCorrectCount} of ${currentReasonStats.requiredReasonCount} correct reasons.`}
             </p>
           </div>
-          <div className="flex flex-wrap gap-2">
-            {currentShowdown.reasonOptions.map((reason) => {
-              const selected = currentState.reasonIds.includes(reason.id)
-              const isCorrectReason = reason.correct
-              const reasonFeedbackClass =
-                selected
-                  ? isCorrectReason
-                    ? 'border-emerald-500 bg-emerald-500 text-white'
-                    : 'border-red-500 bg-red-50 text-red-700'
-                  : isCorrectReason && currentFeedbackStatus === 'correct'
-                  ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
-                  : 'border-zinc-200 bg-white text-zinc-700 hover:border-zinc-300'
-              return (
-                <button
-                  key={reason.id}
-                  type="button"
-                  onClick={() => handleReasonToggle(currentShowdown.id, reason.id)}
-                  disabled={disabled}
-                  aria-pressed={selected}
-                  className={`rounded-full border px-4 py-2 text-sm font-medium transition ${
-                    reasonFeedbackClass
-                  }`}
-                >
-                  {reason.label}
-                </button>
-              )
-            })}
-          </div>
+          {reasonGroups.map((group) => (
+            <div key={group.id} className="space-y-2">
+              {group.heading && (
+                <p className="text-xs font-semibold text-zinc-600">About {group.heading}</p>
+              )}
+              <div className="flex flex-wrap gap-2">
+                {group.reasons.map((reason) => {
+                  const selected = currentState.reasonIds.includes(reason.id)
+                  const isCorrectReason = reason.correct
+                  const reasonFeedbackClass =
+                    selected
+                      ? isCorrectReason
+                        ? 'border-emerald-500 bg-emerald-500 text-white'
+                        : 'border-red-500 bg-red-50 text-red-700'
+                      : isCorrectReason && currentFeedbackStatus === 'correct'
+                      ? 'border-emerald-200 bg-emerald-50 text-emerald-700'
+                      : 'border-zinc-200 bg-white text-zinc-700 hover:border-zinc-300'
+                  return (
+                    <button
+                      key={reason.id}
+                      type="button"
+                      onClick={() => handleReasonToggle(currentShowdown.id, reason.id)}
+                      disabled={disabled}
+                      aria-pressed={selected}
+                      className={`rounded-full border px-4 py-2 text-sm font-medium transition ${
+                        reasonFeedbackClass
+                      }`}
+                    >
+                      {reason.label}
+                    </button>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
           {currentFeedbackStatus === 'correct' && (
             <div className="flex items-center gap-3 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700" role="status" aria-live="polite">
               <span className="text-sm font-semibold uppercase tracking-[0.2em]">Correct</span>
-              <span>Great justification — {correctOptionLabel} is supported by the right reasons.</span>
+              <span>
+                {isRankMode
+                  ? `Great justification — your ranking, led by ${correctOptionLabel}, is supported by the right reasons.`
+                  : `Great justification — ${correctOptionLabel} is supported by the right reasons.`}
+              </span>
             </div>
           )}
           {currentFeedbackStatus === 'incorrect' && (
             <div className="flex items-center gap-3 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700" role="status" aria-live="polite">
               <span className="text-sm font-semibold uppercase tracking-[0.2em]">Try Again</span>
-              <span>Not quite yet. Revisit which interface is strongest and make sure the reasons fully support it.</span>
+              <span>
+                {isRankMode
+                  ? 'Not quite yet. Revisit the order of the interfaces and make sure the reasons fully support it.'
+                  : 'Not quite yet. Revisit which interface is strongest and make sure the reasons fully support it.'}
+              </span>
             </div>
           )}
         </div>
+
+        {showImprovementStep && currentImprovement && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <p className="text-xs font-semibold uppercase tracking-[0.3em] text-zinc-500">
+                Improve the weaker interface
+              </p>
+              <p className="text-sm text-zinc-600">{currentImprovement.prompt}</p>
+            </div>
+            <div className="grid gap-3">
+              {currentImprovement.options.map((option) => {
+                const selected = currentState.improvementOptionId === option.id
+                const improvementFeedbackClass =
+                  selected && improvementFeedbackStatus === 'correct'
+                    ? 'border-emerald-500 bg-emerald-50'
+                    : selected && improvementFeedbackStatus === 'incorrect'
+                    ? 'border-red-500 bg-red-50'
+                    : 'border-zinc-200 bg-white hover:border-zinc-300'
+                return (
+                  <label
+                    key={option.id}
+                    className={`flex cursor-pointer items-center gap-3 rounded-2xl border p-4 transition ${
+                      improvementFeedbackClass
+                    }`}
+                  >
+                    <input
+                      type="radio"
+                      name={`showdown-${currentShowdown.id}-improvement`}
+                      value={option.id}
+                      checked={selected}
+                      disabled={disabled}
+                      onChange={() => handleImprovementChange(currentShowdown.id, option.id)}
+                      className="h-4 w-4 text-zinc-900 focus:ring-zinc-700"
+                    />
+                    <span className="text-sm font-medium text-zinc-800">{option.label}</span>
+                  </label>
+                )
+              })}
+            </div>
+            {improvementFeedbackStatus === 'correct' && (
+              <div className="flex items-center gap-3 rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700" role="status" aria-live="polite">
+                <span className="text-sm font-semibold uppercase tracking-[0.2em]">Correct</span>
+                <span>That change targets the weakness you identified.</span>
+              </div>
+            )}
+            {improvementFeedbackStatus === 'incorrect' && (
+              <div className="flex items-center gap-3 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700" role="status" aria-live="polite">
+                <span className="text-sm font-semibold uppercase tracking-[0.2em]">Try Again</span>
+                <span>That change would not fix the weakness. Pick the improvement that addresses the reasons above.</span>
+              </div>
+            )}
+          </div>
+        )}
       </section>
 
       <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
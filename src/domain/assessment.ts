@@ -0,0 +1,206 @@
+import { assessmentSchema } from './schema'
+import type { AssessmentManifest, GameSetEntry, GameSpec } from './schema'
+import { toJsonPath } from './diagnostics'
+import type { Diagnostic } from './diagnostics'
+import { migrationDiagnostics } from './lint'
+import type { AppliedMigration } from './migrations'
+import { getGameType, isBuiltInGameSpec, parseGameSpec } from './registry'
+import type { CustomGameSpec } from './registry'
+
+export interface AssessmentIssue extends Diagnostic {
+  source: string // File the path points into (manifest or game set)
+}
+
+export interface GameSetSource {
+  entry: GameSetEntry
+  source: unknown // Migrated to the current schemaVersion
+  migrations?: AppliedMigration[]
+  error?: string // Set when the file could not be loaded
+}
+
+type QuestionUnits = {
+  key: 'questions' | 'showdowns' | 'activities'
+  items: Array<{
+    id: string
+    type?: string
+    omiMapping?: string[]
+    metadata?: { omis?: string[]; difficulty?: number }
+  }>
+}
+
+export interface QuestionSummary {
+  id: string
+  type: string // Single-question type, e.g. "mcq" for each question of an mcq-set
+  omis: string[]
+  difficulty?: number
+}
+
+function questionUnits(spec: GameSpec): QuestionUnits | null {
+  if ('questions' in spec) return { key: 'questions', items: spec.questions }
+  if ('showdowns' in spec) return { key: 'showdowns', items: spec.showdowns }
+  if ('activities' in spec) return { key: 'activities', items: spec.activities }
+  return null
+}
+
+export function countQuestions(spec: GameSpec): number {
+  const units = questionUnits(spec)
+  if (units) return units.items.length
+  if (spec.type === 'fill-in-the-blanks') return spec.sentences.length
+  return 1
+}
+
+/** One entry per question, matching countQuestions, with set-level metadata as the fallback. */
+export function describeQuestions(spec: GameSpec | CustomGameSpec): QuestionSummary[] {
+  const setOmis = spec.metadata?.omis ?? []
+  const setDifficulty = spec.metadata?.difficulty
+  if (!isBuiltInGameSpec(spec)) {
+    // A registered type's units only have ids, so they take the set's metadata
+    const ids = getGameType(spec.type)?.units?.ids(spec) ?? [spec.id]
+    return ids.map((id) => ({ id, type: spec.type, omis: setOmis, difficulty: setDifficulty }))
+  }
+  const units = questionUnits(spec)
+
+  if (units) {
+    const unitType = spec.type.replace(/-set$/, '')
+    return units.items.map((item) => {
+      const omis = [...(item.omiMapping ?? []), ...(item.metadata?.omis ?? [])]
+      return {
+        id: item.id,
+        type: item.type ?? unitType,
+        omis: omis.length > 0 ? Array.from(new Set(omis)) : setOmis,
+        difficulty: item.metadata?.difficulty ?? setDifficulty,
+      }
+    })
+  }
+
+  const omis = 'omiMapping' in spec && spec.omiMapping?.length ? spec.omiMapping : setOmis
+  const ids = spec.type === 'fill-in-the-blanks' ? spec.sentences.map((sentence) => sentence.id) : [spec.id]
+  return ids.map((id) => ({ id, type: spec.type, omis, difficulty: setDifficulty }))
+}
+
+export function collectOmiReferences(spec: GameSpec): Array<{ omiId: string; path: string }> {
+  const references: Array<{ omiId: string; path: string }> = []
+  const push = (omiIds: string[] | undefined, segments: PropertyKey[]) => {
+    omiIds?.forEach((omiId, index) => references.push({ omiId, path: toJsonPath([...segments, index]) }))
+  }
+
+  push(spec.metadata?.omis, ['metadata', 'omis'])
+  if ('omiMapping' in spec) push(spec.omiMapping, ['omiMapping'])
+
+  const units = questionUnits(spec)
+  units?.items.forEach((item, index) => {
+    push(item.omiMapping, [units.key, index, 'omiMapping'])
+    push(item.metadata?.omis, [units.key, index, 'metadata', 'omis'])
+  })
+
+  return references
+}
+
+export function parseAssessment(
+  raw: unknown,
+  source: string,
+): { manifest: AssessmentManifest | null; issues: AssessmentIssue[] } {
+  const parsed = assessmentSchema.safeParse(raw)
+  if (parsed.success) {
+    return { manifest: parsed.data, issues: [] }
+  }
+  return {
+    manifest: null,
+    issues: parsed.error.issues.map((issue) => ({
+      severity: 'error',
+      code: 'invalid-manifest',
+      source,
+      path: toJsonPath(issue.path),
+      message: issue.message,
+    })),
+  }
+}
+
+export function checkAssessmentReferences(
+  manifest: AssessmentManifest,
+  manifestSource: string,
+  gameSets: GameSetSource[],
+): AssessmentIssue[] {
+  const issues: AssessmentIssue[] = []
+  const knownOmis = new Set(manifest.omiList.map((omi) => omi.id))
+  let questionTotal = 0
+  let allCounted = true
+
+  gameSets.forEach(({ entry, source, migrations, error }) => {
+    const index = manifest.gameSets.indexOf(entry)
+
+    if (error) {
+      issues.push({
+        severity: 'error',
+        code: 'missing-game-set',
+        source: manifestSource,
+        path: toJsonPath(['gameSets', index, 'path']),
+        message: `Could not load ${entry.path}: ${error}`,
+      })
+      allCounted = false
+      return
+    }
+
+    migrationDiagnostics(migrations ?? []).forEach((diagnostic) => {
+      issues.push({ ...diagnostic, source: entry.path })
+    })
+
+    const rawType = source && typeof source === 'object' ? (source as { type?: unknown }).type : undefined
+    if (rawType !== entry.type) {
+      issues.push({
+        severity: 'error',
+        code: 'type-mismatch',
+        source: manifestSource,
+        path: toJsonPath(['gameSets', index, 'type']),
+        message: `Manifest lists type "${entry.type}" but ${entry.path} has type "${String(rawType)}".`,
+      })
+    }
+
+    const parsed = parseGameSpec(source)
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        issues.push({
+          severity: 'error',
+          code: 'invalid-game-set',
+          source: entry.path,
+          path: toJsonPath(issue.path),
+          message: issue.message,
+        })
+      })
+      allCounted = false
+      return
+    }
+
+    if (!isBuiltInGameSpec(parsed.data)) {
+      // A registered type counts its progress units and checks its own OMI references
+      questionTotal += getGameType(parsed.data.type)?.units?.ids(parsed.data).length ?? 1
+      return
+    }
+
+    questionTotal += countQuestions(parsed.data)
+
+    collectOmiReferences(parsed.data).forEach(({ omiId, path }) => {
+      if (!knownOmis.has(omiId)) {
+        issues.push({
+          severity: 'warning',
+          code: 'unknown-omi',
+          source: entry.path,
+          path,
+          message: `OMI "${omiId}" is not defined in the assessment omiList.`,
+        })
+      }
+    })
+  })
+
+  if (allCounted && questionTotal !== manifest.metadata.totalQuestions) {
+    issues.push({
+      severity: 'warning',
+      code: 'question-count-mismatch',
+      source: manifestSource,
+      path: toJsonPath(['metadata', 'totalQuestions']),
+      message: `metadata.totalQuestions is ${manifest.metadata.totalQuestions} but the game sets contain ${questionTotal} questions.`,
+    })
+  }
+
+  return issues
+}
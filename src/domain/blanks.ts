@@ -0,0 +1,75 @@
+import type { FillInTheBlanksAnswer, FillInTheBlanksSpec } from './schema'
+
+// Shared by scoring, lint and the fill-in-the-blanks UIs so they agree on what a blank is
+
+type Sentence = FillInTheBlanksSpec['sentences'][number]
+type SentenceResponse = FillInTheBlanksAnswer['answers'][string]
+type BlanksLike = Pick<FillInTheBlanksSpec, 'sentences' | 'mode'>
+
+/** Accepted answers for each blank of a sentence, in order; blank_answer is the single-blank shorthand. */
+export function getSentenceBlanks(sentence: Sentence): string[][] {
+  if (sentence.blanks) return sentence.blanks.map((blank) => blank.answers)
+  return sentence.blank_answer ? [[sentence.blank_answer]] : []
+}
+
+/** The learner's entry for each blank; single-blank sentences may be answered with a plain string. */
+export function getBlankResponses(response: SentenceResponse | undefined): string[] {
+  if (response === undefined) return []
+  return typeof response === 'string' ? [response] : response
+}
+
+/**
+ * Stores one blank's entry, keeping the plain-string form for single-blank
+ * sentences. Returns undefined once every blank of the sentence is empty.
+ */
+export function setBlankResponse(
+  sentence: Sentence,
+  response: SentenceResponse | undefined,
+  blankIndex: number,
+  value: string,
+): SentenceResponse | undefined {
+  const blankCount = getSentenceBlanks(sentence).length
+  const current = getBlankResponses(response)
+  const next = Array.from({ length: blankCount }, (_, index) => (index === blankIndex ? value : (current[index] ?? '')))
+  if (next.every((entry) => !entry.trim())) return undefined
+  return blankCount === 1 ? next[0] : next
+}
+
+// Typed answers ignore case and spacing; dragged words must match exactly
+function normalizeTyped(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+export function isBlankCorrect(mode: FillInTheBlanksSpec['mode'], accepted: string[], response: string | undefined): boolean {
+  if (!response) return false
+  if (mode === 'typed') return accepted.some((answer) => normalizeTyped(answer) === normalizeTyped(response))
+  return accepted.includes(response)
+}
+
+export function isSentenceAnswered(sentence: Sentence, response: SentenceResponse | undefined): boolean {
+  const responses = getBlankResponses(response)
+  return getSentenceBlanks(sentence).every((_, index) => Boolean(responses[index]?.trim()))
+}
+
+export function isSentenceCorrect(
+  spec: Pick<FillInTheBlanksSpec, 'mode'>,
+  sentence: Sentence,
+  response: SentenceResponse | undefined,
+): boolean {
+  const responses = getBlankResponses(response)
+  return getSentenceBlanks(sentence).every((accepted, index) => isBlankCorrect(spec.mode, accepted, responses[index]))
+}
+
+/** Counts correct blanks across every sentence; each blank is worth the same. */
+export function gradeBlanks(spec: BlanksLike, answers: FillInTheBlanksAnswer['answers']) {
+  let correctBlanks = 0
+  let totalBlanks = 0
+  for (const sentence of spec.sentences) {
+    const responses = getBlankResponses(answers[sentence.id])
+    getSentenceBlanks(sentence).forEach((accepted, index) => {
+      totalBlanks++
+      if (isBlankCorrect(spec.mode, accepted, responses[index])) correctBlanks++
+    })
+  }
+  return { correctBlanks, totalBlanks }
+}
@@ -0,0 +1,24 @@
+// Marking for classification items that can belong in several categories, or in none
+
+export interface ItemGrade {
+  credit: number // 0-1
+  missing: string[] // Category ids the item belongs in but was not placed in
+  extra: string[] // Category ids the item was placed in but does not belong in
+}
+
+/**
+ * Credit is the overlap between the placed and expected categories, |both| /
+ * |either|, so each category missed or added wrongly costs the same. An item
+ * that belongs nowhere earns full credit only in the noneBin, which is an
+ * empty placement.
+ */
+export function gradeClassificationItem(expected: string[], placed: string[] | undefined): ItemGrade {
+  if (placed === undefined) {
+    return { credit: 0, missing: expected, extra: [] }
+  }
+  const missing = expected.filter((id) => !placed.includes(id))
+  const extra = placed.filter((id) => !expected.includes(id))
+  const union = new Set([...expected, ...placed]).size
+  const credit = union === 0 ? 1 : (union - missing.length - extra.length) / union
+  return { credit, missing, extra }
+}
@@ -0,0 +1,20 @@
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity
+  code: string
+  path: string // JSON path, e.g. "$.questions[2].options"
+  message: string
+}
+
+export function toJsonPath(segments: ReadonlyArray<PropertyKey>): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') return `${path}[${segment}]`
+    const key = String(segment)
+    return /^[A-Za-z_$][\w$]*$/u.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+  }, '$')
+}
+
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === 'error')
+}
@@ -12,19 +12,51 @@ export interface OMIEvidence {
 export type RendererEvent =
   | { kind: 'ready'; gameId: string }
   | { kind: 'answer.submitted'; gameId: string; payload: AnswerPayload }
-  | { kind: 'evaluate.requested'; gameId: string }
+  | { kind: 'answer.checked'; gameId: string; questionId: string; payload: AnswerPayload } // A set checked one question
+  | { kind: 'evaluate.requested'; gameId: string; payload: AnswerPayload; respond?: EvaluationCallback } // respond is set in host mode
+  | { kind: 'evaluate.timeout'; gameId: string } // Host mode: no result arrived in time
   | { kind: 'time.expired'; gameId: string }
   | { kind: 'omi.evidence'; gameId: string; evidence: OMIEvidence[] }
   | { kind: 'game.completed'; gameId: string; score: number }
 
 export type RendererEventListener = (event: RendererEvent) => void
 
+export interface CriterionResult {
+  id: string
+  label: string
+  met: boolean
+  feedback?: string // Hint shown when the criterion is not met
+}
+
+// One question of a set that allows retries
+export interface QuestionAttempts {
+  questionId: string
+  attempts: number | null // Checks up to and including the first correct one; every check when never correct; null when unknown
+  history: number[] // Accuracy of each checked answer, oldest first
+  credit: number // Share of the question's accuracy kept under the set's retryCredit
+}
+
 export interface EvaluationResult {
   gameId: string
   correct: boolean
   score: number
   feedback?: string
   omiEvidence?: OMIEvidence[] // Evidence for OMIs assessed by this game
+  criteria?: CriterionResult[] // Rubric checks behind the score, e.g. for short answers
+  path?: string[] // Node ids visited in a branching scenario, in order
+  attempts?: QuestionAttempts[] // Sets that allow retries, one entry per question
 }
 
-export type EvaluationCallback = (result: EvaluationResult) => void
+// null gives up on the answer at once, as the timeout would, so the learner can submit again
+export type EvaluationCallback = (result: EvaluationResult | null) => void
+
+// local: the renderer scores answers itself; host: the host scores them and pushes the result back
+export type EvaluationMode = 'local' | 'host'
+
+/** Body of a POST to an HTTP evaluator such as `render-engine serve`, which answers with an EvaluationResult. */
+export interface EvaluationRequest {
+  gameId: string
+  answer: AnswerPayload
+  sessionId?: string // Lets the evaluator count retries across requests from one learner
+  questionId?: string // A check of one question of a set: logged as an attempt, not scored
+}
@@ -0,0 +1,96 @@
+import type { FlashcardGrade, FlashcardsSpec, PairMatchSetSpec } from './schema'
+
+// SM-2 spaced-repetition scheduling for flashcard decks
+
+export interface FlashcardReview {
+  repetitions: number // Reviews in a row recalled since the last lapse
+  intervalDays: number
+  easeFactor: number
+  dueAt: string // ISO timestamp
+  lastReviewedAt: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INITIAL_EASE = 2.5
+const MIN_EASE = 1.3
+
+// SM-2 rates recall from 0 to 5; 3 and above counts as recalled
+const GRADE_QUALITY: Record<FlashcardGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+}
+
+export function isRecalled(grade: FlashcardGrade | undefined): boolean {
+  return grade !== undefined && GRADE_QUALITY[grade] >= 3
+}
+
+/**
+ * The card's next review after grading it. A lapse ("again") restarts the
+ * card and leaves it due straight away; otherwise the interval grows from one
+ * day to six and then by the ease factor.
+ */
+export function scheduleReview(
+  previous: FlashcardReview | undefined,
+  grade: FlashcardGrade,
+  now: Date = new Date(),
+): FlashcardReview {
+  const quality = GRADE_QUALITY[grade]
+  const ease = previous?.easeFactor ?? INITIAL_EASE
+  const easeFactor = Math.max(MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+
+  let repetitions = 0
+  let intervalDays = 0
+  if (quality >= 3) {
+    repetitions = (previous?.repetitions ?? 0) + 1
+    intervalDays =
+      repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round((previous?.intervalDays ?? 6) * easeFactor)
+  }
+
+  return {
+    repetitions,
+    intervalDays,
+    easeFactor,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  }
+}
+
+/** Cards never reviewed are due; others fall due at any time before midnight. */
+export function isDueToday(review: FlashcardReview | undefined, now: Date = new Date()): boolean {
+  if (!review) return true
+  const endOfToday = new Date(now)
+  endOfToday.setHours(23, 59, 59, 999)
+  return new Date(review.dueAt).getTime() <= endOfToday.getTime()
+}
+
+/** Key for a card's review history in the store. */
+export function flashcardKey(deckId: string, cardId: string): string {
+  return `${deckId}/${cardId}`
+}
+
+/**
+ * A deck with one card per pair: the left value on the front and the right
+ * value on the back. Card ids follow the question ids, so review history
+ * survives pairs being added to the end of a question.
+ */
+export function flashcardsFromPairMatchSet(spec: PairMatchSetSpec): FlashcardsSpec {
+  const omiMapping = [...new Set(spec.questions.flatMap((question) => question.omiMapping ?? []))]
+  return {
+    id: `${spec.id}-flashcards`,
+    schemaVersion: spec.schemaVersion,
+    type: 'flashcards',
+    title: spec.title,
+    metadata: spec.metadata,
+    cards: spec.questions.flatMap((question) =>
+      question.pairs.map((pair, index) => ({
+        id: `${question.id}-${index + 1}`,
+        front: pair.left,
+        back: pair.right,
+        hint: question.title,
+      })),
+    ),
+    ...(omiMapping.length > 0 ? { omiMapping } : {}),
+  }
+}
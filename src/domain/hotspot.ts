@@ -0,0 +1,76 @@
+import type { HotspotSpec } from './schema'
+
+// Region geometry for hotspot games; coordinates are percentages of the image size
+
+type HotspotRegion = HotspotSpec['regions'][number]
+type Point = { x: number; y: number }
+
+function polygonPoints(region: HotspotRegion): Point[] {
+  const { shape } = region
+  if (shape.kind === 'polygon') return shape.points
+  return [
+    { x: shape.x, y: shape.y },
+    { x: shape.x + shape.width, y: shape.y },
+    { x: shape.x + shape.width, y: shape.y + shape.height },
+    { x: shape.x, y: shape.y + shape.height },
+  ]
+}
+
+// Ray casting: count edge crossings to the right of the point
+function containsPoint(corners: Point[], point: Point): boolean {
+  let inside = false
+  for (let i = 0, j = corners.length - 1; i < corners.length; j = i++) {
+    const a = corners[i]
+    const b = corners[j]
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+/** Distance from the point to the region's outline, or 0 when the point is inside. */
+export function distanceToRegion(region: HotspotRegion, point: Point): number {
+  const corners = polygonPoints(region)
+  if (containsPoint(corners, point)) return 0
+  return Math.min(...corners.map((corner, index) => distanceToSegment(point, corner, corners[(index + 1) % corners.length])))
+}
+
+export function isOnRegion(region: HotspotRegion, point: Point, tolerance: number): boolean {
+  return distanceToRegion(region, point) <= tolerance
+}
+
+/**
+ * Where a keyboard selection of the region is placed: the middle of its
+ * bounding box, or its first corner when a concave outline leaves the middle outside.
+ */
+export function regionCenter(region: HotspotRegion): Point {
+  const bounds = regionBounds(region)
+  const middle = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+  const corners = polygonPoints(region)
+  return containsPoint(corners, middle) ? middle : corners[0]
+}
+
+export function regionBounds(region: HotspotRegion): { x: number; y: number; width: number; height: number } {
+  const corners = polygonPoints(region)
+  const xs = corners.map((corner) => corner.x)
+  const ys = corners.map((corner) => corner.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+/** The region's outline as an SVG points attribute in the 0–100 viewBox. */
+export function regionOutline(region: HotspotRegion): string {
+  return polygonPoints(region)
+    .map((corner) => `${corner.x},${corner.y}`)
+    .join(' ')
+}
@@ -0,0 +1,106 @@
+import { z } from 'zod'
+import {
+  activitySetSpecSchema,
+  assessmentSchema,
+  classificationSetSpecSchema,
+  fillInTheBlanksSetSpecSchema,
+  fillInTheBlanksSpecSchema,
+  flashcardsSpecSchema,
+  gameSpecSchema,
+  heuristicEvaluationSpecSchema,
+  hotspotSpecSchema,
+  mcqMultiSpecSchema,
+  mcqSetSpecSchema,
+  mcqSpecSchema,
+  numericSetSpecSchema,
+  numericSpecSchema,
+  orderingSetSpecSchema,
+  orderingSpecSchema,
+  pairMatchSetSpecSchema,
+  pairMatchSpecSchema,
+  parsonsSpecSchema,
+  scenarioSpecSchema,
+  shortAnswerSpecSchema,
+  showdownSetSpecSchema,
+} from './schema'
+import type { GameType } from './schema'
+
+// Bump when an exported document changes incompatibly; documents live under /schemas/v{n}/ and
+// earlier versions stay published as they were
+export const JSON_SCHEMA_VERSION = 2
+
+export interface SchemaExport {
+  name: string
+  title: string
+  schema: z.ZodType
+  // Which fixtures the document applies to: one game type, every game type, or manifests
+  accepts: GameType | 'game-spec' | 'assessment'
+}
+
+export const schemaExports: SchemaExport[] = [
+  { name: 'game-spec', title: 'Game spec', schema: gameSpecSchema, accepts: 'game-spec' },
+  { name: 'mcq', title: 'MCQ', schema: mcqSpecSchema, accepts: 'mcq' },
+  { name: 'mcq-multi', title: 'MCQ multi-select', schema: mcqMultiSpecSchema, accepts: 'mcq-multi' },
+  { name: 'mcq-set', title: 'MCQ set', schema: mcqSetSpecSchema, accepts: 'mcq-set' },
+  { name: 'ordering', title: 'Ordering', schema: orderingSpecSchema, accepts: 'ordering' },
+  { name: 'ordering-set', title: 'Ordering set', schema: orderingSetSpecSchema, accepts: 'ordering-set' },
+  { name: 'parsons', title: 'Parsons problem', schema: parsonsSpecSchema, accepts: 'parsons' },
+  { name: 'pair-match', title: 'Pair match', schema: pairMatchSpecSchema, accepts: 'pair-match' },
+  { name: 'pair-match-set', title: 'Pair match set', schema: pairMatchSetSpecSchema, accepts: 'pair-match-set' },
+  {
+    name: 'fill-in-the-blanks',
+    title: 'Fill in the blanks',
+    schema: fillInTheBlanksSpecSchema,
+    accepts: 'fill-in-the-blanks',
+  },
+  {
+    name: 'fill-in-the-blanks-set',
+    title: 'Fill in the blanks set',
+    schema: fillInTheBlanksSetSpecSchema,
+    accepts: 'fill-in-the-blanks-set',
+  },
+  {
+    name: 'classification-set',
+    title: 'Classification set',
+    schema: classificationSetSpecSchema,
+    accepts: 'classification-set',
+  },
+  { name: 'numeric', title: 'Numeric', schema: numericSpecSchema, accepts: 'numeric' },
+  { name: 'numeric-set', title: 'Numeric set', schema: numericSetSpecSchema, accepts: 'numeric-set' },
+  { name: 'short-answer', title: 'Short answer', schema: shortAnswerSpecSchema, accepts: 'short-answer' },
+  { name: 'showdown-set', title: 'Showdown set', schema: showdownSetSpecSchema, accepts: 'showdown-set' },
+  {
+    name: 'heuristic-evaluation',
+    title: 'Heuristic evaluation',
+    schema: heuristicEvaluationSpecSchema,
+    accepts: 'heuristic-evaluation',
+  },
+  { name: 'hotspot', title: 'Hotspot', schema: hotspotSpecSchema, accepts: 'hotspot' },
+  { name: 'flashcards', title: 'Flashcards', schema: flashcardsSpecSchema, accepts: 'flashcards' },
+  { name: 'scenario', title: 'Branching scenario', schema: scenarioSpecSchema, accepts: 'scenario' },
+  { name: 'activity-set', title: 'Activity set', schema: activitySetSpecSchema, accepts: 'activity-set' },
+  { name: 'assessment', title: 'Assessment manifest', schema: assessmentSchema, accepts: 'assessment' },
+]
+
+export function schemaDocumentPath(name: string): string {
+  return `/schemas/v${JSON_SCHEMA_VERSION}/${name}.schema.json`
+}
+
+/**
+ * Converts a Zod schema to a JSON Schema (draft 2020-12) document. Input mode
+ * describes what parse() accepts, which is what generators need to produce.
+ */
+export function toJsonSchemaDocument(entry: SchemaExport, examples: unknown[] = []): Record<string, unknown> {
+  const { $schema, ...schema } = z.toJSONSchema(entry.schema, {
+    target: 'draft-2020-12',
+    io: 'input',
+    reused: 'ref',
+  })
+  return {
+    $schema,
+    $id: schemaDocumentPath(entry.name),
+    title: `${entry.title} (v${JSON_SCHEMA_VERSION})`,
+    ...schema,
+    ...(examples.length > 0 ? { examples } : {}),
+  }
+}
@@ -0,0 +1,705 @@
+import type {
+  ActivitySetSpec,
+  ClassificationSetSpec,
+  FillInTheBlanksSpec,
+  GameSpec,
+  HeuristicEvaluationSpec,
+  HotspotSpec,
+  MCQMultiSpec,
+  MCQSpec,
+  NumericSpec,
+  OrderingSpec,
+  PairMatchSpec,
+  ParsonsSpec,
+  ScenarioSpec,
+  ShortAnswerSpec,
+  ShowdownSetSpec,
+} from './schema'
+import { toJsonPath } from './diagnostics'
+import { isBuiltInGameSpec, parseGameSpec } from './registry'
+import type { CustomGameSpec } from './registry'
+import type { Diagnostic } from './diagnostics'
+import { migrateSpec } from './migrations'
+import { parseUnit } from './units'
+import { getSentenceBlanks } from './blanks'
+import { findScenarioLoop, nodesWithExit, reachableNodeIds } from './scenario'
+import { regionBounds } from './hotspot'
+import type { AppliedMigration, MigrationContext } from './migrations'
+
+export type SpecDiagnosticCode =
+  | 'schema'
+  | 'duplicate-id'
+  | 'duplicate-value'
+  | 'unknown-answer'
+  | 'no-correct-answer'
+  | 'ambiguous-answer'
+  | 'missing-blank'
+  | 'missing-word-bank'
+  | 'missing-word'
+  | 'invalid-order'
+  | 'unreachable-node'
+  | 'no-exit'
+  | 'loop'
+  | 'region-out-of-bounds'
+  | 'asset-path'
+  | 'ignored-field'
+  | 'unsupported-layout'
+  | 'invalid-pattern'
+  | 'invalid-rubric'
+  | 'unknown-unit'
+  | 'migrated'
+  | 'unsupported-version'
+
+export interface SpecDiagnostic extends Diagnostic {
+  code: SpecDiagnosticCode
+}
+
+type Path = PropertyKey[]
+
+// Structural shapes shared by single games and their set/activity counterparts
+type MCQLike = Pick<MCQSpec, 'options' | 'correctOptionId'>
+type MCQMultiLike = Pick<MCQMultiSpec, 'options' | 'correctOptionIds'>
+type OrderingLike = Pick<OrderingSpec, 'items'>
+type PairMatchLike = Pick<PairMatchSpec, 'pairs' | 'distractorsRight' | 'scoring'>
+type NumericLike = Pick<NumericSpec, 'unit' | 'acceptedUnits'>
+type FillInTheBlanksLike = Pick<FillInTheBlanksSpec, 'sentences' | 'word_bank' | 'mode' | 'reuseWords'>
+type ClassificationLike = ClassificationSetSpec['questions'][number]
+type ShowdownLike = ShowdownSetSpec['showdowns'][number]
+
+type DiagnosticCollector = ReturnType<typeof createCollector>
+
+function createCollector() {
+  const diagnostics: SpecDiagnostic[] = []
+
+  const error = (code: SpecDiagnosticCode, path: Path, message: string) => {
+    diagnostics.push({ severity: 'error', code, path: toJsonPath(path), message })
+  }
+
+  const uniqueIds = (items: ReadonlyArray<{ id: string }>, path: Path, label: string) => {
+    const seen = new Set<string>()
+    items.forEach((item, index) => {
+      if (seen.has(item.id)) {
+        error('duplicate-id', [...path, index, 'id'], `Duplicate ${label} id "${item.id}".`)
+      }
+      seen.add(item.id)
+    })
+  }
+
+  const uniqueValues = (values: ReadonlyArray<string>, path: Path, label: string) => {
+    const seen = new Set<string>()
+    values.forEach((value, index) => {
+      if (seen.has(value)) {
+        error('duplicate-value', [...path, index], `Duplicate ${label} "${value}".`)
+      }
+      seen.add(value)
+    })
+  }
+
+  const warn = (code: SpecDiagnosticCode, path: Path, message: string) => {
+    diagnostics.push({ severity: 'warning', code, path: toJsonPath(path), message })
+  }
+
+  return { diagnostics, error, warn, uniqueIds, uniqueValues }
+}
+
+function lintMcq(spec: MCQLike, path: Path, out: DiagnosticCollector) {
+  out.uniqueIds(spec.options, [...path, 'options'], 'option')
+  if (!spec.options.some((option) => option.id === spec.correctOptionId)) {
+    out.error(
+      'unknown-answer',
+      [...path, 'correctOptionId'],
+      `correctOptionId "${spec.correctOptionId}" does not match any option.`,
+    )
+  }
+}
+
+function lintMcqMulti(spec: MCQMultiLike, path: Path, out: DiagnosticCollector) {
+  out.uniqueIds(spec.options, [...path, 'options'], 'option')
+  out.uniqueValues(spec.correctOptionIds, [...path, 'correctOptionIds'], 'correct option id')
+  const optionIds = new Set(spec.options.map((option) => option.id))
+  spec.correctOptionIds.forEach((optionId, index) => {
+    if (!optionIds.has(optionId)) {
+      out.error(
+        'unknown-answer',
+        [...path, 'correctOptionIds', index],
+        `correctOptionIds entry "${optionId}" does not match any option.`,
+      )
+    }
+  })
+  if (spec.options.every((option) => spec.correctOptionIds.includes(option.id))) {
+    out.warn('ambiguous-answer', [...path, 'correctOptionIds'], 'Every option is correct, so selecting all scores full marks.')
+  }
+}
+
+function lintOrdering(spec: OrderingLike, path: Path, out: DiagnosticCollector) {
+  // Items double as answer keys, so duplicates make the order ambiguous
+  out.uniqueValues(spec.items, [...path, 'items'], 'item')
+}
+
+function lintParsons(spec: ParsonsSpec, out: DiagnosticCollector) {
+  out.uniqueIds(spec.lines, ['lines'], 'line')
+  out.uniqueIds(spec.distractors ?? [], ['distractors'], 'distractor')
+  const lineIds = new Set(spec.lines.map((line) => line.id))
+  const lineCodes = new Set(spec.lines.map((line) => line.code.trim()))
+  spec.distractors?.forEach((distractor, index) => {
+    if (lineIds.has(distractor.id)) {
+      out.error('duplicate-id', ['distractors', index, 'id'], `Distractor id "${distractor.id}" is also a line id.`)
+    }
+    // Learners see only the code, so an identical distractor is indistinguishable from the real line
+    if (lineCodes.has(distractor.code.trim())) {
+      out.error('ambiguous-answer', ['distractors', index, 'code'], `Distractor "${distractor.code}" is also a solution line.`)
+    }
+  })
+  spec.alternativeOrders?.forEach((order, orderIndex) => {
+    order.forEach((lineId, index) => {
+      if (!lineIds.has(lineId)) {
+        out.error('unknown-answer', ['alternativeOrders', orderIndex, index], `Line id "${lineId}" does not match any line.`)
+      }
+    })
+    if (order.length !== lineIds.size || new Set(order).size !== order.length) {
+      out.error(
+        'invalid-order',
+        ['alternativeOrders', orderIndex],
+        'An alternative order must list every line id exactly once.',
+      )
+    }
+  })
+}
+
+function lintPairMatch(spec: PairMatchLike, path: Path, out: DiagnosticCollector) {
+  out.uniqueValues(spec.pairs.map((pair) => pair.left), [...path, 'pairs'], 'left value')
+  const rights = new Set(spec.pairs.map((pair) => pair.right))
+  spec.distractorsRight?.forEach((distractor, index) => {
+    if (rights.has(distractor)) {
+      out.error(
+        'ambiguous-answer',
+        [...path, 'distractorsRight', index],
+        `Distractor "${distractor}" is also a correct match.`,
+      )
+    }
+  })
+  lintPairMatchScoring(spec.scoring, spec.distractorsRight, [...path, 'scoring'], out)
+}
+
+function lintPairMatchScoring(
+  scoring: PairMatchSpec['scoring'],
+  distractorsRight: string[] | undefined,
+  path: Path,
+  out: DiagnosticCollector,
+) {
+  if (scoring?.distractorPenalty === undefined) return
+  if (scoring.policy === 'all-or-nothing') {
+    out.warn('ignored-field', [...path, 'distractorPenalty'], 'All-or-nothing scoring gives no partial credit to reduce.')
+  } else if (!distractorsRight?.length) {
+    out.warn('ignored-field', [...path, 'distractorPenalty'], 'There are no distractors to penalise.')
+  }
+}
+
+// Memory cards show only their text, so two cards that read the same cannot be told apart
+function lintMemoryCards(spec: PairMatchLike, path: Path, out: DiagnosticCollector) {
+  const cardTexts = new Set<string>()
+  spec.pairs.forEach((pair, index) => {
+    for (const side of ['left', 'right'] as const) {
+      if (cardTexts.has(pair[side])) {
+        out.error('ambiguous-answer', [...path, 'pairs', index, side], `Two memory cards read "${pair[side]}".`)
+      }
+      cardTexts.add(pair[side])
+    }
+  })
+  if (spec.distractorsRight) {
+    out.warn('ignored-field', [...path, 'distractorsRight'], 'Memory presentation deals no distractor cards.')
+  }
+  if (spec.scoring) {
+    out.warn('ignored-field', [...path, 'scoring'], 'Memory presentation scores the pairs found against the moves taken.')
+  }
+}
+
+function lintFillInTheBlanks(spec: FillInTheBlanksLike, path: Path, out: DiagnosticCollector) {
+  out.uniqueIds(spec.sentences, [...path, 'sentences'], 'sentence')
+  const typed = spec.mode === 'typed'
+  if (!typed && !spec.word_bank) {
+    out.error('missing-word-bank', path, 'Word-bank mode needs a word_bank; set mode to "typed" to type answers instead.')
+  }
+  const bankCounts = new Map<string, number>()
+  spec.word_bank?.forEach((word, index) => {
+    // Repeated words are harmless to scoring but show up twice in the bank
+    if (bankCounts.has(word)) {
+      out.warn('duplicate-value', [...path, 'word_bank', index], `Duplicate word "${word}" in the word_bank.`)
+    }
+    bankCounts.set(word, (bankCounts.get(word) ?? 0) + 1)
+  })
+
+  // Words that are the only bank answer for a blank, and how many blanks need them
+  const neededWords = new Map<string, number>()
+  spec.sentences.forEach((sentence, index) => {
+    const sentencePath = [...path, 'sentences', index]
+    if (sentence.blank_answer !== undefined && sentence.blanks) {
+      out.error('ambiguous-answer', sentencePath, 'Sentence has both blank_answer and blanks; use one.')
+    }
+    const blanks = getSentenceBlanks(sentence)
+    if (blanks.length === 0) {
+      out.error('missing-blank', sentencePath, 'Sentence needs a blank_answer or blanks.')
+    } else if (sentence.text.length !== blanks.length + 1) {
+      out.error(
+        'missing-blank',
+        [...sentencePath, 'text'],
+        `Sentence has ${blanks.length} blank(s) but ${sentence.text.length} text segments; it needs ${blanks.length + 1}.`,
+      )
+    }
+    if (typed || !spec.word_bank) return
+    blanks.forEach((accepted, blankIndex) => {
+      const inBank = accepted.filter((word) => bankCounts.has(word))
+      if (inBank.length === 0) {
+        const answerPath = sentence.blanks ? [...sentencePath, 'blanks', blankIndex, 'answers'] : [...sentencePath, 'blank_answer']
+        out.error('unknown-answer', answerPath, `No accepted answer for blank ${blankIndex + 1} ("${accepted.join('", "')}") is in the word_bank.`)
+      } else if (inBank.length === 1) {
+        neededWords.set(inBank[0], (neededWords.get(inBank[0]) ?? 0) + 1)
+      }
+    })
+  })
+
+  if (!typed && !spec.reuseWords) {
+    neededWords.forEach((needed, word) => {
+      const available = bankCounts.get(word) ?? 0
+      if (needed > available) {
+        out.error(
+          'missing-word',
+          [...path, 'word_bank'],
+          `"${word}" fills ${needed} blanks but appears ${available} time(s) in the word_bank; list it again or set reuseWords.`,
+        )
+      }
+    })
+  }
+}
+
+function lintShortAnswer(spec: ShortAnswerSpec, out: DiagnosticCollector) {
+  spec.acceptedAnswers.forEach((entry, index) => {
+    const path = ['acceptedAnswers', index]
+    if (entry.kind === 'regex') {
+      try {
+        new RegExp(entry.pattern, entry.flags ?? 'i')
+      } catch (error) {
+        out.error('invalid-pattern', [...path, 'pattern'], error instanceof Error ? error.message : 'Invalid regex.')
+      }
+    }
+    if (entry.kind === 'keywords') {
+      const optionalCount = entry.optional?.length ?? 0
+      if ((entry.required?.length ?? 0) === 0 && (entry.minOptional ?? 0) === 0) {
+        out.error('invalid-rubric', path, 'Keyword entry has no required terms and no minOptional, so any answer scores full marks.')
+      }
+      if ((entry.minOptional ?? 0) > optionalCount) {
+        out.error(
+          'invalid-rubric',
+          [...path, 'minOptional'],
+          `minOptional is ${entry.minOptional} but only ${optionalCount} optional terms are listed.`,
+        )
+      }
+    }
+  })
+  // Only the first group containing a term is used, so repeats are dead entries
+  const seen = new Set<string>()
+  spec.synonyms?.forEach((group, groupIndex) => {
+    group.forEach((synonym, index) => {
+      const key = synonym.toLowerCase()
+      if (seen.has(key)) {
+        out.warn('duplicate-value', ['synonyms', groupIndex, index], `Synonym "${synonym}" is listed more than once.`)
+      }
+      seen.add(key)
+    })
+  })
+}
+
+function lintNumeric(spec: NumericLike, path: Path, out: DiagnosticCollector) {
+  const expected = spec.unit ? parseUnit(spec.unit) : null
+  if (spec.unit && !expected) {
+    out.error('unknown-unit', [...path, 'unit'], `Unit "${spec.unit}" is not recognised, so learners cannot match it.`)
+  }
+  if (spec.acceptedUnits && !spec.unit) {
+    out.error('unknown-unit', [...path, 'acceptedUnits'], 'acceptedUnits needs a unit to convert answers into.')
+  }
+  spec.acceptedUnits?.forEach((unit, index) => {
+    const parsed = parseUnit(unit)
+    if (!parsed) {
+      out.error('unknown-unit', [...path, 'acceptedUnits', index], `Unit "${unit}" is not recognised.`)
+    } else if (expected && parsed.base !== expected.base) {
+      out.error('unknown-unit', [...path, 'acceptedUnits', index], `Unit "${unit}" cannot be converted to ${spec.unit}.`)
+    }
+  })
+}
+
+function lintClassification(question: ClassificationLike, path: Path, out: DiagnosticCollector) {
+  out.uniqueIds(question.categories, [...path, 'categories'], 'category')
+  out.uniqueIds(question.items, [...path, 'items'], 'item')
+  const categoryIds = new Set(question.categories.map((category) => category.id))
+  question.items.forEach((item, index) => {
+    const itemPath = [...path, 'items', index, 'correctCategoryIds']
+    out.uniqueValues(item.correctCategoryIds, itemPath, 'category id')
+    item.correctCategoryIds.forEach((categoryId, categoryIndex) => {
+      if (!categoryIds.has(categoryId)) {
+        out.error('unknown-answer', [...itemPath, categoryIndex], `Category "${categoryId}" does not match any category.`)
+      }
+    })
+    if (item.correctCategoryIds.length === 0 && question.noneBin === undefined) {
+      out.error(
+        'no-correct-answer',
+        itemPath,
+        `Item "${item.id}" belongs in no category, so the question needs a noneBin.`,
+      )
+    }
+  })
+  // The layout has fixed circle positions for two and three categories
+  if (question.layout === 'venn' && question.categories.length > 3) {
+    out.error(
+      'unsupported-layout',
+      [...path, 'layout'],
+      `The venn layout draws two or three categories, not ${question.categories.length}.`,
+    )
+  }
+}
+
+function lintShowdown(showdown: ShowdownLike, path: Path, out: DiagnosticCollector) {
+  out.uniqueIds(showdown.context.interfaces, [...path, 'context', 'interfaces'], 'interface')
+  out.uniqueIds(showdown.options, [...path, 'options'], 'option')
+  out.uniqueIds(showdown.reasonOptions, [...path, 'reasonOptions'], 'reason')
+  const optionIds = new Set(showdown.options.map((option) => option.id))
+
+  if (showdown.correctOptionId !== undefined && !optionIds.has(showdown.correctOptionId)) {
+    out.error(
+      'unknown-answer',
+      [...path, 'correctOptionId'],
+      `correctOptionId "${showdown.correctOptionId}" does not match any option.`,
+    )
+  }
+  if (showdown.answerMode === 'rank') {
+    const ranking = showdown.correctRanking
+    if (!ranking) {
+      out.error('no-correct-answer', [...path, 'correctRanking'], 'Rank mode needs a correctRanking.')
+    } else {
+      ranking.forEach((optionId, index) => {
+        if (!optionIds.has(optionId)) {
+          out.error(
+            'unknown-answer',
+            [...path, 'correctRanking', index],
+            `correctRanking entry "${optionId}" does not match any option.`,
+          )
+        }
+      })
+      if (ranking.length !== optionIds.size || new Set(ranking).size !== ranking.length) {
+        out.error('invalid-order', [...path, 'correctRanking'], 'correctRanking must list every option id exactly once.')
+      }
+      if (showdown.correctOptionId !== undefined && showdown.correctOptionId !== ranking[0]) {
+        out.error(
+          'ambiguous-answer',
+          [...path, 'correctOptionId'],
+          `correctOptionId "${showdown.correctOptionId}" is not first in correctRanking.`,
+        )
+      }
+    }
+  } else if (showdown.correctOptionId === undefined) {
+    out.error('no-correct-answer', [...path, 'correctOptionId'], 'Pick mode needs a correctOptionId.')
+  }
+
+  const interfaceIds = new Set(showdown.context.interfaces.map((item) => item.id))
+  showdown.reasonOptions.forEach((reason, index) => {
+    if (reason.interfaceId !== undefined && !interfaceIds.has(reason.interfaceId)) {
+      out.error(
+        'unknown-answer',
+        [...path, 'reasonOptions', index, 'interfaceId'],
+        `interfaceId "${reason.interfaceId}" does not match any interface.`,
+      )
+    }
+  })
+  if (!showdown.reasonOptions.some((reason) => reason.correct)) {
+    out.error('no-correct-answer', [...path, 'reasonOptions'], 'Showdown has no reason marked correct: true.')
+  }
+  if (showdown.improvementQuestion) {
+    out.uniqueIds(showdown.improvementQuestion.options, [...path, 'improvementQuestion', 'options'], 'improvement option')
+    if (!showdown.improvementQuestion.options.some((option) => option.correct)) {
+      out.error(
+        'no-correct-answer',
+        [...path, 'improvementQuestion', 'options'],
+        'Improvement question has no option marked correct: true.',
+      )
+    }
+  }
+}
+
+function lintHeuristicEvaluation(spec: HeuristicEvaluationSpec, out: DiagnosticCollector) {
+  out.uniqueIds(spec.heuristics, ['heuristics'], 'heuristic')
+  // Panels and elements share one id space, since violations can point at either
+  const partIds = new Set<string>()
+  const claimId = (id: string, path: Path) => {
+    if (partIds.has(id)) out.error('duplicate-id', [...path, 'id'], `Duplicate mockup id "${id}".`)
+    partIds.add(id)
+  }
+  spec.mockup.panels.forEach((panel, panelIndex) => {
+    const panelPath = ['mockup', 'panels', panelIndex]
+    claimId(panel.id, panelPath)
+    panel.elements.forEach((element, index) => claimId(element.id, [...panelPath, 'elements', index]))
+  })
+
+  out.uniqueValues(
+    spec.violations.map((violation) => violation.elementId),
+    ['violations'],
+    'violation elementId',
+  )
+  const heuristicIds = new Set(spec.heuristics.map((heuristic) => heuristic.id))
+  spec.violations.forEach((violation, index) => {
+    if (!partIds.has(violation.elementId)) {
+      out.error(
+        'unknown-answer',
+        ['violations', index, 'elementId'],
+        `elementId "${violation.elementId}" does not match any panel or element.`,
+      )
+    }
+    violation.heuristicIds.forEach((heuristicId, heuristicIndex) => {
+      if (!heuristicIds.has(heuristicId)) {
+        out.error(
+          'unknown-answer',
+          ['violations', index, 'heuristicIds', heuristicIndex],
+          `heuristicIds entry "${heuristicId}" does not match any heuristic.`,
+        )
+      }
+    })
+  })
+}
+
+function lintScenario(spec: ScenarioSpec, out: DiagnosticCollector) {
+  out.uniqueIds(spec.nodes, ['nodes'], 'node')
+  const nodeIds = new Set(spec.nodes.map((node) => node.id))
+  if (!nodeIds.has(spec.startNodeId)) {
+    out.error('unknown-answer', ['startNodeId'], `startNodeId "${spec.startNodeId}" does not match any node.`)
+    return
+  }
+
+  spec.nodes.forEach((node, index) => {
+    const path = ['nodes', index]
+    if (node.choices && node.ending) {
+      out.error('ambiguous-answer', path, `Node "${node.id}" has both choices and an ending.`)
+    }
+    if (!node.choices && !node.ending) {
+      out.error('no-exit', path, `Node "${node.id}" has no choices and no ending, so the story stops there.`)
+    }
+    if (node.choices) out.uniqueIds(node.choices, [...path, 'choices'], 'choice')
+    node.choices?.forEach((choice, choiceIndex) => {
+      if (!nodeIds.has(choice.next)) {
+        out.error('unknown-answer', [...path, 'choices', choiceIndex, 'next'], `next "${choice.next}" does not match any node.`)
+      }
+    })
+  })
+
+  const reachable = reachableNodeIds(spec)
+  const withExit = nodesWithExit(spec)
+  spec.nodes.forEach((node, index) => {
+    if (!reachable.has(node.id)) {
+      out.warn('unreachable-node', ['nodes', index], `Node "${node.id}" cannot be reached from the start node.`)
+    } else if (!withExit.has(node.id) && node.choices) {
+      // Dead ends are reported above; this catches loops that never lead to an ending
+      out.error('no-exit', ['nodes', index], `No choice from node "${node.id}" ever leads to an ending.`)
+    }
+  })
+  const loop = findScenarioLoop(spec)
+  if (loop) {
+    out.error(
+      'loop',
+      ['nodes', spec.nodes.findIndex((node) => node.id === loop[0])],
+      `Choices lead in a loop (${loop.join(' → ')}); every choice must move on towards an ending.`,
+    )
+  }
+  if (!spec.nodes.some((node) => reachable.has(node.id) && node.ending?.successful)) {
+    out.warn('no-correct-answer', ['nodes'], 'No reachable ending is marked successful: true.')
+  }
+}
+
+function lintHotspot(spec: HotspotSpec, out: DiagnosticCollector) {
+  out.uniqueIds(spec.regions, ['regions'], 'region')
+  if (spec.mode === 'drag-label') {
+    // Two chips with the same text cannot be told apart
+    const labels = new Set<string>()
+    spec.regions.forEach((region, index) => {
+      if (labels.has(region.label)) {
+        out.error('duplicate-value', ['regions', index, 'label'], `Duplicate region label "${region.label}".`)
+      }
+      labels.add(region.label)
+    })
+  }
+
+  spec.regions.forEach((region, index) => {
+    const bounds = regionBounds(region)
+    if (bounds.x + bounds.width > 100 || bounds.y + bounds.height > 100) {
+      out.error(
+        'region-out-of-bounds',
+        ['regions', index, 'shape'],
+        `Region "${region.id}" extends past the edge of the image; coordinates are percentages (0–100).`,
+      )
+    }
+  })
+
+  // Images ship with the specs so a standard's folder works offline
+  const standard = spec.metadata?.assessmentStandard
+  const assetFolder = standard ? `/specs/${standard}/assets/` : '/specs/'
+  if (!spec.image.src.startsWith(assetFolder) || !spec.image.src.includes('/assets/')) {
+    out.warn(
+      'asset-path',
+      ['image', 'src'],
+      `Image "${spec.image.src}" is not under ${standard ? assetFolder : '/specs/<standard>/assets/'}.`,
+    )
+  }
+}
+
+function lintActivity(activity: ActivitySetSpec['activities'][number], path: Path, out: DiagnosticCollector) {
+  switch (activity.type) {
+    case 'mcq':
+      return lintMcq(activity, path, out)
+    case 'mcq-multi':
+      return lintMcqMulti(activity, path, out)
+    case 'numeric':
+      return lintNumeric(activity, path, out)
+    case 'ordering':
+      return lintOrdering(activity, path, out)
+    case 'pair-match':
+      return lintPairMatch(activity, path, out)
+    case 'fill-in-the-blanks':
+      return lintFillInTheBlanks(activity, path, out)
+  }
+}
+
+/**
+ * Checks the meaning of a schema-valid spec: answer keys that point at real
+ * options, unique ids and at least one correct answer wherever one is needed.
+ */
+export function lintSpec(spec: GameSpec): SpecDiagnostic[] {
+  const out = createCollector()
+
+  switch (spec.type) {
+    case 'mcq':
+      lintMcq(spec, [], out)
+      break
+    case 'mcq-multi':
+      lintMcqMulti(spec, [], out)
+      break
+    case 'ordering':
+      lintOrdering(spec, [], out)
+      break
+    case 'parsons':
+      lintParsons(spec, out)
+      break
+    case 'pair-match':
+      lintPairMatch(spec, [], out)
+      if (spec.presentation === 'memory') lintMemoryCards(spec, [], out)
+      break
+    case 'fill-in-the-blanks':
+      lintFillInTheBlanks(spec, [], out)
+      break
+    case 'short-answer':
+      lintShortAnswer(spec, out)
+      break
+    case 'numeric':
+      lintNumeric(spec, [], out)
+      break
+    case 'numeric-set':
+      out.uniqueIds(spec.questions, ['questions'], 'question')
+      spec.questions.forEach((question, index) => lintNumeric(question, ['questions', index], out))
+      break
+    case 'mcq-set':
+      out.uniqueIds(spec.questions, ['questions'], 'question')
+      spec.questions.forEach((question, index) =>
+        question.type === 'mcq-multi'
+          ? lintMcqMulti(question, ['questions', index], out)
+          : lintMcq(question, ['questions', index], out),
+      )
+      break
+    case 'ordering-set':
+      out.uniqueIds(spec.questions, ['questions'], 'question')
+      spec.questions.forEach((question, index) => lintOrdering(question, ['questions', index], out))
+      break
+    case 'pair-match-set':
+      out.uniqueIds(spec.questions, ['questions'], 'question')
+      if (spec.presentation === 'memory' && spec.scoring) {
+        out.warn('ignored-field', ['scoring'], 'Memory presentation scores the pairs found against the moves taken.')
+      } else {
+        const distractors = spec.questions.flatMap((question) => question.distractorsRight ?? [])
+        lintPairMatchScoring(spec.scoring, distractors, ['scoring'], out)
+      }
+      spec.questions.forEach((question, index) => {
+        lintPairMatch(question, ['questions', index], out)
+        if (spec.presentation === 'memory') lintMemoryCards(question, ['questions', index], out)
+      })
+      break
+    case 'fill-in-the-blanks-set':
+      out.uniqueIds(spec.questions, ['questions'], 'question')
+      spec.questions.forEach((question, index) => lintFillInTheBlanks(question, ['questions', index], out))
+      break
+    case 'classification-set':
+      out.uniqueIds(spec.questions, ['questions'], 'question')
+      spec.questions.forEach((question, index) => lintClassification(question, ['questions', index], out))
+      break
+    case 'showdown-set':
+      out.uniqueIds(spec.showdowns, ['showdowns'], 'showdown')
+      spec.showdowns.forEach((showdown, index) => lintShowdown(showdown, ['showdowns', index], out))
+      break
+    case 'heuristic-evaluation':
+      lintHeuristicEvaluation(spec, out)
+      break
+    case 'scenario':
+      lintScenario(spec, out)
+      break
+    case 'hotspot':
+      lintHotspot(spec, out)
+      break
+    case 'flashcards':
+      out.uniqueIds(spec.cards, ['cards'], 'card')
+      out.uniqueValues(spec.cards.map((card) => card.front), ['cards'], 'card front')
+      break
+    case 'activity-set':
+      out.uniqueIds(spec.activities, ['activities'], 'activity')
+      spec.activities.forEach((activity, index) => lintActivity(activity, ['activities', index], out))
+      break
+  }
+
+  return out.diagnostics
+}
+
+export function migrationDiagnostics(applied: AppliedMigration[]): SpecDiagnostic[] {
+  return applied.flatMap((migration) =>
+    migration.paths.map((path): SpecDiagnostic => ({
+      severity: 'warning',
+      code: 'migrated',
+      path,
+      message: `Upgraded from schemaVersion ${migration.fromVersion}: ${migration.description} Update the file to skip this migration.`,
+    })),
+  )
+}
+
+/** Migration, schema validation and lintSpec, for raw JSON of unknown shape. Registered types skip lintSpec. */
+export function validateSpec(
+  raw: unknown,
+  context: MigrationContext = {},
+): { spec: GameSpec | CustomGameSpec | null; diagnostics: SpecDiagnostic[] } {
+  const migrated = migrateSpec(raw, context)
+  if (migrated.error) {
+    return {
+      spec: null,
+      diagnostics: [{ severity: 'error', code: 'unsupported-version', path: '$.schemaVersion', message: migrated.error }],
+    }
+  }
+
+  const diagnostics = migrationDiagnostics(migrated.applied)
+  const parsed = parseGameSpec(migrated.spec)
+  if (!parsed.success) {
+    return {
+      spec: null,
+      diagnostics: [
+        ...diagnostics,
+        ...parsed.error.issues.map((issue): SpecDiagnostic => ({
+          severity: 'error',
+          code: 'schema',
+          path: toJsonPath(issue.path),
+          message: issue.message,
+        })),
+      ],
+    }
+  }
+  const lint = isBuiltInGameSpec(parsed.data) ? lintSpec(parsed.data) : []
+  return { spec: parsed.data, diagnostics: [...diagnostics, ...lint] }
+}
@@ -0,0 +1,55 @@
+import type { PairMatchSpec } from './schema'
+
+// Concentration rules for the memory presentation of pair-match data
+
+type Pair = PairMatchSpec['pairs'][number]
+
+export interface MemoryCard {
+  key: string
+  pairIndex: number
+  text: string
+}
+
+/**
+ * The most moves a player with perfect recall can need. Every move that finds
+ * no match turns over two unseen cards, and the last two cards always match,
+ * so at most pairCount - 1 moves are wasted.
+ */
+export function memoryPar(pairCount: number): number {
+  return Math.max(1, 2 * pairCount - 1)
+}
+
+/**
+ * Share of pairs found, scaled down by how far the moves went over par. Answers
+ * without a move count are taken to be on par.
+ */
+export function memoryAccuracy(found: number, pairCount: number, moves: number | undefined): number {
+  if (pairCount === 0) return 0
+  const par = memoryPar(pairCount)
+  const efficiency = moves === undefined || moves <= par ? 1 : par / moves
+  return (found / pairCount) * efficiency
+}
+
+/** Pairs the submitted matches got right; memory answers only list pairs found. */
+export function countFoundPairs(pairs: Pair[], matches: ReadonlyArray<{ left: string; right: string }>): number {
+  const expected = new Map(pairs.map((pair) => [pair.left, pair.right]))
+  const seen = new Set<string>()
+  return matches.filter((match) => {
+    if (seen.has(match.left) || expected.get(match.left) !== match.right) return false
+    seen.add(match.left)
+    return true
+  }).length
+}
+
+/** Both cards of every pair, shuffled. */
+export function dealMemoryCards(pairs: Pair[]): MemoryCard[] {
+  const cards = pairs.flatMap((pair, pairIndex) => [
+    { key: `${pairIndex}-left`, pairIndex, text: pair.left },
+    { key: `${pairIndex}-right`, pairIndex, text: pair.right },
+  ])
+  for (let i = cards.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[cards[i], cards[j]] = [cards[j], cards[i]]
+  }
+  return cards
+}
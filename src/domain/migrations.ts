@@ -0,0 +1,196 @@
+import { SPEC_SCHEMA_VERSION } from './schema'
+import type { AssessmentManifest } from './schema'
+import { toJsonPath } from './diagnostics'
+
+type JsonObject = Record<string, unknown>
+type Path = PropertyKey[]
+
+export interface MigrationContext {
+  manifest?: AssessmentManifest // Set when the spec is loaded as one of the manifest's game sets
+}
+
+export interface AppliedMigration {
+  id: string
+  fromVersion: number
+  description: string
+  paths: string[] // JSON paths the migration changed
+}
+
+export interface MigrationResult {
+  spec: unknown
+  fromVersion: number
+  applied: AppliedMigration[]
+  error?: string // Set when the document is newer than this renderer understands
+}
+
+interface Migration {
+  id: string
+  fromVersion: number
+  description: string
+  // Returns null when the document does not need this migration
+  migrate(doc: JsonObject, context: MigrationContext): { doc: JsonObject; paths: Path[] } | null
+}
+
+// Fields owned by assessment.json since game sets moved under a manifest
+const MANIFEST_METADATA_FIELDS = ['subject', 'assessmentStandard', 'level']
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function withoutManifestFields(metadata: JsonObject): JsonObject | undefined {
+  const rest = Object.fromEntries(Object.entries(metadata).filter(([key]) => !MANIFEST_METADATA_FIELDS.includes(key)))
+  return Object.keys(rest).length > 0 ? rest : undefined
+}
+
+function hasManifestFields(value: unknown): value is { metadata: JsonObject } {
+  if (!isObject(value) || !isObject(value.metadata)) return false
+  const metadata = value.metadata
+  return MANIFEST_METADATA_FIELDS.some((key) => key in metadata)
+}
+
+function stripManifestFields<T extends JsonObject>(owner: T): T {
+  const { metadata, ...rest } = owner
+  const remaining = withoutManifestFields(metadata as JsonObject)
+  return (remaining ? { ...rest, metadata: remaining } : rest) as T
+}
+
+const migrations: Migration[] = [
+  {
+    id: 'classification-activities-to-questions',
+    fromVersion: 1,
+    description: 'Renamed classification-set "activities" to "questions".',
+    migrate(doc) {
+      if (doc.type !== 'classification-set' || !Array.isArray(doc.activities) || 'questions' in doc) {
+        return null
+      }
+      const { activities, ...rest } = doc
+      const questions = activities.map((activity) =>
+        isObject(activity) && !('type' in activity) ? { ...activity, type: 'classification' } : activity,
+      )
+      return { doc: { ...rest, questions }, paths: [['activities']] }
+    },
+  },
+  {
+    id: 'metadata-to-manifest',
+    fromVersion: 1,
+    description: 'Removed subject, assessmentStandard and level, which assessment.json now provides.',
+    migrate(doc, context) {
+      if (!context.manifest) return null
+
+      const paths: Path[] = []
+      let next = doc
+      if (hasManifestFields(next)) {
+        next = stripManifestFields(next)
+        paths.push(['metadata'])
+      }
+      for (const key of ['questions', 'activities']) {
+        const units = next[key]
+        if (!Array.isArray(units) || !units.some(hasManifestFields)) continue
+        next = {
+          ...next,
+          [key]: units.map((unit, index) => {
+            if (!hasManifestFields(unit)) return unit
+            paths.push([key, index, 'metadata'])
+            return stripManifestFields(unit)
+          }),
+        }
+      }
+
+      return paths.length > 0 ? { doc: next, paths } : null
+    },
+  },
+  {
+    id: 'showdown-context-to-interfaces',
+    fromVersion: 2,
+    description: 'Replaced showdown context interfaceA and interfaceB with an interfaces array.',
+    migrate(doc) {
+      if (doc.type !== 'showdown-set' || !Array.isArray(doc.showdowns)) return null
+
+      const paths: Path[] = []
+      const showdowns = doc.showdowns.map((showdown, index) => {
+        if (!isObject(showdown) || !isObject(showdown.context) || 'interfaces' in showdown.context) return showdown
+        const { interfaceA, interfaceB, ...context } = showdown.context
+        if (!isObject(interfaceA) || !isObject(interfaceB)) return showdown
+        paths.push(['showdowns', index, 'context'])
+        // The letters match the default card headings, so the cards read as before
+        return {
+          ...showdown,
+          context: { ...context, interfaces: [{ id: 'A', ...interfaceA }, { id: 'B', ...interfaceB }] },
+        }
+      })
+
+      return paths.length > 0 ? { doc: { ...doc, showdowns }, paths } : null
+    },
+  },
+  {
+    id: 'classification-category-ids',
+    fromVersion: 3,
+    description: 'Replaced classification item correctCategoryId with a correctCategoryIds array.',
+    migrate(doc) {
+      if (doc.type !== 'classification-set' || !Array.isArray(doc.questions)) return null
+
+      const paths: Path[] = []
+      const questions = doc.questions.map((question, questionIndex) => {
+        if (!isObject(question) || !Array.isArray(question.items)) return question
+        const items = question.items.map((item, itemIndex) => {
+          if (!isObject(item) || !('correctCategoryId' in item)) return item
+          const { correctCategoryId, ...rest } = item
+          paths.push(['questions', questionIndex, 'items', itemIndex, 'correctCategoryId'])
+          return { ...rest, correctCategoryIds: [correctCategoryId] }
+        })
+        return { ...question, items }
+      })
+
+      return paths.length > 0 ? { doc: { ...doc, questions }, paths } : null
+    },
+  },
+]
+
+/**
+ * Upgrades a raw spec one version at a time up to SPEC_SCHEMA_VERSION and
+ * reports every migration that changed it. Run before gameSpecSchema so
+ * legacy documents validate instead of failing or taking the wrong path.
+ */
+export function migrateSpec(raw: unknown, context: MigrationContext = {}): MigrationResult {
+  if (!isObject(raw)) {
+    return { spec: raw, fromVersion: SPEC_SCHEMA_VERSION, applied: [] }
+  }
+
+  const declared = raw.schemaVersion ?? 1
+  if (typeof declared !== 'number' || !Number.isInteger(declared) || declared < 1) {
+    // Leave it for the schema to reject with a path
+    return { spec: raw, fromVersion: SPEC_SCHEMA_VERSION, applied: [] }
+  }
+  if (declared > SPEC_SCHEMA_VERSION) {
+    return {
+      spec: raw,
+      fromVersion: declared,
+      applied: [],
+      error: `schemaVersion ${declared} is newer than the supported version ${SPEC_SCHEMA_VERSION}.`,
+    }
+  }
+  if (declared === SPEC_SCHEMA_VERSION) {
+    return { spec: raw, fromVersion: declared, applied: [] }
+  }
+
+  let doc = raw
+  const applied: AppliedMigration[] = []
+  for (let version = declared; version < SPEC_SCHEMA_VERSION; version++) {
+    migrations
+      .filter((migration) => migration.fromVersion === version)
+      .forEach((migration) => {
+        const result = migration.migrate(doc, context)
+        if (!result) return
+        doc = result.doc
+        applied.push({
+          id: migration.id,
+          fromVersion: version,
+          description: migration.description,
+          paths: result.paths.map(toJsonPath),
+        })
+      })
+  }
+
+  return { spec: { ...doc, schemaVersion: SPEC_SCHEMA_VERSION }, fromVersion: declared, applied }
+}
@@ -0,0 +1,39 @@
+import type { HeuristicEvaluationSpec, MockupElement, MockupPanel } from './schema'
+
+// Panels and elements share one id space so either can be flagged
+
+export type MockupPart = { kind: 'panel'; panel: MockupPanel } | { kind: 'element'; element: MockupElement }
+
+/** Every panel and element of the mockup by id, in drawing order. */
+export function indexMockup(spec: Pick<HeuristicEvaluationSpec, 'mockup'>): Map<string, MockupPart> {
+  const parts = new Map<string, MockupPart>()
+  for (const panel of spec.mockup.panels) {
+    parts.set(panel.id, { kind: 'panel', panel })
+    for (const element of panel.elements) {
+      parts.set(element.id, { kind: 'element', element })
+    }
+  }
+  return parts
+}
+
+/** Short name for a flagged part, e.g. 'Button "Save"', used in feedback and the flag list. */
+export function describeMockupPart(part: MockupPart | undefined): string {
+  if (!part) return 'Unknown element'
+  if (part.kind === 'panel') return part.panel.title ? `Panel "${part.panel.title}"` : 'Panel'
+
+  const { element } = part
+  switch (element.kind) {
+    case 'heading':
+      return `Heading "${element.text}"`
+    case 'label':
+      return `Label "${element.text}"`
+    case 'button':
+      return element.text ? `Button "${element.text}"` : 'Unlabelled button'
+    case 'input':
+      return element.label ? `Field "${element.label}"` : 'Unlabelled field'
+    case 'error':
+      return `Message "${element.text}"`
+    case 'image':
+      return `Image: ${element.alt}`
+  }
+}
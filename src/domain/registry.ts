@@ -0,0 +1,84 @@
+import type { ComponentType } from 'react'
+import { z } from 'zod'
+import type { EvaluationResult } from './events'
+import { answerPayloadSchema, gameSpecSchema } from './schema'
+import type { AnswerPayload, BaseGameSpec, GameSpec } from './schema'
+
+// Game types registered at runtime, e.g. from a package that ships its own games
+
+/** The fields a registered spec shares with the built-in ones; extend baseGameSpecSchema to get them. */
+export type CustomGameSpec = Omit<BaseGameSpec, 'type'> & { type: string }
+
+export interface CustomAnswerPayload {
+  type: string
+  payload: unknown
+}
+
+/** The props GameRenderer passes to every game component. */
+export interface GameComponentProps<Spec, Answer> {
+  spec: Spec
+  answer?: Answer
+  disabled?: boolean
+  evaluation?: EvaluationResult
+  onAnswerChange: (answer: Answer) => void
+  onSubmit: (answer: Answer) => void
+  onReset: () => void
+}
+
+export interface GameTypeDefinition<Spec extends CustomGameSpec, Answer> {
+  type: string
+  specSchema: z.ZodType<Spec>
+  answerSchema: z.ZodType<Answer>
+  score?: (spec: Spec, answer: Answer) => EvaluationResult // Omit when the host evaluates answers
+  Component: ComponentType<GameComponentProps<Spec, Answer>>
+  display?: { title: string; icon: string } // Library card heading
+  units?: {
+    label: string // Singular noun for one unit of progress, e.g. 'card'
+    ids: (spec: Spec) => string[] // One id per unit, as passed to markQuestionSubmitted
+  }
+}
+
+type RegisteredGameType = GameTypeDefinition<CustomGameSpec, unknown>
+
+const BUILT_IN_TYPES = new Set<string>(gameSpecSchema.options.map((option) => option.shape.type.value))
+const registry = new Map<string, RegisteredGameType>()
+
+/**
+ * Adds a game type that GameRenderer, scoreGame and the library treat like a
+ * built-in one. Register before the first spec of the type is rendered; a type
+ * can be registered once and cannot replace a built-in type.
+ */
+export function registerGameType<Spec extends CustomGameSpec, Answer>(definition: GameTypeDefinition<Spec, Answer>) {
+  if (BUILT_IN_TYPES.has(definition.type)) {
+    throw new Error(`"${definition.type}" is a built-in game type.`)
+  }
+  if (registry.has(definition.type)) {
+    throw new Error(`Game type "${definition.type}" is already registered.`)
+  }
+  // The registry is keyed by type, so each entry only ever sees its own specs and answers
+  registry.set(definition.type, definition as unknown as RegisteredGameType)
+}
+
+export function getGameType(type: string): RegisteredGameType | undefined {
+  return registry.get(type)
+}
+
+export function isBuiltInGameSpec(spec: GameSpec | CustomGameSpec): spec is GameSpec {
+  return BUILT_IN_TYPES.has(spec.type)
+}
+
+const typeOf = (input: unknown) =>
+  input && typeof input === 'object' ? String((input as { type?: unknown }).type) : undefined
+
+/** gameSpecSchema, or the registered schema when the input's type is registered. */
+export function parseGameSpec(input: unknown): z.ZodSafeParseResult<GameSpec | CustomGameSpec> {
+  const definition = getGameType(typeOf(input) ?? '')
+  return definition ? definition.specSchema.safeParse(input) : gameSpecSchema.safeParse(input)
+}
+
+/** answerPayloadSchema, or the registered answer schema when the envelope's type is registered. */
+export function parseAnswerPayload(input: unknown): z.ZodSafeParseResult<AnswerPayload | CustomAnswerPayload> {
+  const definition = getGameType(typeOf(input) ?? '')
+  if (!definition) return answerPayloadSchema.safeParse(input)
+  return z.object({ type: z.literal(definition.type), payload: definition.answerSchema }).strict().safeParse(input)
+}
@@ -0,0 +1,127 @@
+import type { ScenarioAnswer, ScenarioSpec } from './schema'
+
+// Graph helpers shared by scoring, lint and the scenario renderer
+
+type ScenarioNode = ScenarioSpec['nodes'][number]
+type ScenarioChoice = NonNullable<ScenarioNode['choices']>[number]
+type ScenarioGraph = Pick<ScenarioSpec, 'startNodeId' | 'nodes'>
+
+export interface ScenarioStep {
+  node: ScenarioNode
+  choice: ScenarioChoice
+}
+
+export interface ScenarioReplay {
+  steps: ScenarioStep[] // Decisions that follow the graph, in order
+  current: ScenarioNode | undefined // Node the learner is on after the last valid step
+  path: string[] // Node ids visited, starting with startNodeId
+}
+
+/**
+ * Walks the recorded decisions from the start node. Replay stops at the first
+ * step that does not match the current node or one of its choices.
+ */
+export function replayScenario(spec: ScenarioGraph, answer: ScenarioAnswer | undefined): ScenarioReplay {
+  const nodes = new Map(spec.nodes.map((node) => [node.id, node]))
+  let current = nodes.get(spec.startNodeId)
+  const steps: ScenarioStep[] = []
+  const path = current ? [current.id] : []
+
+  for (const step of answer?.path ?? []) {
+    if (!current || step.nodeId !== current.id) break
+    const choice = current.choices?.find((candidate) => candidate.id === step.choiceId)
+    if (!choice) break
+    steps.push({ node: current, choice })
+    current = nodes.get(choice.next)
+    if (current) path.push(current.id)
+  }
+
+  return { steps, current, path }
+}
+
+/** Ids of every node the start node can lead to, including itself. */
+export function reachableNodeIds(spec: ScenarioGraph): Set<string> {
+  const nodes = new Map(spec.nodes.map((node) => [node.id, node]))
+  const reached = new Set<string>()
+  const queue = nodes.has(spec.startNodeId) ? [spec.startNodeId] : []
+  while (queue.length > 0) {
+    const id = queue.shift() as string
+    if (reached.has(id)) continue
+    reached.add(id)
+    nodes.get(id)?.choices?.forEach((choice) => {
+      if (nodes.has(choice.next)) queue.push(choice.next)
+    })
+  }
+  return reached
+}
+
+/** Ids of the nodes from which some sequence of choices reaches an ending. */
+export function nodesWithExit(spec: Pick<ScenarioSpec, 'nodes'>): Set<string> {
+  const withExit = new Set(spec.nodes.filter((node) => node.ending).map((node) => node.id))
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const node of spec.nodes) {
+      if (!withExit.has(node.id) && node.choices?.some((choice) => withExit.has(choice.next))) {
+        withExit.add(node.id)
+        grew = true
+      }
+    }
+  }
+  return withExit
+}
+
+/** Node ids around one loop of choices, ending with the first id again, or null when there is none. */
+export function findScenarioLoop(spec: Pick<ScenarioSpec, 'nodes'>): string[] | null {
+  const nodes = new Map(spec.nodes.map((node) => [node.id, node]))
+  const done = new Set<string>()
+  const route: string[] = []
+  const visit = (id: string): string[] | null => {
+    if (done.has(id) || !nodes.has(id)) return null
+    const onRoute = route.indexOf(id)
+    if (onRoute !== -1) return [...route.slice(onRoute), id]
+    route.push(id)
+    for (const choice of nodes.get(id)?.choices ?? []) {
+      const loop = visit(choice.next)
+      if (loop) return loop
+    }
+    route.pop()
+    done.add(id)
+    return null
+  }
+  for (const node of spec.nodes) {
+    const loop = visit(node.id)
+    if (loop) return loop
+  }
+  return null
+}
+
+/**
+ * The highest total of choice scores on any route from the start to an
+ * ending, or null when no ending can be reached. Each node's best is worked
+ * out once. Lint rejects loops; a choice back into the route being explored is
+ * skipped, so a looping graph still gets an answer.
+ */
+export function bestScenarioScore(spec: ScenarioGraph): number | null {
+  const nodes = new Map(spec.nodes.map((node) => [node.id, node]))
+  const bestFrom = new Map<string, number | null>()
+  const exploring = new Set<string>()
+  const visit = (id: string): number | null => {
+    if (bestFrom.has(id)) return bestFrom.get(id) ?? null
+    const node = nodes.get(id)
+    if (!node || exploring.has(id)) return null
+    if (node.ending) return 0
+    exploring.add(id)
+    let best: number | null = null
+    for (const choice of node.choices ?? []) {
+      const rest = visit(choice.next)
+      if (rest !== null && (best === null || (choice.score ?? 0) + rest > best)) {
+        best = (choice.score ?? 0) + rest
+      }
+    }
+    exploring.delete(id)
+    bestFrom.set(id, best)
+    return best
+  }
+  return visit(spec.startNodeId)
+}
@@ -1,19 +1,32 @@
 import { z } from 'zod'
 
+// Specs without schemaVersion are version 1; migrations.ts upgrades them before validation
+export const SPEC_SCHEMA_VERSION = 4
+
+const schemaVersionSchema = z
+  .literal(SPEC_SCHEMA_VERSION)
+  .optional()
+  .describe('Spec format version; older documents are migrated before validation')
+
 export const metadataSchema = z
   .object({
     subject: z.string().optional(),
     tags: z.array(z.string()).optional(),
-    difficulty: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]).optional(),
-    omis: z.array(z.string()).optional(), // Observable Micro-Indicators
-    assessmentStandard: z.string().optional(), // e.g., "AS92005"
-    level: z.string().optional(), // e.g., "NCEA Level 2"
+    difficulty: z
+      .union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)])
+      .optional()
+      .describe('1 (easiest) to 5 (hardest)'),
+    omis: z.array(z.string()).optional().describe('Observable Micro-Indicator ids assessed by this game'),
+    assessmentStandard: z.string().optional().describe('e.g. "AS92005"'),
+    level: z.string().optional().describe('e.g. "NCEA Level 2"'),
   })
   .strict()
+  .describe('Descriptive metadata used for filtering and OMI tracking')
 
-const baseGameSpecSchema = z
+export const baseGameSpecSchema = z
   .object({
     id: z.string().min(1, 'Game spec requires an id'),
+    schemaVersion: schemaVersionSchema,
     type: z.enum(['mcq', 'ordering', 'pair-match']),
     title: z.string().optional(),
     prompt: z.string().optional(),
@@ -35,10 +48,10 @@ export const mcqSpecSchema = baseGameSpecSchema.extend({
         .strict(),
     )
     .min(2, 'MCQ must provide at least two options'),
-  correctOptionId: z.string().min(1),
-  explanation: z.string().optional(),
-  omiMapping: z.array(z.string()).optional(), // Specific OMIs for this question
-})
+  correctOptionId: z.string().min(1).describe('id of the correct entry in options'),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
+  omiMapping: z.array(z.string()).optional().describe('Specific OMIs for this question'),
+}).describe('Multiple-choice question with a single correct option')
 
 // Individual MCQ question for use in sets
 const mcqQuestionSchema = z.object({
@@ -56,28 +69,107 @@ const mcqQuestionSchema = z.object({
         .strict(),
     )
     .min(2),
-  correctOptionId: z.string().min(1),
-  explanation: z.string().optional(),
+  correctOptionId: z.string().min(1).describe('id of the correct entry in options'),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
   omiMapping: z.array(z.string()).optional(),
 })
 
+// Select-all-that-apply: how a partly correct selection is scored
+export const mcqMultiScoringPolicySchema = z
+  .enum(['all-or-nothing', 'right-minus-wrong', 'partial'])
+  .describe(
+    'all-or-nothing: 1 only for the exact set; right-minus-wrong (default): correct picks minus wrong picks over the number of correct options; partial: share of options classified correctly',
+  )
+
+export const mcqMultiSpecSchema = baseGameSpecSchema.extend({
+  type: z.literal('mcq-multi'),
+  options: z
+    .array(
+      z
+        .object({
+          id: z.string().min(1),
+          text: z.string().min(1),
+        })
+        .strict(),
+    )
+    .min(2, 'MCQ must provide at least two options'),
+  correctOptionIds: z
+    .array(z.string().min(1))
+    .min(1, 'Select-all question needs at least one correct option')
+    .describe('ids of every correct entry in options'),
+  scoringPolicy: mcqMultiScoringPolicySchema.optional(),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
+  omiMapping: z.array(z.string()).optional().describe('Specific OMIs for this question'),
+}).describe('Select-all-that-apply question with one or more correct options')
+
+// Individual select-all question for use in sets
+const mcqMultiQuestionSchema = z.object({
+  id: z.string().min(1),
+  type: z.literal('mcq-multi'),
+  title: z.string().optional(),
+  prompt: z.string().optional(),
+  options: z
+    .array(
+      z
+        .object({
+          id: z.string().min(1),
+          text: z.string().min(1),
+        })
+        .strict(),
+    )
+    .min(2),
+  correctOptionIds: z.array(z.string().min(1)).min(1).describe('ids of every correct entry in options'),
+  scoringPolicy: mcqMultiScoringPolicySchema.optional(),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
+  omiMapping: z.array(z.string()).optional(),
+})
+
+// Sets that let a learner retry a question until it is right
+export const retryCreditSchema = z
+  .array(z.number().min(0).max(1))
+  .min(1)
+  .describe(
+    'Share of a question\'s credit kept when it is first answered correctly on the first, second, … attempt; the last value applies to every later attempt (default [1])',
+  )
+
 // MCQ Set - collection of multiple MCQ questions
 export const mcqSetSpecSchema = z
   .object({
     id: z.string().min(1, 'Question set requires an id'),
+    schemaVersion: schemaVersionSchema,
     type: z.literal('mcq-set'),
     title: z.string().optional(),
     description: z.string().optional(),
     metadata: metadataSchema.optional(),
-    questions: z.array(mcqQuestionSchema).min(1, 'Question set must have at least one question'),
+    retryCredit: retryCreditSchema.optional(),
+    questions: z
+      .array(z.discriminatedUnion('type', [mcqQuestionSchema, mcqMultiQuestionSchema]))
+      .min(1, 'Question set must have at least one question'),
+  })
+  .strict()
+  .describe('Sequence of single-answer and select-all questions scored together')
+
+// Ordering: how a partly correct order is scored
+export const orderingScoringSchema = z
+  .object({
+    policy: z
+      .enum(['exact', 'positional', 'kendall-tau', 'longest-increasing-subsequence', 'adjacent-pairs'])
+      .describe(
+        'exact: 1 only for the exact order; positional (default): share of items in their own position; kendall-tau: share of item pairs in the right order; longest-increasing-subsequence: share of items in the longest run that keeps the right order; adjacent-pairs: share of neighbouring items that are next to each other in the right order',
+      ),
   })
   .strict()
+  .describe('How a partly correct order is scored')
 
 export const orderingSpecSchema = baseGameSpecSchema.extend({
   type: z.literal('ordering'),
-  items: z.array(z.string().min(1)).min(2, 'Ordering game needs at least two items'),
+  items: z
+    .array(z.string().min(1))
+    .min(2, 'Ordering game needs at least two items')
+    .describe('Items in the correct order; the renderer shuffles them'),
   shuffle: z.boolean().optional(),
-})
+  scoring: orderingScoringSchema.optional(),
+}).describe('Put the items into the correct order')
 
 // Individual ordering question for use in sets
 const orderingQuestionSchema = z.object({
@@ -87,21 +179,81 @@ const orderingQuestionSchema = z.object({
   prompt: z.string().optional(),
   items: z.array(z.string().min(1)).min(2, 'Ordering game needs at least two items'),
   shuffle: z.boolean().optional(),
+  scoring: orderingScoringSchema.optional(),
   omiMapping: z.array(z.string()).optional(),
 })
 
 export const orderingSetSpecSchema = z
   .object({
     id: z.string().min(1),
+    schemaVersion: schemaVersionSchema,
     type: z.literal('ordering-set'),
     title: z.string().optional(),
     description: z.string().optional(),
     metadata: metadataSchema.optional(),
+    scoring: orderingScoringSchema.optional().describe('Applies to every question without its own'),
+    retryCredit: retryCreditSchema.optional(),
     questions: z
       .array(orderingQuestionSchema)
       .min(1, 'Question set must have at least one question'),
   })
   .strict()
+  .describe('Sequence of ordering questions scored together')
+
+// Parsons problem: assemble a program from shuffled code lines
+const parsonsLineSchema = z
+  .object({
+    id: z.string().min(1),
+    code: z.string().min(1).describe('The line without its leading indentation'),
+    indent: z.number().int().nonnegative().optional().describe('Indentation level in the solution (default 0)'),
+  })
+  .strict()
+
+const parsonsDistractorSchema = z
+  .object({
+    id: z.string().min(1),
+    code: z.string().min(1),
+    feedback: z.string().optional().describe('Why the line does not belong, shown when it is used'),
+  })
+  .strict()
+
+export const parsonsSpecSchema = baseGameSpecSchema.extend({
+  type: z.literal('parsons'),
+  language: z.string().optional().describe('e.g. "python"; used as a label only'),
+  lines: z
+    .array(parsonsLineSchema)
+    .min(2, 'Parsons problem needs at least two lines')
+    .describe('Solution lines in the correct order; the renderer shuffles them'),
+  distractors: z.array(parsonsDistractorSchema).optional().describe('Lines that must be left out of the program'),
+  alternativeOrders: z
+    .array(z.array(z.string().min(1)))
+    .optional()
+    .describe('Other accepted orders of the line ids, for lines that can swap places'),
+  gradeIndentation: z.boolean().optional().describe('Whether indentation counts towards the score (default true)'),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
+  omiMapping: z.array(z.string()).optional().describe('Specific OMIs for this question'),
+}).describe('Build a program by ordering and indenting code lines')
+
+const pairMatchPresentationSchema = z
+  .enum(['columns', 'memory'])
+  .optional()
+  .describe('columns (default): pick a match for each left value; memory: turn cards over two at a time to find the pairs')
+
+// Pair match: how a partly correct set of matches is scored
+export const pairMatchScoringSchema = z
+  .object({
+    policy: z
+      .enum(['all-or-nothing', 'per-pair'])
+      .describe('all-or-nothing: 1 only when every pair is matched; per-pair (default): share of pairs matched correctly'),
+    distractorPenalty: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe("per-pair: how many pairs' worth of credit each match to a distractor costs (default 1)"),
+  })
+  .strict()
+  .describe('How a partly correct set of matches is scored; memory presentation scores by moves instead')
 
 export const pairMatchSpecSchema = baseGameSpecSchema.extend({
   type: z.literal('pair-match'),
@@ -115,8 +267,13 @@ export const pairMatchSpecSchema = baseGameSpecSchema.extend({
         .strict(),
     )
     .min(1, 'Pair match requires at least one pair'),
-  distractorsRight: z.array(z.string().min(1)).optional(),
-})
+  distractorsRight: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Extra right-hand values that match nothing'),
+  presentation: pairMatchPresentationSchema,
+  scoring: pairMatchScoringSchema.optional(),
+}).describe('Match each left value to its right value')
 
 // Individual pair-match question for use in sets
 const pairMatchQuestionSchema = z.object({
@@ -134,39 +291,69 @@ const pairMatchQuestionSchema = z.object({
     )
     .min(1, 'Pair match requires at least one pair'),
   distractorsRight: z.array(z.string().min(1)).optional(),
+  scoring: pairMatchScoringSchema.optional(),
   omiMapping: z.array(z.string()).optional(),
 })
 
 export const pairMatchSetSpecSchema = z
   .object({
     id: z.string().min(1),
+    schemaVersion: schemaVersionSchema,
     type: z.literal('pair-match-set'),
     title: z.string().optional(),
     description: z.string().optional(),
+    timeLimitSec: z.number().int().positive().optional(),
     metadata: metadataSchema.optional(),
+    presentation: pairMatchPresentationSchema,
+    scoring: pairMatchScoringSchema.optional().describe('Applies to every question without its own'),
     questions: z
       .array(pairMatchQuestionSchema)
       .min(1, 'Question set must have at least one question'),
   })
   .strict()
+  .describe('Sequence of pair-match questions scored together')
 
 // Fill-in-the-blanks game
+const blankSchema = z
+  .object({
+    answers: z
+      .array(z.string().min(1))
+      .min(1)
+      .describe('Accepted answers for this blank; in word-bank mode at least one must appear in word_bank'),
+  })
+  .strict()
+
 const sentenceSchema = z.object({
   id: z.string().min(1),
-  text: z.array(z.string()), // Array of text segments with blank positions
-  blank_answer: z.string().min(1), // The correct answer for the blank
+  text: z.array(z.string()).describe('Text segments; blank i sits between segments i and i + 1'),
+  blank_answer: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Shorthand for a single blank with one answer; must appear in word_bank'),
+  blanks: z.array(blankSchema).min(1).optional().describe('One entry per blank, in order; use instead of blank_answer'),
 })
 
 export const fillInTheBlanksSpecSchema = baseGameSpecSchema.extend({
   type: z.literal('fill-in-the-blanks'),
+  mode: z
+    .enum(['word-bank', 'typed'])
+    .optional()
+    .describe('word-bank (default): drag words from word_bank; typed: type each answer, ignoring case and spacing'),
   sentences: z.array(sentenceSchema).min(1, 'At least one sentence required'),
-  word_bank: z.array(z.string().min(1)).min(1, 'Word bank must have at least one word'),
-  omiMapping: z.array(z.string()).optional(), // Specific OMIs for this question
-})
+  word_bank: z
+    .array(z.string().min(1))
+    .min(1, 'Word bank must have at least one word')
+    .optional()
+    .describe('Required in word-bank mode'),
+  reuseWords: z.boolean().optional().describe('Let a word-bank word fill more than one blank'),
+  omiMapping: z.array(z.string()).optional().describe('Specific OMIs for this question'),
+}).describe('Fill the blanks in each sentence from a word bank or by typing')
 
 export const fillInTheBlanksSetSpecSchema = z
   .object({
     id: z.string().min(1),
+    schemaVersion: schemaVersionSchema,
     type: z.literal('fill-in-the-blanks-set'),
     title: z.string().optional(),
     description: z.string().optional(),
@@ -176,6 +363,124 @@ export const fillInTheBlanksSetSpecSchema = z
       .min(1, 'Fill in the blanks set must have at least one question'),
   })
   .strict()
+  .describe('Sequence of fill-in-the-blanks questions scored together')
+
+// Short answer: free text checked against a local rubric
+const keywordSchema = z.union([
+  z.string().min(1),
+  z
+    .object({
+      term: z.string().min(1),
+      hint: z.string().optional().describe('Feedback shown when the term is missing'),
+    })
+    .strict(),
+])
+
+const acceptedAnswerSchema = z
+  .discriminatedUnion('kind', [
+    z
+      .object({
+        kind: z.literal('exact'),
+        value: z.string().min(1),
+        caseSensitive: z.boolean().optional(),
+      })
+      .strict(),
+    z
+      .object({
+        kind: z.literal('regex'),
+        pattern: z.string().min(1),
+        flags: z.string().regex(/^[imsu]*$/, 'Only the i, m, s and u flags are allowed').optional(),
+      })
+      .strict(),
+    z
+      .object({
+        kind: z.literal('keywords'),
+        required: z.array(keywordSchema).optional().describe('Terms the answer must mention'),
+        optional: z.array(keywordSchema).optional().describe('Terms that earn credit towards minOptional'),
+        minOptional: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe('How many optional terms full marks needs (default 0)'),
+      })
+      .strict(),
+  ])
+  .describe('One way to earn credit: an exact string, a regex or a keyword set')
+
+export const shortAnswerSpecSchema = baseGameSpecSchema.extend({
+  type: z.literal('short-answer'),
+  acceptedAnswers: z
+    .array(acceptedAnswerSchema)
+    .min(1, 'Short answer needs at least one accepted answer')
+    .describe('Rubric entries; the best-matching entry sets the score'),
+  synonyms: z
+    .array(z.array(z.string().min(1)).min(2))
+    .optional()
+    .describe('Groups of interchangeable words or phrases used when matching'),
+  typoTolerance: z
+    .number()
+    .int()
+    .min(0)
+    .max(3)
+    .optional()
+    .describe('Letters that may differ per word of four or more letters (default 1)'),
+  maxLength: z.number().int().positive().optional(),
+  sampleAnswer: z.string().optional().describe('Model answer shown after submission'),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
+  omiMapping: z.array(z.string()).optional().describe('Specific OMIs for this question'),
+}).describe('Explain in your own words; scored locally against a rubric')
+
+// Numeric answer: a computed value checked with tolerance, significant figures and units
+const numericToleranceSchema = z
+  .object({
+    absolute: z.number().nonnegative().optional().describe('Largest allowed difference, in the answer unit'),
+    relative: z.number().nonnegative().optional().describe('Largest allowed difference as a fraction of the answer, e.g. 0.05'),
+  })
+  .strict()
+  .describe('The larger of the two applies; without a tolerance the value must match exactly')
+
+export const numericSpecSchema = baseGameSpecSchema.extend({
+  type: z.literal('numeric'),
+  answer: z.number().describe('Correct value, expressed in unit'),
+  unit: z.string().min(1).optional().describe('Unit of answer, e.g. "A" or "kΩ"; omit for unitless answers'),
+  acceptedUnits: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Units learners may answer in, converted before comparing; defaults to any prefix of unit'),
+  tolerance: numericToleranceSchema.optional(),
+  sigFigs: z.number().int().min(1).max(10).optional().describe('Significant figures the answer must be given to'),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
+  omiMapping: z.array(z.string()).optional().describe('Specific OMIs for this question'),
+}).describe('Calculate a value, optionally with a unit; scored with tolerance and unit conversion')
+
+// Individual numeric question for use in sets
+const numericQuestionSchema = z.object({
+  id: z.string().min(1),
+  type: z.literal('numeric'),
+  title: z.string().optional(),
+  prompt: z.string().optional(),
+  answer: z.number().describe('Correct value, expressed in unit'),
+  unit: z.string().min(1).optional(),
+  acceptedUnits: z.array(z.string().min(1)).optional(),
+  tolerance: numericToleranceSchema.optional(),
+  sigFigs: z.number().int().min(1).max(10).optional(),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
+  omiMapping: z.array(z.string()).optional(),
+})
+
+export const numericSetSpecSchema = z
+  .object({
+    id: z.string().min(1, 'Question set requires an id'),
+    schemaVersion: schemaVersionSchema,
+    type: z.literal('numeric-set'),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    metadata: metadataSchema.optional(),
+    questions: z.array(numericQuestionSchema).min(1, 'Question set must have at least one question'),
+  })
+  .strict()
+  .describe('Sequence of numeric questions scored together')
 
 // Classification game
 const categorySchema = z.object({
@@ -186,7 +491,10 @@ const categorySchema = z.object({
 const classificationItemSchema = z.object({
   id: z.string().min(1),
   text: z.string().min(1),
-  correctCategoryId: z.string().min(1),
+  correctCategoryIds: z
+    .array(z.string().min(1))
+    .describe('ids of every category the item belongs in; empty for an item that belongs in the noneBin'),
+  explanation: z.string().optional().describe('Shown with the item after marking when it is misplaced'),
 })
 
 const classificationQuestionSchema = z.object({
@@ -196,12 +504,22 @@ const classificationQuestionSchema = z.object({
   prompt: z.string().optional(),
   categories: z.array(categorySchema).min(2, 'Classification needs at least two categories'),
   items: z.array(classificationItemSchema).min(1, 'Classification needs at least one item'),
+  noneBin: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Label of a bin for items that belong in no category, e.g. "Doesn\'t belong"'),
+  layout: z
+    .enum(['bins', 'venn'])
+    .optional()
+    .describe('bins (default): one box per category; venn: overlapping circles, for two or three categories'),
   omiMapping: z.array(z.string()).optional(),
 })
 
 export const classificationSetSpecSchema = z
   .object({
     id: z.string().min(1),
+    schemaVersion: schemaVersionSchema,
     type: z.literal('classification-set'),
     title: z.string().optional(),
     description: z.string().optional(),
@@ -211,22 +529,24 @@ export const classificationSetSpecSchema = z
       .min(1, 'Classification set must have at least one question'),
   })
   .strict()
+  .describe('Sort items into categories, one question at a time')
 
 // Showdown set: comparative reasoning prompts
+const showdownInterfaceSchema = z
+  .object({
+    id: z.string().min(1),
+    label: z.string().optional().describe('Card heading (default "Interface A", "Interface B", … in order)'),
+    summary: z.string().min(1),
+    details: z.array(z.string().min(1)).min(1),
+  })
+  .strict()
+
 const showdownContextSchema = z
   .object({
-    interfaceA: z
-      .object({
-        summary: z.string().min(1),
-        details: z.array(z.string().min(1)).min(1),
-      })
-      .strict(),
-    interfaceB: z
-      .object({
-        summary: z.string().min(1),
-        details: z.array(z.string().min(1)).min(1),
-      })
-      .strict(),
+    interfaces: z
+      .array(showdownInterfaceSchema)
+      .min(2, 'Showdown must compare at least two interfaces')
+      .describe('The alternatives being compared, in display order'),
   })
   .strict()
 
@@ -243,6 +563,7 @@ const showdownReasonSchema = z
     id: z.string().min(1),
     label: z.string().min(1),
     correct: z.boolean(),
+    interfaceId: z.string().optional().describe('Shows the reason under this interface; omit for reasons about the comparison as a whole'),
   })
   .strict()
 
@@ -270,8 +591,16 @@ const showdownSchema = z
     prompt: z.string().min(1),
     context: showdownContextSchema,
     options: z.array(showdownOptionSchema).min(2),
-    correctOptionId: z.string().min(1),
-    reasonOptions: z.array(showdownReasonSchema).min(2),
+    answerMode: z
+      .enum(['pick', 'rank'])
+      .optional()
+      .describe('pick (default): choose the strongest option; rank: order every option from strongest to weakest'),
+    correctOptionId: z.string().min(1).optional().describe('id of the strongest option; required in pick mode'),
+    correctRanking: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('Every option id from strongest to weakest; required in rank mode'),
+    reasonOptions: z.array(showdownReasonSchema).min(2).describe('At least one reason must be correct'),
     improvementQuestion: showdownImprovementSchema.optional(),
     omiMapping: z.array(z.string()).optional(),
   })
@@ -280,17 +609,205 @@ const showdownSchema = z
 export const showdownSetSpecSchema = z
   .object({
     id: z.string().min(1),
+    schemaVersion: schemaVersionSchema,
     type: z.literal('showdown-set'),
     title: z.string().optional(),
     description: z.string().optional(),
     metadata: metadataSchema.optional(),
+    retryCredit: retryCreditSchema.optional(),
     showdowns: z.array(showdownSchema).min(1, 'Showdown set must have at least one showdown'),
   })
   .strict()
+  .describe('Compare two or more interfaces, pick or rank them and justify the verdict')
+
+// Hotspot: mark regions of an image; coordinates are percentages of the image size
+const percentSchema = z.number().min(0).max(100)
+
+const hotspotShapeSchema = z
+  .discriminatedUnion('kind', [
+    z
+      .object({
+        kind: z.literal('rect'),
+        x: percentSchema.describe('Left edge'),
+        y: percentSchema.describe('Top edge'),
+        width: z.number().positive().max(100),
+        height: z.number().positive().max(100),
+      })
+      .strict(),
+    z
+      .object({
+        kind: z.literal('polygon'),
+        points: z
+          .array(z.object({ x: percentSchema, y: percentSchema }).strict())
+          .min(3, 'Polygon needs at least three points')
+          .describe('Corners in order around the outline'),
+      })
+      .strict(),
+  ])
+  .describe('Region outline in percent of the image width and height')
+
+const hotspotRegionSchema = z
+  .object({
+    id: z.string().min(1),
+    label: z.string().min(1).describe('Name of the part; the draggable label in drag-label mode'),
+    prompt: z.string().optional().describe('Click-mode instruction (default "Click the <label>.")'),
+    shape: hotspotShapeSchema,
+  })
+  .strict()
+
+export const hotspotSpecSchema = baseGameSpecSchema.extend({
+  type: z.literal('hotspot'),
+  image: z
+    .object({
+      src: z.string().min(1).describe('e.g. "/specs/AS92006/assets/storefront.svg"'),
+      alt: z.string().min(1).describe('Describes the image for screen reader users'),
+    })
+    .strict(),
+  mode: z.enum(['click', 'drag-label']).describe('Click each region in turn, or drag each label onto its region'),
+  regions: z.array(hotspotRegionSchema).min(1, 'Hotspot needs at least one region'),
+  tolerance: z
+    .number()
+    .nonnegative()
+    .max(20)
+    .optional()
+    .describe('How far outside a region a mark still counts, in percent of the image size (default 2)'),
+  explanation: z.string().optional().describe('Shown after an incorrect answer'),
+  omiMapping: z.array(z.string()).optional().describe('Specific OMIs for this question'),
+}).describe('Find or label the parts of an image')
+
+// Flashcards: self-graded revision cards scheduled by spaced repetition
+const flashcardSchema = z
+  .object({
+    id: z.string().min(1).describe('Stable id; review history is stored against it'),
+    front: z.string().min(1),
+    back: z.string().min(1),
+    hint: z.string().optional().describe('Offered before the card is turned over'),
+  })
+  .strict()
+
+export const flashcardsSpecSchema = baseGameSpecSchema.extend({
+  type: z.literal('flashcards'),
+  cards: z.array(flashcardSchema).min(1, 'Flashcards need at least one card'),
+  omiMapping: z.array(z.string()).optional().describe('Specific OMIs for this deck'),
+}).describe('Recall the back of each card, then grade how well you remembered it')
+
+// Branching scenario: a graph of decision nodes that ends at one of several outcomes
+const scenarioChoiceSchema = z
+  .object({
+    id: z.string().min(1),
+    text: z.string().min(1),
+    next: z.string().min(1).describe('id of the node this choice leads to'),
+    score: z.number().optional().describe('Points added when the choice is taken (default 0)'),
+    feedback: z.string().optional().describe('Shown right after the choice is made'),
+  })
+  .strict()
+
+const scenarioNodeSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().optional(),
+    text: z.string().min(1).describe('What happens at this point of the story'),
+    choices: z.array(scenarioChoiceSchema).min(1).optional().describe('Decisions offered here; omit on endings'),
+    ending: z
+      .object({
+        successful: z.boolean().describe('Whether reaching this ending counts as handling the scenario well'),
+        feedback: z.string().min(1),
+      })
+      .strict()
+      .optional()
+      .describe('Makes the node terminal'),
+    omiMapping: z.array(z.string()).optional().describe('OMIs assessed by the decision made at this node'),
+  })
+  .strict()
+
+export const scenarioSpecSchema = baseGameSpecSchema.extend({
+  type: z.literal('scenario'),
+  startNodeId: z.string().min(1).describe('id of the node the story starts at'),
+  nodes: z.array(scenarioNodeSchema).min(2, 'Scenario needs at least two nodes'),
+}).describe('Branching story where each decision leads to another node until an ending')
+
+// Heuristic evaluation: flag the parts of a mocked-up interface that break a heuristic
+const mockupStyleShape = {
+  id: z.string().min(1),
+  color: z.string().optional().describe('CSS colour of the text, e.g. "#999999"'),
+  background: z.string().optional().describe('CSS background colour'),
+  size: z.enum(['small', 'medium', 'large']).optional().describe('Text size (default medium)'),
+}
+
+const mockupElementSchema = z
+  .discriminatedUnion('kind', [
+    z.object({ ...mockupStyleShape, kind: z.literal('heading'), text: z.string().min(1) }).strict(),
+    z.object({ ...mockupStyleShape, kind: z.literal('label'), text: z.string().min(1) }).strict(),
+    z
+      .object({
+        ...mockupStyleShape,
+        kind: z.literal('button'),
+        text: z.string(),
+        variant: z.enum(['primary', 'secondary', 'disabled']).optional(),
+      })
+      .strict(),
+    z
+      .object({
+        ...mockupStyleShape,
+        kind: z.literal('input'),
+        label: z.string().optional(),
+        placeholder: z.string().optional(),
+        value: z.string().optional(),
+      })
+      .strict(),
+    z.object({ ...mockupStyleShape, kind: z.literal('error'), text: z.string().min(1) }).strict(),
+    z
+      .object({ ...mockupStyleShape, kind: z.literal('image'), alt: z.string().min(1).describe('What the placeholder shows') })
+      .strict(),
+  ])
+  .describe('One drawn part of the mockup')
+
+const mockupPanelSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().optional(),
+    layout: z.enum(['column', 'row']).optional().describe('How the elements are laid out (default column)'),
+    background: z.string().optional().describe('CSS background colour'),
+    elements: z.array(mockupElementSchema).min(1, 'Panel needs at least one element'),
+  })
+  .strict()
+
+const heuristicSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string().optional(),
+  })
+  .strict()
+
+const seededViolationSchema = z
+  .object({
+    elementId: z.string().min(1).describe('id of the panel or element that breaks the heuristic'),
+    heuristicIds: z.array(z.string().min(1)).min(1).describe('Heuristics accepted as the tag for this element'),
+    explanation: z.string().optional().describe('Shown after submission when the violation is missed or mistagged'),
+  })
+  .strict()
+
+export const heuristicEvaluationSpecSchema = baseGameSpecSchema.extend({
+  type: z.literal('heuristic-evaluation'),
+  heuristics: z.array(heuristicSchema).min(2, 'Heuristic evaluation needs at least two heuristics to choose from'),
+  mockup: z
+    .object({
+      title: z.string().optional().describe('Shown in the window title bar'),
+      panels: z.array(mockupPanelSchema).min(1, 'Mockup needs at least one panel'),
+    })
+    .strict(),
+  violations: z
+    .array(seededViolationSchema)
+    .min(1, 'Heuristic evaluation needs at least one seeded violation')
+    .describe('The answer key; one entry per element that breaks a heuristic'),
+}).describe('Click the parts of an interface mockup that break a usability heuristic and tag each one')
 
 // Activity-set: Mixed game types in one collection
 const activitySchema = z.discriminatedUnion('type', [
   mcqQuestionSchema,
+  mcqMultiQuestionSchema,
+  numericQuestionSchema,
   orderingQuestionSchema,
   pairMatchQuestionSchema,
   fillInTheBlanksSpecSchema,
@@ -299,6 +816,7 @@ const activitySchema = z.discriminatedUnion('type', [
 export const activitySetSpecSchema = z
   .object({
     id: z.string().min(1),
+    schemaVersion: schemaVersionSchema,
     type: z.literal('activity-set'),
     title: z.string().optional(),
     description: z.string().optional(),
@@ -308,45 +826,139 @@ export const activitySetSpecSchema = z
       .min(1, 'Activity set must have at least one activity'),
   })
   .strict()
+  .describe('Mixed mcq, mcq-multi, numeric, ordering, pair-match and fill-in-the-blanks activities')
 
 export const gameSpecSchema = z.discriminatedUnion('type', [
   mcqSpecSchema, 
+  mcqMultiSpecSchema,
   orderingSpecSchema, 
+  parsonsSpecSchema,
   pairMatchSpecSchema,
   fillInTheBlanksSpecSchema,
   fillInTheBlanksSetSpecSchema,
+  shortAnswerSpecSchema,
+  numericSpecSchema,
+  numericSetSpecSchema,
   mcqSetSpecSchema,
   orderingSetSpecSchema,
   pairMatchSetSpecSchema,
   activitySetSpecSchema,
   classificationSetSpecSchema,
   showdownSetSpecSchema,
-])
+  heuristicEvaluationSpecSchema,
+  scenarioSpecSchema,
+  hotspotSpecSchema,
+  flashcardsSpecSchema,
+]).describe('Any game spec, selected by its type field')
 
 export type BaseGameSpec = z.infer<typeof baseGameSpecSchema>
 export type MCQSpec = z.infer<typeof mcqSpecSchema>
+export type MCQMultiSpec = z.infer<typeof mcqMultiSpecSchema>
+export type MCQMultiScoringPolicy = z.infer<typeof mcqMultiScoringPolicySchema>
+export type OrderingScoring = z.infer<typeof orderingScoringSchema>
+export type PairMatchScoring = z.infer<typeof pairMatchScoringSchema>
 export type OrderingSpec = z.infer<typeof orderingSpecSchema>
+export type ParsonsSpec = z.infer<typeof parsonsSpecSchema>
 export type PairMatchSpec = z.infer<typeof pairMatchSpecSchema>
 export type FillInTheBlanksSpec = z.infer<typeof fillInTheBlanksSpecSchema>
 export type FillInTheBlanksSetSpec = z.infer<typeof fillInTheBlanksSetSpecSchema>
+export type ShortAnswerSpec = z.infer<typeof shortAnswerSpecSchema>
+export type AcceptedAnswer = ShortAnswerSpec['acceptedAnswers'][number]
+export type NumericSpec = z.infer<typeof numericSpecSchema>
+export type NumericSetSpec = z.infer<typeof numericSetSpecSchema>
 export type MCQSetSpec = z.infer<typeof mcqSetSpecSchema>
 export type OrderingSetSpec = z.infer<typeof orderingSetSpecSchema>
 export type PairMatchSetSpec = z.infer<typeof pairMatchSetSpecSchema>
 export type ActivitySetSpec = z.infer<typeof activitySetSpecSchema>
+export type ActivitySpec = ActivitySetSpec['activities'][number]
 export type ClassificationSetSpec = z.infer<typeof classificationSetSpecSchema>
 export type ShowdownSetSpec = z.infer<typeof showdownSetSpecSchema>
+export type HeuristicEvaluationSpec = z.infer<typeof heuristicEvaluationSpecSchema>
+export type MockupPanel = HeuristicEvaluationSpec['mockup']['panels'][number]
+export type MockupElement = MockupPanel['elements'][number]
+export type ScenarioSpec = z.infer<typeof scenarioSpecSchema>
+export type HotspotSpec = z.infer<typeof hotspotSpecSchema>
+export type FlashcardsSpec = z.infer<typeof flashcardsSpecSchema>
+export type FlashcardGrade = z.infer<typeof flashcardGradeSchema>
 export type GameSpec = z.infer<typeof gameSpecSchema>
 export type GameType = GameSpec['type']
 
+// Assessment manifest (assessment.json): standard info, OMI list and game set registry
+const omiDefinitionSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string().min(1),
+  })
+  .strict()
+
+const gameSetEntrySchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+    type: z.string().min(1).describe("Must equal the game set file's type"),
+    path: z.string().min(1).describe('URL of the game set, e.g. /specs/AS92006/mcq-set.json'),
+    description: z.string(),
+  })
+  .strict()
+
+export const assessmentSchema = z
+  .object({
+    id: z.string().min(1, 'Assessment requires an id'),
+    standard: z.string().min(1),
+    title: z.string().min(1),
+    fullTitle: z.string().min(1),
+    subject: z.string().min(1),
+    level: z.number().int().positive(),
+    credits: z.number().int().positive(),
+    description: z.string(),
+    learningOutcomes: z
+      .object({
+        achieved: z.string().min(1),
+        merit: z.string().min(1),
+        excellence: z.string().min(1),
+      })
+      .strict(),
+    omiList: z.array(omiDefinitionSchema).min(1, 'Assessment must define at least one OMI'),
+    gameSets: z.array(gameSetEntrySchema).min(1, 'Assessment must list at least one game set'),
+    metadata: z
+      .object({
+        version: z.string().min(1),
+        lastUpdated: z.string().min(1),
+        author: z.string().min(1),
+        totalQuestions: z.number().int().nonnegative(),
+        estimatedDuration: z.string().min(1),
+      })
+      .strict(),
+  })
+  .strict()
+  .describe('Assessment manifest: standard details, OMI list and the game sets to load')
+
+export type OMIDefinition = z.infer<typeof omiDefinitionSchema>
+export type GameSetEntry = z.infer<typeof gameSetEntrySchema>
+export type AssessmentManifest = z.infer<typeof assessmentSchema>
+
 export const mcqAnswerSchema = z
   .object({
     optionId: z.string().min(1),
   })
   .strict()
 
+export const mcqMultiAnswerSchema = z
+  .object({
+    optionIds: z.array(z.string().min(1)),
+  })
+  .strict()
+
+const mcqSetResponseSchema = z.union([z.string(), z.array(z.string().min(1))]) // optionId, or optionIds for mcq-multi questions
+
 export const mcqSetAnswerSchema = z
   .object({
-    answers: z.record(z.string(), z.string()), // Record<questionId, optionId>
+    answers: z.record(
+      z.string(), // questionId
+      mcqSetResponseSchema,
+    ),
+    attempts: z.record(z.string(), z.array(mcqSetResponseSchema)).optional(), // Record<questionId, every checked answer, oldest first>
   })
   .strict()
 
@@ -362,21 +974,34 @@ export const orderingSetAnswerSchema = z
       z.string(), 
       z.array(z.string().min(1))
     ), // Record<questionId, order[]>
+    attempts: z.record(z.string(), z.array(z.array(z.string().min(1)))).optional(), // Record<questionId, every committed order, oldest first>
+  })
+  .strict()
+
+export const parsonsAnswerSchema = z
+  .object({
+    lines: z.array(
+      z
+        .object({
+          id: z.string().min(1),
+          indent: z.number().int().nonnegative(),
+        })
+        .strict(),
+    ), // The program as built, top to bottom; unused lines are left out
   })
   .strict()
 
 export const pairMatchAnswerSchema = z
   .object({
-    matches: z
-      .array(
-        z
-          .object({
-            left: z.string().min(1),
-            right: z.string().min(1),
-          })
-          .strict(),
-      )
-      .min(1),
+    matches: z.array(
+      z
+        .object({
+          left: z.string().min(1),
+          right: z.string().min(1),
+        })
+        .strict(),
+    ), // In memory presentation, only the pairs found
+    moves: z.number().int().nonnegative().optional(), // Memory presentation: pairs of cards turned over
   })
   .strict()
 
@@ -391,12 +1016,16 @@ export const pairMatchSetAnswerSchema = z
         }).strict()
       )
     ), // Record<questionId, matches[]>
+    moves: z.record(z.string(), z.number().int().nonnegative()).optional(), // Memory presentation: Record<questionId, moves>
   })
   .strict()
 
+// One word per sentence, or one entry per blank when a sentence has several
+const sentenceResponseSchema = z.union([z.string(), z.array(z.string())])
+
 export const fillInTheBlanksAnswerSchema = z
   .object({
-    answers: z.record(z.string(), z.string()), // Record<sentenceId, selectedWord>
+    answers: z.record(z.string(), sentenceResponseSchema), // Record<sentenceId, response>
   })
   .strict()
 
@@ -404,21 +1033,85 @@ export const fillInTheBlanksSetAnswerSchema = z
   .object({
     answers: z.record(
       z.string(), // questionId
-      z.record(z.string(), z.string()), // Record<sentenceId, selectedWord>
+      z.record(z.string(), sentenceResponseSchema), // Record<sentenceId, response>
     ),
   })
   .strict()
 
+export const shortAnswerAnswerSchema = z
+  .object({
+    text: z.string(),
+  })
+  .strict()
+
+// value is kept as typed so significant figures can be counted
+export const numericAnswerSchema = z
+  .object({
+    value: z.string(),
+    unit: z.string().optional(),
+  })
+  .strict()
+
+export const numericSetAnswerSchema = z
+  .object({
+    answers: z.record(z.string(), numericAnswerSchema), // Record<questionId, answer>
+  })
+  .strict()
+
+const showdownResponseSchema = z
+  .object({
+    optionId: z.string().optional(), // Pick mode
+    ranking: z.array(z.string()).optional(), // Rank mode: option ids, strongest first
+    reasonIds: z.array(z.string().min(1)),
+    improvementOptionId: z.string().optional(),
+  })
+  .strict()
+
 export const showdownSetAnswerSchema = z
   .object({
     answers: z.record(
       z.string(), // showdownId
-      z.object({
-        optionId: z.string(),
-        reasonIds: z.array(z.string().min(1)),
-        improvementOptionId: z.string().optional(),
-      }).strict(),
+      showdownResponseSchema,
     ),
+    attempts: z.record(z.string(), z.array(showdownResponseSchema)).optional(), // Record<showdownId, every completed answer, oldest first>
+  })
+  .strict()
+
+export const heuristicEvaluationAnswerSchema = z
+  .object({
+    flags: z.record(z.string(), z.string()), // Record<elementId, heuristicId>
+  })
+  .strict()
+
+export const scenarioAnswerSchema = z
+  .object({
+    path: z.array(
+      z
+        .object({
+          nodeId: z.string().min(1),
+          choiceId: z.string().min(1),
+        })
+        .strict(),
+    ), // Decisions in the order they were made
+  })
+  .strict()
+
+export const hotspotAnswerSchema = z
+  .object({
+    points: z.record(
+      z.string(), // regionId
+      z.object({ x: percentSchema, y: percentSchema }).strict(),
+    ), // Where the learner marked each region, in percent of the image size
+  })
+  .strict()
+
+export const flashcardGradeSchema = z
+  .enum(['again', 'hard', 'good', 'easy'])
+  .describe('again: not recalled; hard, good, easy: recalled with decreasing effort')
+
+export const flashcardsAnswerSchema = z
+  .object({
+    grades: z.record(z.string(), flashcardGradeSchema), // Record<cardId, grade>
   })
   .strict()
 
@@ -431,35 +1124,53 @@ export const activitySetAnswerSchema = z
 export const classificationSetAnswerSchema = z
   .object({
     answers: z.record(
-      z.string(), // activityId
-      z.record(z.string(), z.string()) // Record<itemId, categoryId>
+      z.string(), // questionId
+      z.record(z.string(), z.array(z.string())) // Record<itemId, categoryIds>; [] is the noneBin
     ),
   })
   .strict()
 
 export const answerPayloadSchema = z.discriminatedUnion('type', [
   z.object({ type: z.literal('mcq'), payload: mcqAnswerSchema }),
+  z.object({ type: z.literal('mcq-multi'), payload: mcqMultiAnswerSchema }),
   z.object({ type: z.literal('mcq-set'), payload: mcqSetAnswerSchema }),
   z.object({ type: z.literal('ordering'), payload: orderingAnswerSchema }),
   z.object({ type: z.literal('ordering-set'), payload: orderingSetAnswerSchema }),
+  z.object({ type: z.literal('parsons'), payload: parsonsAnswerSchema }),
   z.object({ type: z.literal('pair-match'), payload: pairMatchAnswerSchema }),
   z.object({ type: z.literal('pair-match-set'), payload: pairMatchSetAnswerSchema }),
   z.object({ type: z.literal('fill-in-the-blanks'), payload: fillInTheBlanksAnswerSchema }),
   z.object({ type: z.literal('fill-in-the-blanks-set'), payload: fillInTheBlanksSetAnswerSchema }),
+  z.object({ type: z.literal('short-answer'), payload: shortAnswerAnswerSchema }),
+  z.object({ type: z.literal('numeric'), payload: numericAnswerSchema }),
+  z.object({ type: z.literal('numeric-set'), payload: numericSetAnswerSchema }),
   z.object({ type: z.literal('showdown-set'), payload: showdownSetAnswerSchema }),
+  z.object({ type: z.literal('heuristic-evaluation'), payload: heuristicEvaluationAnswerSchema }),
+  z.object({ type: z.literal('scenario'), payload: scenarioAnswerSchema }),
+  z.object({ type: z.literal('hotspot'), payload: hotspotAnswerSchema }),
+  z.object({ type: z.literal('flashcards'), payload: flashcardsAnswerSchema }),
   z.object({ type: z.literal('activity-set'), payload: activitySetAnswerSchema }),
   z.object({ type: z.literal('classification-set'), payload: classificationSetAnswerSchema }),
 ])
 
 export type MCQAnswer = z.infer<typeof mcqAnswerSchema>
+export type MCQMultiAnswer = z.infer<typeof mcqMultiAnswerSchema>
 export type MCQSetAnswer = z.infer<typeof mcqSetAnswerSchema>
 export type OrderingAnswer = z.infer<typeof orderingAnswerSchema>
 export type OrderingSetAnswer = z.infer<typeof orderingSetAnswerSchema>
+export type ParsonsAnswer = z.infer<typeof parsonsAnswerSchema>
 export type PairMatchAnswer = z.infer<typeof pairMatchAnswerSchema>
 export type PairMatchSetAnswer = z.infer<typeof pairMatchSetAnswerSchema>
 export type FillInTheBlanksAnswer = z.infer<typeof fillInTheBlanksAnswerSchema>
 export type FillInTheBlanksSetAnswer = z.infer<typeof fillInTheBlanksSetAnswerSchema>
+export type ShortAnswerAnswer = z.infer<typeof shortAnswerAnswerSchema>
+export type NumericAnswer = z.infer<typeof numericAnswerSchema>
+export type NumericSetAnswer = z.infer<typeof numericSetAnswerSchema>
 export type ShowdownSetAnswer = z.infer<typeof showdownSetAnswerSchema>
+export type HeuristicEvaluationAnswer = z.infer<typeof heuristicEvaluationAnswerSchema>
+export type ScenarioAnswer = z.infer<typeof scenarioAnswerSchema>
+export type HotspotAnswer = z.infer<typeof hotspotAnswerSchema>
+export type FlashcardsAnswer = z.infer<typeof flashcardsAnswerSchema>
 export type ActivitySetAnswer = z.infer<typeof activitySetAnswerSchema>
 export type ClassificationSetAnswer = z.infer<typeof classificationSetAnswerSchema>
 export type AnswerPayload = z.infer<typeof answerPayloadSchema>
@@ -1,16 +1,31 @@
-import type { EvaluationResult, OMIEvidence } from './events'
+import type { CriterionResult, EvaluationResult, OMIEvidence, QuestionAttempts } from './events'
 import type {
+  AcceptedAnswer,
   AnswerPayload,
   GameSpec,
+  HeuristicEvaluationAnswer,
+  HeuristicEvaluationSpec,
+  HotspotAnswer,
+  HotspotSpec,
   MCQAnswer,
+  MCQMultiAnswer,
+  MCQMultiSpec,
   MCQSetAnswer,
   MCQSetSpec,
   MCQSpec,
+  NumericAnswer,
+  NumericSetAnswer,
+  NumericSetSpec,
+  NumericSpec,
   OrderingAnswer,
+  OrderingScoring,
   OrderingSetAnswer,
   OrderingSetSpec,
   OrderingSpec,
+  ParsonsAnswer,
+  ParsonsSpec,
   PairMatchAnswer,
+  PairMatchScoring,
   PairMatchSetAnswer,
   PairMatchSetSpec,
   PairMatchSpec,
@@ -18,27 +33,54 @@ import type {
   FillInTheBlanksSpec,
   FillInTheBlanksSetAnswer,
   FillInTheBlanksSetSpec,
+  FlashcardsAnswer,
+  FlashcardsSpec,
+  ScenarioAnswer,
+  ScenarioSpec,
+  ShortAnswerAnswer,
+  ShortAnswerSpec,
   ShowdownSetAnswer,
   ShowdownSetSpec,
   ActivitySetAnswer,
   ActivitySetSpec,
+  ActivitySpec,
   ClassificationSetAnswer,
   ClassificationSetSpec,
 } from './schema'
+import { PREFIX_FACTORS, parseUnit, sameUnit } from './units'
+import { gradeBlanks } from './blanks'
+import { describeMockupPart, indexMockup } from './mockup'
+import { bestScenarioScore, replayScenario } from './scenario'
+import { isOnRegion } from './hotspot'
+import { countFoundPairs, memoryAccuracy, memoryPar } from './memory'
+import { isRecalled } from './flashcards'
+import { gradeClassificationItem } from './classification'
+import { getGameType, isBuiltInGameSpec } from './registry'
+import type { CustomAnswerPayload, CustomGameSpec } from './registry'
 
-export function canScoreLocally(type: GameSpec['type']): boolean {
+export function canScoreLocally(type: string): boolean {
   return (
     type === 'mcq' ||
+    type === 'mcq-multi' ||
     type === 'mcq-set' ||
     type === 'ordering' ||
     type === 'ordering-set' ||
+    type === 'parsons' ||
     type === 'pair-match' ||
     type === 'pair-match-set' ||
     type === 'fill-in-the-blanks' ||
     type === 'fill-in-the-blanks-set' ||
+    type === 'short-answer' ||
+    type === 'numeric' ||
+    type === 'numeric-set' ||
     type === 'showdown-set' ||
+    type === 'heuristic-evaluation' ||
+    type === 'scenario' ||
+    type === 'hotspot' ||
+    type === 'flashcards' ||
     type === 'activity-set' ||
-    type === 'classification-set'
+    type === 'classification-set' ||
+    getGameType(type)?.score !== undefined
   )
 }
 
@@ -55,16 +97,26 @@ function generateOMIEvidence(spec: GameSpec, correct: boolean, accuracy: number)
   }))
 }
 
-export function scoreGame(spec: GameSpec, answer: AnswerPayload): EvaluationResult | null {
+export function scoreGame(
+  spec: GameSpec | CustomGameSpec,
+  answer: AnswerPayload | CustomAnswerPayload,
+): EvaluationResult | null {
   if (spec.type !== answer.type) {
     return null
   }
+  if (!isBuiltInGameSpec(spec)) {
+    return getGameType(spec.type)?.score?.(spec, answer.payload) ?? null
+  }
 
   switch (spec.type) {
     case 'mcq': {
       const payload = answer.payload as MCQAnswer
       return scoreMcq(spec, payload)
     }
+    case 'mcq-multi': {
+      const payload = answer.payload as MCQMultiAnswer
+      return scoreMcqMulti(spec, payload)
+    }
     case 'mcq-set': {
       const payload = answer.payload as MCQSetAnswer
       return scoreMcqSet(spec, payload)
@@ -77,6 +129,10 @@ export function scoreGame(spec: GameSpec, answer: AnswerPayload): EvaluationResu
       const payload = answer.payload as OrderingSetAnswer
       return scoreOrderingSet(spec, payload)
     }
+    case 'parsons': {
+      const payload = answer.payload as ParsonsAnswer
+      return scoreParsons(spec, payload)
+    }
     case 'pair-match': {
       const payload = answer.payload as PairMatchAnswer
       return scorePairMatch(spec, payload)
@@ -93,10 +149,38 @@ export function scoreGame(spec: GameSpec, answer: AnswerPayload): EvaluationResu
       const payload = answer.payload as FillInTheBlanksSetAnswer
       return scoreFillInTheBlanksSet(spec as FillInTheBlanksSetSpec, payload)
     }
+    case 'short-answer': {
+      const payload = answer.payload as ShortAnswerAnswer
+      return scoreShortAnswer(spec, payload)
+    }
+    case 'numeric': {
+      const payload = answer.payload as NumericAnswer
+      return scoreNumeric(spec, payload)
+    }
+    case 'numeric-set': {
+      const payload = answer.payload as NumericSetAnswer
+      return scoreNumericSet(spec, payload)
+    }
     case 'showdown-set': {
       const payload = answer.payload as ShowdownSetAnswer
       return scoreShowdownSet(spec as ShowdownSetSpec, payload)
     }
+    case 'heuristic-evaluation': {
+      const payload = answer.payload as HeuristicEvaluationAnswer
+      return scoreHeuristicEvaluation(spec, payload)
+    }
+    case 'scenario': {
+      const payload = answer.payload as ScenarioAnswer
+      return scoreScenario(spec, payload)
+    }
+    case 'hotspot': {
+      const payload = answer.payload as HotspotAnswer
+      return scoreHotspot(spec, payload)
+    }
+    case 'flashcards': {
+      const payload = answer.payload as FlashcardsAnswer
+      return scoreFlashcards(spec, payload)
+    }
     case 'activity-set': {
       const payload = answer.payload as ActivitySetAnswer
       return scoreActivitySet(spec, payload)
@@ -124,28 +208,137 @@ function scoreMcq(spec: MCQSpec, answer: MCQAnswer): EvaluationResult {
   }
 }
 
+type MCQMultiLike = Pick<MCQMultiSpec, 'options' | 'correctOptionIds' | 'scoringPolicy'>
+
+/** Grades a select-all selection; accuracy is the partial score under the question's policy. */
+function gradeMcqMultiSelection(question: MCQMultiLike, selectedIds: string[]) {
+  const correctIds = new Set(question.correctOptionIds)
+  const selected = new Set(selectedIds)
+  const hits = Array.from(selected).filter((id) => correctIds.has(id)).length
+  const wrong = selected.size - hits
+  const correct = hits === correctIds.size && wrong === 0
+
+  let accuracy: number
+  switch (question.scoringPolicy ?? 'right-minus-wrong') {
+    case 'all-or-nothing':
+      accuracy = correct ? 1 : 0
+      break
+    case 'partial': {
+      // Every option is a true/false judgement: picked when correct, left when not
+      const classified = question.options.filter((option) => selected.has(option.id) === correctIds.has(option.id))
+      accuracy = classified.length / question.options.length
+      break
+    }
+    case 'right-minus-wrong':
+      accuracy = Math.max(0, (hits - wrong) / correctIds.size)
+      break
+  }
+
+  return { correct, accuracy, hits, wrong, totalCorrect: correctIds.size }
+}
+
+function scoreMcqMulti(spec: MCQMultiSpec, answer: MCQMultiAnswer): EvaluationResult {
+  const { correct, accuracy, hits, wrong, totalCorrect } = gradeMcqMultiSelection(spec, answer.optionIds)
+  const omiEvidence = generateOMIEvidence(spec, correct, accuracy)
+  const summary =
+    `You found ${hits} of ${totalCorrect} correct options` +
+    (wrong > 0 ? ` and chose ${wrong} that ${wrong === 1 ? 'does' : 'do'} not apply.` : '.')
+
+  return {
+    gameId: spec.id,
+    correct,
+    score: accuracy,
+    feedback: correct ? 'Correct!' : spec.explanation ? `${summary} ${spec.explanation}` : summary,
+    omiEvidence,
+  }
+}
+
+type Grade = { correct: boolean; accuracy: number }
+
+/**
+ * Grades every answer checked for one question of a set, oldest first; the
+ * submitted answer counts as one more attempt when it differs from the last
+ * check. The submitted answer keeps the retryCredit share for the attempt that
+ * first got the question right, and `first` is the grade of the first attempt.
+ * Without an attempt history nothing is known about earlier attempts: no
+ * credit is taken and `first` is null.
+ */
+function gradeAttempts<Response>(
+  questionId: string,
+  submitted: Response | undefined,
+  attempts: Record<string, Response[]> | undefined,
+  retryCredit: number[] | undefined,
+  grade: (response: Response | undefined) => Grade,
+): Grade & { first: Grade | null; record: QuestionAttempts } {
+  const final = grade(submitted)
+  if (!attempts) {
+    return { ...final, first: null, record: { questionId, attempts: null, history: [], credit: 1 } }
+  }
+
+  const history = [...(attempts[questionId] ?? [])]
+  if (submitted !== undefined && JSON.stringify(history[history.length - 1]) !== JSON.stringify(submitted)) {
+    history.push(submitted)
+  }
+  const grades = history.map(grade)
+  const firstCorrect = grades.findIndex((attempt) => attempt.correct)
+  const count = firstCorrect >= 0 ? firstCorrect + 1 : grades.length
+  const credits = retryCredit ?? [1]
+  const credit = count > 0 ? credits[Math.min(count, credits.length) - 1] : 1
+
+  return {
+    correct: final.correct,
+    accuracy: final.accuracy * credit,
+    first: grades[0] ?? final,
+    record: { questionId, attempts: count, history: grades.map((attempt) => attempt.accuracy), credit },
+  }
+}
+
+// Appended to a set's feedback once a retry has cost credit
+function retrySummary(records: QuestionAttempts[]): string {
+  const retried = records.filter((record) => record.credit < 1).length
+  if (retried === 0) return ''
+  return retried === 1 ? ' One question needed a retry.' : ` ${retried} questions needed retries.`
+}
+
 function scoreMcqSet(spec: MCQSetSpec, answer: MCQSetAnswer): EvaluationResult {
-  const questionResults: Array<{ correct: boolean; omiIds: string[] }> = []
+  const questionResults: Array<{ correct: boolean; accuracy: number; omiIds: string[] }> = []
+  const attempts: QuestionAttempts[] = []
   let totalCorrect = 0
+  let totalAccuracy = 0
   
   // Score each question
   for (const question of spec.questions) {
-    const selectedOptionId = answer.answers[question.id]
-    const correct = selectedOptionId === question.correctOptionId
+    const { correct, accuracy, first, record } = gradeAttempts(
+      question.id,
+      answer.answers[question.id],
+      answer.attempts,
+      spec.retryCredit,
+      (selected): Grade => {
+        if (question.type === 'mcq-multi') {
+          return gradeMcqMultiSelection(question, Array.isArray(selected) ? selected : [])
+        }
+        const right = selected === question.correctOptionId
+        return { correct: right, accuracy: right ? 1 : 0 }
+      },
+    )
     if (correct) totalCorrect++
+    totalAccuracy += accuracy
+    attempts.push(record)
     
-    // Get OMI IDs for this question
+    // OMI accuracy reflects the first attempt, so retrying until right does not count as mastery;
+    // without an attempt history there is no evidence to give
     const omiIds = question.omiMapping || []
-    questionResults.push({ correct, omiIds })
+    if (first) questionResults.push({ correct, accuracy: first.accuracy, omiIds })
   }
   
   // Aggregate OMI evidence across all questions
-  const omiEvidenceMap = new Map<string, { correct: number; total: number }>()
+  const omiEvidenceMap = new Map<string, { correct: number; total: number; totalAccuracy: number }>()
   
   for (const result of questionResults) {
     for (const omiId of result.omiIds) {
-      const existing = omiEvidenceMap.get(omiId) || { correct: 0, total: 0 }
+      const existing = omiEvidenceMap.get(omiId) || { correct: 0, total: 0, totalAccuracy: 0 }
       existing.total++
+      existing.totalAccuracy += result.accuracy
       if (result.correct) existing.correct++
       omiEvidenceMap.set(omiId, existing)
     }
@@ -156,72 +349,111 @@ function scoreMcqSet(spec: MCQSetSpec, answer: MCQSetAnswer): EvaluationResult {
     ([omiId, stats]) => ({
       omiId,
       demonstrated: stats.correct === stats.total,
-      accuracy: stats.correct / stats.total,
+      accuracy: stats.totalAccuracy / stats.total,
       timestamp: new Date().toISOString(),
     })
   )
   
   const allCorrect = totalCorrect === spec.questions.length
-  const score = totalCorrect / spec.questions.length
+  // Select-all questions contribute their partial score
+  const score = totalAccuracy / spec.questions.length
   
   return {
     gameId: spec.id,
     correct: allCorrect,
     score,
-    feedback: allCorrect 
-      ? `Perfect! You got all ${spec.questions.length} questions correct!`
-      : `You got ${totalCorrect} out of ${spec.questions.length} questions correct.`,
+    feedback:
+      (allCorrect
+        ? `Perfect! You got all ${spec.questions.length} questions correct!`
+        : `You got ${totalCorrect} out of ${spec.questions.length} questions correct.`) + retrySummary(attempts),
     omiEvidence,
+    attempts,
   }
 }
 
-function scoreOrdering(spec: OrderingSpec, answer: OrderingAnswer): EvaluationResult {
-  const expected = spec.items
-  const submitted = answer.order
+/** Grades a submitted order; accuracy is the partial score under the scoring policy. */
+function gradeOrdering(expected: string[], submitted: string[], scoring: OrderingScoring | undefined) {
   const correct = arraysMatch(expected, submitted)
-  
-  // Calculate partial accuracy for ordering
-  let correctPositions = 0
-  for (let i = 0; i < expected.length; i++) {
-    if (expected[i] === submitted[i]) {
-      correctPositions++
+  const total = expected.length
+
+  let accuracy: number
+  let summary: string
+  switch (scoring?.policy ?? 'positional') {
+    case 'exact':
+      accuracy = correct ? 1 : 0
+      summary = 'That order is off. Adjust and retry.'
+      break
+    case 'positional': {
+      const placed = expected.filter((item, index) => submitted[index] === item).length
+      accuracy = placed / total
+      summary = `${placed} of ${total} items are in the right position.`
+      break
+    }
+    case 'kendall-tau': {
+      const pairs = (total * (total - 1)) / 2
+      const ordered = Math.round(((kendallTau(submitted, expected) + 1) / 2) * pairs)
+      accuracy = ordered / pairs
+      summary = `${ordered} of ${pairs} pairs of items are in the right order.`
+      break
+    }
+    case 'longest-increasing-subsequence': {
+      // Items are distinct, so the common subsequence is the longest run of submitted items in the right order
+      const inSequence = longestCommonSubsequence(submitted, expected).length
+      accuracy = inSequence / total
+      summary = `${inSequence} of ${total} items are in the right order relative to each other.`
+      break
+    }
+    case 'adjacent-pairs': {
+      const positions = new Map(submitted.map((item, index) => [item, index]))
+      let adjacent = 0
+      for (let i = 0; i < total - 1; i++) {
+        const position = positions.get(expected[i])
+        if (position !== undefined && positions.get(expected[i + 1]) === position + 1) adjacent++
+      }
+      accuracy = adjacent / (total - 1)
+      summary = `${adjacent} of ${total - 1} neighbouring items are next to each other in the right order.`
+      break
     }
   }
-  const accuracy = correctPositions / expected.length
+
+  return { correct, accuracy: correct ? 1 : accuracy, summary }
+}
+
+function scoreOrdering(spec: OrderingSpec, answer: OrderingAnswer): EvaluationResult {
+  const { correct, accuracy, summary } = gradeOrdering(spec.items, answer.order, spec.scoring)
   const omiEvidence = generateOMIEvidence(spec, correct, accuracy)
-  
+
   return {
     gameId: spec.id,
     correct,
-    score: correct ? 1 : 0,
-    feedback: correct ? 'Perfect order!' : 'That order is off. Adjust and retry.',
+    score: accuracy,
+    feedback: correct ? 'Perfect order!' : summary,
     omiEvidence,
   }
 }
 
 function scoreOrderingSet(spec: OrderingSetSpec, answer: OrderingSetAnswer): EvaluationResult {
   const questionResults: Array<{ correct: boolean; accuracy: number; omiIds: string[] }> = []
+  const attempts: QuestionAttempts[] = []
   let totalCorrect = 0
+  let totalAccuracy = 0
   
   // Score each question
   for (const question of spec.questions) {
-    const submittedOrder = answer.answers[question.id] || []
-    const expected = question.items
-    const correct = arraysMatch(expected, submittedOrder)
-    
-    // Calculate partial accuracy for ordering
-    let correctPositions = 0
-    for (let i = 0; i < expected.length; i++) {
-      if (expected[i] === submittedOrder[i]) {
-        correctPositions++
-      }
-    }
-    const accuracy = expected.length > 0 ? correctPositions / expected.length : 0
+    const { correct, accuracy, first, record } = gradeAttempts(
+      question.id,
+      answer.answers[question.id],
+      answer.attempts,
+      spec.retryCredit,
+      (order) => gradeOrdering(question.items, order ?? [], question.scoring ?? spec.scoring),
+    )
     if (correct) totalCorrect++
+    totalAccuracy += accuracy
+    attempts.push(record)
     
-    // Get OMI IDs for this question
+    // OMI accuracy reflects the first attempt, when the attempts are known
     const omiIds = question.omiMapping || []
-    questionResults.push({ correct, accuracy, omiIds })
+    if (first) questionResults.push({ correct, accuracy: first.accuracy, omiIds })
   }
   
   // Aggregate OMI evidence across all questions
@@ -248,33 +480,137 @@ function scoreOrderingSet(spec: OrderingSetSpec, answer: OrderingSetAnswer): Eva
   )
   
   const allCorrect = totalCorrect === spec.questions.length
-  const score = totalCorrect / spec.questions.length
+  const score = totalAccuracy / spec.questions.length
   
   return {
     gameId: spec.id,
     correct: allCorrect,
     score,
-    feedback: allCorrect 
-      ? `Perfect! You got all ${spec.questions.length} ordering questions correct!`
-      : `You got ${totalCorrect} out of ${spec.questions.length} questions correct.`,
+    feedback:
+      (allCorrect
+        ? `Perfect! You got all ${spec.questions.length} ordering questions correct!`
+        : `You got ${totalCorrect} out of ${spec.questions.length} questions correct.`) + retrySummary(attempts),
     omiEvidence,
+    attempts,
   }
 }
 
-function scorePairMatch(spec: PairMatchSpec, answer: PairMatchAnswer): EvaluationResult {
-  const expectedMap = new Map(spec.pairs.map((pair) => [pair.left, pair.right]))
-  const submittedMap = new Map(answer.matches.map((match) => [match.left, match.right]))
+// Positions in submitted that form a longest common subsequence with expected
+function longestCommonSubsequence(submitted: string[], expected: string[]): number[] {
+  const table = Array.from({ length: submitted.length + 1 }, () => new Array<number>(expected.length + 1).fill(0))
+  for (let i = submitted.length - 1; i >= 0; i--) {
+    for (let j = expected.length - 1; j >= 0; j--) {
+      table[i][j] =
+        submitted[i] === expected[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
 
-  if (expectedMap.size !== submittedMap.size) {
-    const omiEvidence = generateOMIEvidence(spec, false, 0)
-    return {
-      gameId: spec.id,
-      correct: false,
-      score: 0,
-      feedback: 'Keep practicing those matches!',
-      omiEvidence,
+  const positions: number[] = []
+  let i = 0
+  let j = 0
+  while (i < submitted.length && j < expected.length) {
+    if (submitted[i] === expected[j]) {
+      positions.push(i)
+      i++
+      j++
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++
+    } else {
+      j++
     }
   }
+  return positions
+}
+
+/**
+ * Each solution line earns a point for being in sequence (the longest run that
+ * matches the solution or an alternative order) and, when indentation is
+ * graded, a point for its indent. Each distractor used costs a line's worth.
+ */
+function gradeParsons(spec: ParsonsSpec, answer: ParsonsAnswer) {
+  const lineIds = new Set(spec.lines.map((line) => line.id))
+  const placed = answer.lines.filter((entry) => lineIds.has(entry.id))
+  const placedIds = placed.map((entry) => entry.id)
+  const orders = [spec.lines.map((line) => line.id), ...(spec.alternativeOrders ?? [])]
+  const inSequence = orders
+    .map((order) => new Set(longestCommonSubsequence(placedIds, order).map((position) => placedIds[position])))
+    .reduce((best, ids) => (ids.size > best.size ? ids : best))
+
+  const gradeIndentation = spec.gradeIndentation ?? true
+  const indents = new Map(placed.map((entry) => [entry.id, entry.indent]))
+  let earned = 0
+  const criteria: CriterionResult[] = spec.lines.map((line) => {
+    const indent = indents.get(line.id)
+    const ordered = inSequence.has(line.id)
+    const indented = !gradeIndentation || (indent !== undefined && indent === (line.indent ?? 0))
+    if (ordered) earned++
+    if (gradeIndentation && indented) earned++
+    const feedback =
+      indent === undefined
+        ? 'This line is missing from your program.'
+        : !ordered
+          ? 'This line is out of order.'
+          : !indented
+            ? "Check this line's indentation."
+            : undefined
+    return { id: line.id, label: line.code, met: ordered && indented, feedback }
+  })
+
+  const usedDistractors = (spec.distractors ?? []).filter((distractor) =>
+    answer.lines.some((entry) => entry.id === distractor.id),
+  )
+  for (const distractor of usedDistractors) {
+    criteria.push({
+      id: distractor.id,
+      label: distractor.code,
+      met: false,
+      feedback: distractor.feedback ?? 'This line is not part of the solution.',
+    })
+  }
+
+  const pointsPerLine = gradeIndentation ? 2 : 1
+  const correct = criteria.every((criterion) => criterion.met) && placed.length === spec.lines.length
+  const accuracy = correct
+    ? 1
+    : Math.max(0, (earned - usedDistractors.length * pointsPerLine) / (spec.lines.length * pointsPerLine))
+  return { correct, accuracy, criteria, inSequenceCount: inSequence.size, usedDistractorCount: usedDistractors.length }
+}
+
+function scoreParsons(spec: ParsonsSpec, answer: ParsonsAnswer): EvaluationResult {
+  const grade = gradeParsons(spec, answer)
+  const omiEvidence = generateOMIEvidence(spec, grade.correct, grade.accuracy)
+  const distractorNote =
+    grade.usedDistractorCount > 0
+      ? ` ${grade.usedDistractorCount} line${grade.usedDistractorCount === 1 ? ' does' : 's do'} not belong in the program.`
+      : ''
+  const summary = `${grade.inSequenceCount} of ${spec.lines.length} lines are in the right order.${distractorNote}`
+
+  return {
+    gameId: spec.id,
+    correct: grade.correct,
+    score: grade.accuracy,
+    feedback: grade.correct ? 'Your program is correct!' : spec.explanation ? `${summary} ${spec.explanation}` : summary,
+    omiEvidence,
+    criteria: grade.criteria,
+  }
+}
+
+type PairMatchLike = Pick<PairMatchSpec, 'pairs' | 'distractorsRight'>
+
+/**
+ * Grades a set of matches; accuracy is the partial score under the scoring
+ * policy. Per pair, each right match earns a pair's worth and each match to a
+ * distractor costs distractorPenalty pairs' worth; other wrong matches earn
+ * nothing.
+ */
+function gradePairMatching(
+  question: PairMatchLike,
+  matches: PairMatchAnswer['matches'],
+  scoring: PairMatchScoring | undefined,
+) {
+  const expectedMap = new Map(question.pairs.map((pair) => [pair.left, pair.right]))
+  const submittedMap = new Map(matches.map((match) => [match.left, match.right]))
+  const distractors = new Set(question.distractorsRight ?? [])
 
   let correctMatches = 0
   expectedMap.forEach((right, left) => {
@@ -282,16 +618,73 @@ function scorePairMatch(spec: PairMatchSpec, answer: PairMatchAnswer): Evaluatio
       correctMatches++
     }
   })
-  
-  const accuracy = correctMatches / expectedMap.size
-  const correct = correctMatches === expectedMap.size
+  const distractorMatches = Array.from(submittedMap.values()).filter((right) => distractors.has(right)).length
+  const correct = correctMatches === expectedMap.size && submittedMap.size === expectedMap.size
+
+  let accuracy: number
+  switch (scoring?.policy ?? 'per-pair') {
+    case 'all-or-nothing':
+      accuracy = correct ? 1 : 0
+      break
+    case 'per-pair':
+      accuracy = Math.max(0, (correctMatches - distractorMatches * (scoring?.distractorPenalty ?? 1)) / expectedMap.size)
+      break
+  }
+
+  return { correct, accuracy, correctMatches, distractorMatches, totalPairs: expectedMap.size }
+}
+
+function scorePairMatch(spec: PairMatchSpec, answer: PairMatchAnswer): EvaluationResult {
+  if (spec.presentation === 'memory') {
+    return scorePairMatchMemory(spec, answer)
+  }
+
+  const { correct, accuracy, correctMatches, distractorMatches, totalPairs } = gradePairMatching(
+    spec,
+    answer.matches,
+    spec.scoring,
+  )
   const omiEvidence = generateOMIEvidence(spec, correct, accuracy)
+  const distractorNote =
+    distractorMatches > 0
+      ? distractorMatches === 1
+        ? ' One match uses a value that matches nothing.'
+        : ` ${distractorMatches} matches use values that match nothing.`
+      : ''
 
   return {
     gameId: spec.id,
     correct,
-    score: correct ? 1 : 0,
-    feedback: correct ? 'Great job matching the pairs!' : 'Some matches are incorrect. Try again.',
+    score: accuracy,
+    feedback: correct
+      ? 'Great job matching the pairs!'
+      : `You matched ${correctMatches} of ${totalPairs} pairs correctly.${distractorNote}`,
+    omiEvidence,
+  }
+}
+
+/**
+ * Every pair found scores, scaled down when the moves went over par (see
+ * memoryPar). Finishing on par or better counts as correct.
+ */
+function scorePairMatchMemory(spec: PairMatchSpec, answer: PairMatchAnswer): EvaluationResult {
+  const total = spec.pairs.length
+  const found = countFoundPairs(spec.pairs, answer.matches)
+  const par = memoryPar(total)
+  const moves = answer.moves ?? par
+  const accuracy = memoryAccuracy(found, total, answer.moves)
+  const correct = found === total && moves <= par
+  const omiEvidence = generateOMIEvidence(spec, correct, accuracy)
+
+  return {
+    gameId: spec.id,
+    correct,
+    score: accuracy,
+    feedback: correct
+      ? `You found all ${total} pairs in ${moves} moves!`
+      : found === total
+        ? `You found all ${total} pairs in ${moves} moves. Try to finish in ${par} or fewer.`
+        : `You found ${found} of ${total} pairs in ${moves} moves.`,
     omiEvidence,
   }
 }
@@ -299,23 +692,26 @@ function scorePairMatch(spec: PairMatchSpec, answer: PairMatchAnswer): Evaluatio
 function scorePairMatchSet(spec: PairMatchSetSpec, answer: PairMatchSetAnswer): EvaluationResult {
   const questionResults: Array<{ correct: boolean; accuracy: number; omiIds: string[] }> = []
   let totalCorrect = 0
+  let totalAccuracy = 0
+  const memory = spec.presentation === 'memory'
   
   // Score each question
   for (const question of spec.questions) {
     const submittedMatches = answer.answers[question.id] || []
-    const expectedMap = new Map(question.pairs.map((pair) => [pair.left, pair.right]))
-    const submittedMap = new Map(submittedMatches.map((match) => [match.left, match.right]))
-    
-    let correctMatches = 0
-    expectedMap.forEach((right, left) => {
-      if (submittedMap.get(left) === right) {
-        correctMatches++
-      }
-    })
-    
-    const accuracy = expectedMap.size > 0 ? correctMatches / expectedMap.size : 0
-    const correct = correctMatches === expectedMap.size && submittedMap.size === expectedMap.size
+    if (memory) {
+      const found = countFoundPairs(question.pairs, submittedMatches)
+      const moves = answer.moves?.[question.id]
+      const accuracy = memoryAccuracy(found, question.pairs.length, moves)
+      const correct = found === question.pairs.length && (moves ?? 0) <= memoryPar(question.pairs.length)
+      if (correct) totalCorrect++
+      totalAccuracy += accuracy
+      questionResults.push({ correct, accuracy, omiIds: question.omiMapping || [] })
+      continue
+    }
+
+    const { correct, accuracy } = gradePairMatching(question, submittedMatches, question.scoring ?? spec.scoring)
     if (correct) totalCorrect++
+    totalAccuracy += accuracy
     
     // Get OMI IDs for this question
     const omiIds = question.omiMapping || []
@@ -346,7 +742,7 @@ function scorePairMatchSet(spec: PairMatchSetSpec, answer: PairMatchSetAnswer):
   )
   
   const allCorrect = totalCorrect === spec.questions.length
-  const score = totalCorrect / spec.questions.length
+  const score = totalAccuracy / spec.questions.length
   
   return {
     gameId: spec.id,
@@ -354,7 +750,9 @@ function scorePairMatchSet(spec: PairMatchSetSpec, answer: PairMatchSetAnswer):
     score,
     feedback: allCorrect 
       ? `Perfect! You got all ${spec.questions.length} pair-matching questions correct!`
-      : `You got ${totalCorrect} out of ${spec.questions.length} questions correct.`,
+      : memory
+        ? `You cleared ${totalCorrect} of ${spec.questions.length} boards within par.`
+        : `You got ${totalCorrect} out of ${spec.questions.length} questions correct.`,
     omiEvidence,
   }
 }
@@ -365,17 +763,10 @@ function arraysMatch(a: string[], b: string[]): boolean {
 }
 
 function scoreFillInTheBlanks(spec: FillInTheBlanksSpec, answer: FillInTheBlanksAnswer): EvaluationResult {
-  let correctAnswers = 0
+  const { correctBlanks, totalBlanks } = gradeBlanks(spec, answer.answers)
   
-  for (const sentence of spec.sentences) {
-    const userAnswer = answer.answers[sentence.id]
-    if (userAnswer === sentence.blank_answer) {
-      correctAnswers++
-    }
-  }
-  
-  const accuracy = correctAnswers / spec.sentences.length
-  const correct = correctAnswers === spec.sentences.length
+  const accuracy = totalBlanks > 0 ? correctBlanks / totalBlanks : 0
+  const correct = correctBlanks === totalBlanks
   const omiEvidence = generateOMIEvidence(spec, correct, accuracy)
   
   return {
@@ -384,7 +775,7 @@ function scoreFillInTheBlanks(spec: FillInTheBlanksSpec, answer: FillInTheBlanks
     score: accuracy,
     feedback: correct
       ? 'Perfect! All blanks filled correctly!'
-      : `You got ${correctAnswers} out of ${spec.sentences.length} blanks correct.`,
+      : `You got ${correctBlanks} out of ${totalBlanks} blanks correct.`,
     omiEvidence,
   }
 }
@@ -397,17 +788,9 @@ function scoreFillInTheBlanksSet(
   let totalCorrect = 0
 
   for (const question of spec.questions) {
-    const questionAnswer = answer.answers[question.id] || {}
-    const totalSentences = question.sentences.length
-    let correctBlanks = 0
-
-    for (const sentence of question.sentences) {
-      if (questionAnswer[sentence.id] === sentence.blank_answer) {
-        correctBlanks++
-      }
-    }
+    const { correctBlanks, totalBlanks } = gradeBlanks(question, answer.answers[question.id] || {})
 
-    const accuracy = totalSentences > 0 ? correctBlanks / totalSentences : 0
+    const accuracy = totalBlanks > 0 ? correctBlanks / totalBlanks : 0
     const correct = accuracy === 1
     if (correct) totalCorrect++
 
@@ -452,63 +835,430 @@ function scoreFillInTheBlanksSet(
   }
 }
 
+// Short answer matching: lower-case words with punctuation removed
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean)
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Short words must match exactly so "ui" never passes for "up"
+function wordMatches(expected: string, actual: string, tolerance: number): boolean {
+  if (expected === actual) return true
+  return expected.length >= 4 && editDistance(expected, actual) <= tolerance
+}
+
+function phraseMatches(expected: string[], actual: string[], tolerance: number): boolean {
+  if (expected.length === 0 || expected.length > actual.length) return false
+  for (let start = 0; start + expected.length <= actual.length; start++) {
+    if (expected.every((word, offset) => wordMatches(word, actual[start + offset], tolerance))) {
+      return true
+    }
+  }
+  return false
+}
+
+type Keyword = NonNullable<Extract<AcceptedAnswer, { kind: 'keywords' }>['required']>[number]
+
+function keywordTerm(keyword: Keyword): string {
+  return typeof keyword === 'string' ? keyword : keyword.term
+}
+
+function mentionsTerm(spec: ShortAnswerSpec, term: string, words: string[]): boolean {
+  const tolerance = spec.typoTolerance ?? 1
+  const normalized = tokenize(term).join(' ')
+  const group = spec.synonyms?.find((synonyms) => synonyms.some((synonym) => tokenize(synonym).join(' ') === normalized))
+  return (group ?? [term]).some((variant) => phraseMatches(tokenize(variant), words, tolerance))
+}
+
+/** Scores one rubric entry: 0-1 plus the criteria behind it. */
+function gradeAcceptedAnswer(
+  spec: ShortAnswerSpec,
+  entry: AcceptedAnswer,
+  index: number,
+  text: string,
+): { score: number; criteria: CriterionResult[] } {
+  const words = tokenize(text)
+
+  switch (entry.kind) {
+    case 'exact': {
+      // Case-sensitive answers (e.g. code) compare the text itself, only ignoring spacing
+      const collapse = (value: string) => value.trim().replace(/\s+/g, ' ')
+      const expected = tokenize(entry.value)
+      const met = entry.caseSensitive
+        ? collapse(text) === collapse(entry.value)
+        : expected.length === words.length && phraseMatches(expected, words, spec.typoTolerance ?? 1)
+      return { score: met ? 1 : 0, criteria: [{ id: `answer-${index}`, label: 'Matches an accepted answer', met }] }
+    }
+    case 'regex': {
+      let met = false
+      try {
+        met = new RegExp(entry.pattern, entry.flags ?? 'i').test(text.trim())
+      } catch {
+        // Invalid patterns are reported by lintSpec; they never match
+      }
+      return { score: met ? 1 : 0, criteria: [{ id: `answer-${index}`, label: 'Matches an accepted answer', met }] }
+    }
+    case 'keywords': {
+      const toCriterion = (keyword: Keyword, id: string, optional: boolean): CriterionResult => {
+        const term = keywordTerm(keyword)
+        const met = mentionsTerm(spec, term, words)
+        return {
+          id,
+          label: optional ? `Mentions "${term}" (optional)` : `Mentions "${term}"`,
+          met,
+          ...(!met && typeof keyword !== 'string' && keyword.hint ? { feedback: keyword.hint } : {}),
+        }
+      }
+      const required = (entry.required ?? []).map((keyword, termIndex) =>
+        toCriterion(keyword, `answer-${index}-required-${termIndex}`, false),
+      )
+      const optional = (entry.optional ?? []).map((keyword, termIndex) =>
+        toCriterion(keyword, `answer-${index}-optional-${termIndex}`, true),
+      )
+      const minOptional = Math.min(entry.minOptional ?? 0, optional.length)
+      const optionalMet = optional.filter((criterion) => criterion.met).length
+      const points = required.filter((criterion) => criterion.met).length + Math.min(optionalMet, minOptional)
+      const total = required.length + minOptional
+      const criteria = [...required, ...optional]
+      if (minOptional > 0) {
+        criteria.push({
+          id: `answer-${index}-min-optional`,
+          label: `Mentions at least ${minOptional} of the optional terms`,
+          met: optionalMet >= minOptional,
+        })
+      }
+      return { score: total > 0 ? points / total : 0, criteria }
+    }
+  }
+}
+
+function scoreShortAnswer(spec: ShortAnswerSpec, answer: ShortAnswerAnswer): EvaluationResult {
+  // The best entry decides the score; on a tie the earlier entry wins
+  const best = spec.acceptedAnswers
+    .map((entry, index) => gradeAcceptedAnswer(spec, entry, index, answer.text))
+    .reduce((top, result) => (result.score > top.score ? result : top))
+  const correct = best.score === 1
+  const omiEvidence = generateOMIEvidence(spec, correct, best.score)
+  const metCount = best.criteria.filter((criterion) => criterion.met).length
+  const summary =
+    best.criteria.length > 1
+      ? `Your answer meets ${metCount} of ${best.criteria.length} criteria.`
+      : 'Your answer does not match an accepted answer yet.'
+
+  return {
+    gameId: spec.id,
+    correct,
+    score: best.score,
+    feedback: correct ? 'Correct!' : spec.explanation ? `${summary} ${spec.explanation}` : summary,
+    omiEvidence,
+    criteria: best.criteria,
+  }
+}
+
+type NumericLike = Pick<NumericSpec, 'answer' | 'unit' | 'acceptedUnits' | 'tolerance' | 'sigFigs'>
+
+// A number, optionally followed by its unit: "0.25", "-1.5e3 mA", "2.2 kΩ"
+const quantityPattern = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)\s*(.*?)\s*$/
+
+/** Range of significant figures in a typed number; trailing zeros without a decimal point may or may not count. */
+function countSignificantFigures(numberText: string): { min: number; max: number } {
+  const mantissa = numberText.replace(/^[-+]/, '').split(/[eE]/)[0]
+  const digits = mantissa.replace('.', '').replace(/^0+/, '')
+  if (!digits) return { min: 1, max: 1 }
+  if (mantissa.includes('.')) return { min: digits.length, max: digits.length }
+  return { min: digits.replace(/0+$/, '').length, max: digits.length }
+}
+
+function isWithinTolerance(question: NumericLike, value: number): boolean {
+  const { answer, tolerance, sigFigs } = question
+  // The relative floor absorbs floating point error from unit conversion
+  const allowed = Math.max(
+    tolerance?.absolute ?? 0,
+    (tolerance?.relative ?? 0) * Math.abs(answer),
+    1e-9 * Math.abs(answer),
+  )
+  if (Math.abs(value - answer) <= allowed) return true
+  if (sigFigs === undefined) return false
+  // Rounding the answer to the required figures is always accepted
+  const rounded = Number(answer.toPrecision(sigFigs))
+  return Math.abs(value - rounded) <= 1e-9 * Math.abs(rounded)
+}
+
+/** Grades one numeric answer, telling a wrong unit or prefix apart from a wrong value. Used by NumericSet for per-question feedback. */
+export function gradeNumericAnswer(
+  question: NumericLike,
+  answer: NumericAnswer,
+): { correct: boolean; accuracy: number; criteria: CriterionResult[]; feedback: string } {
+  const match = quantityPattern.exec(answer.value)
+  if (!match) {
+    return {
+      correct: false,
+      accuracy: 0,
+      criteria: [{ id: 'value', label: 'Value is correct', met: false }],
+      feedback: 'Enter your answer as a number, e.g. 0.25.',
+    }
+  }
+
+  const value = Number(match[1])
+  const unitText = answer.unit?.trim() || match[2]
+  const criteria: CriterionResult[] = []
+  const details: string[] = []
+  let valueMet: boolean
+  let unitMet = true
+
+  if (question.unit) {
+    const expected = parseUnit(question.unit) ?? { base: question.unit, factor: 1 }
+    const given = unitText ? parseUnit(unitText) : null
+    const convertible = given !== null && given.base === expected.base
+    const accepted =
+      given !== null &&
+      convertible &&
+      (!question.acceptedUnits ||
+        question.acceptedUnits.some((unit) => {
+          const parsed = parseUnit(unit)
+          return parsed !== null && sameUnit(parsed, given)
+        }))
+    const valueRight = convertible && isWithinTolerance(question, (value * given.factor) / expected.factor)
+    // Right digits in the wrong unit or prefix, e.g. 0.25 mA or 250 A for 0.25 A
+    const magnitudeRight =
+      valueRight || PREFIX_FACTORS.some((factor) => isWithinTolerance(question, (value * factor) / expected.factor))
+
+    valueMet = magnitudeRight
+    unitMet = accepted && (valueRight || !magnitudeRight)
+    criteria.push(
+      { id: 'value', label: 'Value is correct (ignoring the unit)', met: valueMet },
+      { id: 'unit', label: `Unit is correct (${question.unit})`, met: unitMet },
+    )
+    if (!unitMet) {
+      const units = question.acceptedUnits?.join(' or ') ?? question.unit
+      details.push(
+        !unitText
+          ? `Include the unit, e.g. ${question.unit}.`
+          : accepted
+            ? 'Check the prefix on your unit.'
+            : `Give the answer in ${units}.`,
+      )
+    }
+  } else {
+    valueMet = isWithinTolerance(question, value)
+    criteria.push({ id: 'value', label: 'Value is correct', met: valueMet })
+  }
+
+  let sigFigsMet = true
+  if (question.sigFigs !== undefined) {
+    const { min, max } = countSignificantFigures(match[1])
+    sigFigsMet = min <= question.sigFigs && question.sigFigs <= max
+    criteria.push({ id: 'sig-figs', label: `Given to ${question.sigFigs} significant figures`, met: sigFigsMet })
+    if (!sigFigsMet) details.push(`Give it to ${question.sigFigs} significant figures.`)
+  }
+
+  const metCount = criteria.filter((criterion) => criterion.met).length
+  const correct = metCount === criteria.length
+  const headline = correct
+    ? 'Correct!'
+    : !valueMet
+      ? 'That value is not right.'
+      : !unitMet
+        ? 'Right magnitude, wrong unit.'
+        : 'Right value, but check your significant figures.'
+
+  return {
+    correct,
+    // A wrong value earns nothing, however well it is presented
+    accuracy: valueMet ? metCount / criteria.length : 0,
+    criteria,
+    feedback: valueMet ? [headline, ...details].join(' ') : headline,
+  }
+}
+
+function scoreNumeric(spec: NumericSpec, answer: NumericAnswer): EvaluationResult {
+  const grade = gradeNumericAnswer(spec, answer)
+  const omiEvidence = generateOMIEvidence(spec, grade.correct, grade.accuracy)
+
+  return {
+    gameId: spec.id,
+    correct: grade.correct,
+    score: grade.accuracy,
+    feedback: !grade.correct && spec.explanation ? `${grade.feedback} ${spec.explanation}` : grade.feedback,
+    omiEvidence,
+    criteria: grade.criteria,
+  }
+}
+
+function scoreNumericSet(spec: NumericSetSpec, answer: NumericSetAnswer): EvaluationResult {
+  const questionResults: Array<{ correct: boolean; accuracy: number; omiIds: string[] }> = []
+  let totalCorrect = 0
+  let totalAccuracy = 0
+
+  for (const question of spec.questions) {
+    const grade = gradeNumericAnswer(question, answer.answers[question.id] ?? { value: '' })
+    if (grade.correct) totalCorrect++
+    totalAccuracy += grade.accuracy
+    questionResults.push({ correct: grade.correct, accuracy: grade.accuracy, omiIds: question.omiMapping || [] })
+  }
+
+  const omiEvidenceMap = new Map<string, { correct: number; total: number; totalAccuracy: number }>()
+
+  for (const result of questionResults) {
+    for (const omiId of result.omiIds) {
+      const existing = omiEvidenceMap.get(omiId) || { correct: 0, total: 0, totalAccuracy: 0 }
+      existing.total++
+      existing.totalAccuracy += result.accuracy
+      if (result.correct) existing.correct++
+      omiEvidenceMap.set(omiId, existing)
+    }
+  }
+
+  const omiEvidence: OMIEvidence[] = Array.from(omiEvidenceMap.entries()).map(([omiId, stats]) => ({
+    omiId,
+    demonstrated: stats.correct === stats.total,
+    accuracy: stats.totalAccuracy / stats.total,
+    timestamp: new Date().toISOString(),
+  }))
+
+  const allCorrect = totalCorrect === spec.questions.length
+  // Right values with a wrong unit or rounding keep their partial credit
+  const score = totalAccuracy / spec.questions.length
+
+  return {
+    gameId: spec.id,
+    correct: allCorrect,
+    score,
+    feedback: allCorrect
+      ? `Perfect! You got all ${spec.questions.length} calculations correct!`
+      : `You got ${totalCorrect} out of ${spec.questions.length} calculations correct.`,
+    omiEvidence,
+  }
+}
+
+/**
+ * Kendall's tau between a submitted ranking and the expected one: 1 when every
+ * pair is in the expected order, -1 when every pair is reversed. Pairs that
+ * involve an item missing from the submission count as reversed.
+ */
+function kendallTau(submitted: string[], expected: string[]): number {
+  const pairs = (expected.length * (expected.length - 1)) / 2
+  if (pairs === 0) return 1
+  const positions = new Map(submitted.map((id, index) => [id, index]))
+  let concordant = 0
+  for (let i = 0; i < expected.length; i++) {
+    for (let j = i + 1; j < expected.length; j++) {
+      const first = positions.get(expected[i])
+      const second = positions.get(expected[j])
+      if (first !== undefined && second !== undefined && first < second) concordant++
+    }
+  }
+  return (2 * concordant) / pairs - 1
+}
+
+type Showdown = ShowdownSetSpec['showdowns'][number]
+
+/**
+ * A showdown earns credit only when its reasons (and improvement, if asked)
+ * are right, and is correct when the verdict is right too. In pick mode the
+ * verdict is right or wrong; in rank mode it earns the share of option pairs
+ * ranked in the right order, (tau + 1) / 2.
+ */
+function gradeShowdown(showdown: Showdown, showdownAnswer: ShowdownSetAnswer['answers'][string] | undefined): Grade {
+  if (!showdownAnswer) return { correct: false, accuracy: 0 }
+
+  const verdictCredit =
+    showdown.answerMode === 'rank'
+      ? (kendallTau(showdownAnswer.ranking ?? [], showdown.correctRanking ?? []) + 1) / 2
+      : showdownAnswer.optionId === showdown.correctOptionId
+        ? 1
+        : 0
+  const reasonIds = showdownAnswer.reasonIds || []
+  const reasonCorrectCount = showdown.reasonOptions.filter((reason) => reason.correct).length
+  const selectedReasonIds = reasonIds
+  const selectedReasonCorrect = selectedReasonIds.filter((id) => {
+    const reason = showdown.reasonOptions.find((r) => r.id === id)
+    return reason?.correct
+  }).length
+  const allRequiredReasonsSelected = showdown.reasonOptions
+    .filter((reason) => reason.correct)
+    .every((reason) => selectedReasonIds.includes(reason.id))
+  const noIncorrectReasonsSelected = selectedReasonIds.every((id) =>
+    showdown.reasonOptions.find((reason) => reason.id === id)?.correct,
+  )
+
+  const requiresImprovement = Boolean(showdown.improvementQuestion)
+  const improvementCorrect = requiresImprovement
+    ? Boolean(
+        showdown.improvementQuestion?.options.find(
+          (option) => option.id === showdownAnswer.improvementOptionId && option.correct,
+        ),
+      )
+    : true
+
+  const justified =
+    selectedReasonCorrect > 0 &&
+    selectedReasonCorrect === reasonCorrectCount &&
+    allRequiredReasonsSelected &&
+    noIncorrectReasonsSelected &&
+    improvementCorrect
+
+  return { correct: justified && verdictCredit === 1, accuracy: justified ? verdictCredit : 0 }
+}
+
 function scoreShowdownSet(spec: ShowdownSetSpec, answer: ShowdownSetAnswer): EvaluationResult {
   let correctShowdowns = 0
-  const omiEvidenceMap = new Map<string, { total: number; demonstrated: number }>()
+  let earned = 0
+  const attempts: QuestionAttempts[] = []
+  const omiEvidenceMap = new Map<string, { total: number; demonstrated: number; firstAttemptCorrect: number }>()
 
   for (const showdown of spec.showdowns) {
     const showdownAnswer = answer.answers[showdown.id]
-    if (!showdownAnswer) continue
-
-    const selectedOptionCorrect = showdownAnswer.optionId === showdown.correctOptionId
-    const reasonIds = showdownAnswer.reasonIds || []
-    const reasonCorrectCount = showdown.reasonOptions.filter((reason) => reason.correct).length
-    const selectedReasonIds = reasonIds
-    const selectedReasonCorrect = selectedReasonIds.filter((id) => {
-      const reason = showdown.reasonOptions.find((r) => r.id === id)
-      return reason?.correct
-    }).length
-    const allRequiredReasonsSelected = showdown.reasonOptions
-      .filter((reason) => reason.correct)
-      .every((reason) => selectedReasonIds.includes(reason.id))
-    const noIncorrectReasonsSelected = selectedReasonIds.every((id) =>
-      showdown.reasonOptions.find((reason) => reason.id === id)?.correct,
-    )
-
-    const requiresImprovement = Boolean(showdown.improvementQuestion)
-    const improvementCorrect = requiresImprovement
-      ? Boolean(
-          showdown.improvementQuestion?.options.find(
-            (option) => option.id === showdownAnswer.improvementOptionId && option.correct,
-          ),
-        )
-      : true
-
-    const showdownCorrect =
-      selectedOptionCorrect &&
-      selectedReasonCorrect > 0 &&
-      selectedReasonCorrect === reasonCorrectCount &&
-      allRequiredReasonsSelected &&
-      noIncorrectReasonsSelected &&
-      improvementCorrect
+    const checked = answer.attempts?.[showdown.id]
+    if (!showdownAnswer && !checked?.length) continue
 
+    const { correct: showdownCorrect, accuracy, first, record } = gradeAttempts(
+      showdown.id,
+      showdownAnswer,
+      answer.attempts,
+      spec.retryCredit,
+      (response) => gradeShowdown(showdown, response),
+    )
     if (showdownCorrect) {
       correctShowdowns++
     }
+    earned += accuracy
+    attempts.push(record)
+    if (!first) continue
 
     const omiIds = showdown.omiMapping || []
     for (const omiId of omiIds) {
-      const existing = omiEvidenceMap.get(omiId) || { total: 0, demonstrated: 0 }
+      const existing = omiEvidenceMap.get(omiId) || { total: 0, demonstrated: 0, firstAttemptCorrect: 0 }
       existing.total++
       if (showdownCorrect) {
         existing.demonstrated++
       }
+      if (first.correct) {
+        existing.firstAttemptCorrect++
+      }
       omiEvidenceMap.set(omiId, existing)
     }
   }
 
   const totalShowdowns = spec.showdowns.length
-  const score = totalShowdowns > 0 ? correctShowdowns / totalShowdowns : 0
+  const score = totalShowdowns > 0 ? earned / totalShowdowns : 0
   const allCorrect = correctShowdowns === totalShowdowns && totalShowdowns > 0
 
   const feedback = allCorrect
@@ -517,10 +1267,11 @@ function scoreShowdownSet(spec: ShowdownSetSpec, answer: ShowdownSetAnswer): Eva
     ? 'Revisit each scenario to choose the stronger interface and supporting reasons.'
     : `Nice progress—${correctShowdowns} of ${totalShowdowns} showdowns are correct so far.`
 
+  // Accuracy reflects the first attempt, so a showdown solved by trial and error is not mastery
   const omiEvidence: OMIEvidence[] = Array.from(omiEvidenceMap.entries()).map(([omiId, stats]) => ({
     omiId,
     demonstrated: stats.demonstrated === stats.total,
-    accuracy: stats.total > 0 ? stats.demonstrated / stats.total : 0,
+    accuracy: stats.total > 0 ? stats.firstAttemptCorrect / stats.total : 0,
     timestamp: new Date().toISOString(),
   }))
 
@@ -528,14 +1279,208 @@ function scoreShowdownSet(spec: ShowdownSetSpec, answer: ShowdownSetAnswer): Eva
     gameId: spec.id,
     correct: allCorrect,
     score,
+    feedback: feedback + retrySummary(attempts),
+    omiEvidence,
+    attempts,
+  }
+}
+
+/**
+ * Each seeded violation earns a point for being flagged and a point for the
+ * right heuristic; each flag on a part without a violation costs a point.
+ */
+function scoreHeuristicEvaluation(spec: HeuristicEvaluationSpec, answer: HeuristicEvaluationAnswer): EvaluationResult {
+  const parts = indexMockup(spec)
+  const heuristicNames = new Map(spec.heuristics.map((heuristic) => [heuristic.id, heuristic.name]))
+  const violatedIds = new Set(spec.violations.map((violation) => violation.elementId))
+  let found = 0
+  let tagged = 0
+
+  const criteria: CriterionResult[] = spec.violations.map((violation) => {
+    const tag = answer.flags[violation.elementId]
+    const isTagged = tag !== undefined && violation.heuristicIds.includes(tag)
+    if (tag !== undefined) found++
+    if (isTagged) tagged++
+    const expected = violation.heuristicIds.map((id) => heuristicNames.get(id) ?? id).join(' or ')
+    const headline =
+      tag === undefined
+        ? `Missed: this breaks ${expected}.`
+        : !isTagged
+          ? `Found, but this breaks ${expected}, not ${heuristicNames.get(tag) ?? tag}.`
+          : undefined
+    return {
+      id: violation.elementId,
+      label: describeMockupPart(parts.get(violation.elementId)),
+      met: isTagged,
+      feedback: headline && violation.explanation ? `${headline} ${violation.explanation}` : headline,
+    }
+  })
+
+  const falseFlags = Object.keys(answer.flags).filter((id) => !violatedIds.has(id))
+  for (const id of falseFlags) {
+    criteria.push({
+      id,
+      label: describeMockupPart(parts.get(id)),
+      met: false,
+      feedback: 'This part does not break any of the heuristics.',
+    })
+  }
+
+  const total = spec.violations.length
+  const correct = tagged === total && falseFlags.length === 0
+  const accuracy = Math.max(0, (found + tagged - falseFlags.length) / (total * 2))
+  const omiEvidence = generateOMIEvidence(spec, correct, accuracy)
+  const falseFlagNote =
+    falseFlags.length > 0
+      ? ` ${falseFlags.length} flagged part${falseFlags.length === 1 ? ' has' : 's have'} no violation.`
+      : ''
+
+  return {
+    gameId: spec.id,
+    correct,
+    score: accuracy,
+    feedback: correct
+      ? `You found all ${total} violations and named the right heuristics!`
+      : `You found ${found} of ${total} violations and tagged ${tagged} with the right heuristic.${falseFlagNote}`,
+    omiEvidence,
+    criteria,
+  }
+}
+
+/**
+ * Adds up the scores of the choices taken and compares the total with the best
+ * route to an ending. Each decision at a node with omiMapping is its own piece
+ * of OMI evidence, rated against the best choice offered at that node.
+ */
+function scoreScenario(spec: ScenarioSpec, answer: ScenarioAnswer): EvaluationResult {
+  const replay = replayScenario(spec, answer)
+  const ending = replay.current?.ending
+  const correct = Boolean(ending?.successful)
+  const accumulated = replay.steps.reduce((total, step) => total + (step.choice.score ?? 0), 0)
+  const best = bestScenarioScore(spec)
+  // Without scored choices the ending alone decides the score
+  const score = best !== null && best > 0 ? Math.min(1, Math.max(0, accumulated / best)) : correct ? 1 : 0
+
+  const timestamp = new Date().toISOString()
+  const decisionEvidence: OMIEvidence[] = []
+  const criteria: CriterionResult[] = replay.steps.map(({ node, choice }) => {
+    const bestChoice = Math.max(...(node.choices ?? []).map((option) => option.score ?? 0))
+    const met = (choice.score ?? 0) >= bestChoice
+    if (bestChoice > 0) {
+      const accuracy = Math.max(0, choice.score ?? 0) / bestChoice
+      node.omiMapping?.forEach((omiId) => decisionEvidence.push({ omiId, demonstrated: met, accuracy, timestamp }))
+    }
+    return { id: node.id, label: choice.text, met, feedback: choice.feedback }
+  })
+
+  return {
+    gameId: spec.id,
+    correct,
+    score,
+    feedback: ending ? ending.feedback : 'The scenario has not reached an ending yet.',
+    omiEvidence: [...generateOMIEvidence(spec, correct, score), ...decisionEvidence],
+    criteria,
+    path: replay.path,
+  }
+}
+
+const DEFAULT_HOTSPOT_TOLERANCE = 2
+
+/**
+ * One point per region marked inside its outline. A mark up to `tolerance`
+ * percent outside the outline still counts, so a click on the edge of a small
+ * region is not lost to a few pixels.
+ */
+function scoreHotspot(spec: HotspotSpec, answer: HotspotAnswer): EvaluationResult {
+  const tolerance = spec.tolerance ?? DEFAULT_HOTSPOT_TOLERANCE
+  let hits = 0
+
+  const criteria: CriterionResult[] = spec.regions.map((region) => {
+    const point = answer.points[region.id]
+    const met = point !== undefined && isOnRegion(region, point, tolerance)
+    if (met) hits++
+    return {
+      id: region.id,
+      label: region.label,
+      met,
+      feedback: point === undefined ? 'Not placed.' : met ? undefined : 'Placed outside the region.',
+    }
+  })
+
+  const total = spec.regions.length
+  const correct = hits === total
+  const accuracy = hits / total
+  const omiEvidence = generateOMIEvidence(spec, correct, accuracy)
+  const action = spec.mode === 'click' ? 'found' : 'labelled'
+
+  let feedback = correct ? `You ${action} all ${total} parts correctly!` : `You ${action} ${hits} of ${total} parts correctly.`
+  if (!correct && spec.explanation) {
+    feedback += ` ${spec.explanation}`
+  }
+
+  return {
+    gameId: spec.id,
+    correct,
+    score: accuracy,
     feedback,
     omiEvidence,
+    criteria,
+  }
+}
+
+// Self-graded: a card counts when the learner says they recalled it
+function scoreFlashcards(spec: FlashcardsSpec, answer: FlashcardsAnswer): EvaluationResult {
+  let recalled = 0
+
+  const criteria: CriterionResult[] = spec.cards.map((card) => {
+    const grade = answer.grades[card.id]
+    const met = isRecalled(grade)
+    if (met) recalled++
+    return {
+      id: card.id,
+      label: card.front,
+      met,
+      feedback: grade === undefined ? 'Not reviewed.' : met ? undefined : 'Not recalled.',
+    }
+  })
+
+  const total = spec.cards.length
+  const correct = recalled === total
+  const accuracy = recalled / total
+  const omiEvidence = generateOMIEvidence(spec, correct, accuracy)
+
+  return {
+    gameId: spec.id,
+    correct,
+    score: accuracy,
+    feedback: correct ? `You recalled all ${total} cards!` : `You recalled ${recalled} of ${total} cards.`,
+    omiEvidence,
+    criteria,
+  }
+}
+
+/** Scores one activity of an activity-set with its single-game scorer, for per-activity feedback. */
+export function scoreActivity(activity: ActivitySpec, answer: AnswerPayload['payload']): EvaluationResult {
+  switch (activity.type) {
+    case 'mcq':
+      return scoreMcq(activity, answer as MCQAnswer)
+    case 'mcq-multi':
+      return scoreMcqMulti(activity, answer as MCQMultiAnswer)
+    case 'numeric':
+      return scoreNumeric(activity, answer as NumericAnswer)
+    case 'ordering':
+      return scoreOrdering(activity, answer as OrderingAnswer)
+    case 'pair-match':
+      return scorePairMatch(activity, answer as PairMatchAnswer)
+    case 'fill-in-the-blanks':
+      return scoreFillInTheBlanks(activity, answer as FillInTheBlanksAnswer)
   }
 }
 
 function scoreActivitySet(spec: ActivitySetSpec, answer: ActivitySetAnswer): EvaluationResult {
   const activityResults: Array<{ correct: boolean; accuracy: number; omiIds: string[] }> = []
   let totalCorrect = 0
+  let totalAccuracy = 0
   
   for (const activity of spec.activities) {
     const activityAnswer = answer.answers[activity.id]
@@ -552,50 +1497,44 @@ function scoreActivitySet(spec: ActivitySetSpec, answer: ActivitySetAnswer): Eva
         accuracy = correct ? 1 : 0
         break
       }
+      case 'mcq-multi': {
+        const mcqMultiAnswer = activityAnswer as { optionIds: string[] }
+        const grade = gradeMcqMultiSelection(activity, mcqMultiAnswer.optionIds)
+        correct = grade.correct
+        accuracy = grade.accuracy
+        break
+      }
+      case 'numeric': {
+        const grade = gradeNumericAnswer(activity, activityAnswer as NumericAnswer)
+        correct = grade.correct
+        accuracy = grade.accuracy
+        break
+      }
       case 'ordering': {
         const orderingAnswer = activityAnswer as { order: string[] }
-        correct = arraysMatch(activity.items, orderingAnswer.order)
-        // Calculate partial accuracy
-        let correctPositions = 0
-        for (let i = 0; i < activity.items.length; i++) {
-          if (activity.items[i] === orderingAnswer.order[i]) {
-            correctPositions++
-          }
-        }
-        accuracy = correctPositions / activity.items.length
+        const grade = gradeOrdering(activity.items, orderingAnswer.order, activity.scoring)
+        correct = grade.correct
+        accuracy = grade.accuracy
         break
       }
       case 'pair-match': {
         const pairMatchAnswer = activityAnswer as { matches: Array<{ left: string; right: string }> }
-        const expectedMap = new Map(activity.pairs.map((pair) => [pair.left, pair.right]))
-        const submittedMap = new Map(pairMatchAnswer.matches.map((match) => [match.left, match.right]))
-        
-        let correctMatches = 0
-        expectedMap.forEach((right, left) => {
-          if (submittedMap.get(left) === right) {
-            correctMatches++
-          }
-        })
-        
-        accuracy = expectedMap.size > 0 ? correctMatches / expectedMap.size : 0
-        correct = correctMatches === expectedMap.size && submittedMap.size === expectedMap.size
+        const grade = gradePairMatching(activity, pairMatchAnswer.matches, activity.scoring)
+        correct = grade.correct
+        accuracy = grade.accuracy
         break
       }
       case 'fill-in-the-blanks': {
-        const fillAnswer = activityAnswer as { answers: Record<string, string> }
-        let correctBlanks = 0
-        for (const sentence of activity.sentences) {
-          if (fillAnswer.answers[sentence.id] === sentence.blank_answer) {
-            correctBlanks++
-          }
-        }
-        accuracy = correctBlanks / activity.sentences.length
-        correct = correctBlanks === activity.sentences.length
+        const fillAnswer = activityAnswer as FillInTheBlanksAnswer
+        const { correctBlanks, totalBlanks } = gradeBlanks(activity, fillAnswer.answers)
+        accuracy = totalBlanks > 0 ? correctBlanks / totalBlanks : 0
+        correct = correctBlanks === totalBlanks
         break
       }
     }
     
     if (correct) totalCorrect++
+    totalAccuracy += accuracy
     
     const omiIds = activity.omiMapping || []
     activityResults.push({ correct, accuracy, omiIds })
@@ -625,7 +1564,7 @@ function scoreActivitySet(spec: ActivitySetSpec, answer: ActivitySetAnswer): Eva
   )
   
   const allCorrect = totalCorrect === spec.activities.length
-  const score = totalCorrect / spec.activities.length
+  const score = totalAccuracy / spec.activities.length
   
   return {
     gameId: spec.id,
@@ -640,23 +1579,45 @@ function scoreActivitySet(spec: ActivitySetSpec, answer: ActivitySetAnswer): Eva
 
 function scoreClassificationSet(spec: ClassificationSetSpec, answer: ClassificationSetAnswer): EvaluationResult {
   const activityResults: Array<{ correct: boolean; accuracy: number; omiIds: string[] }> = []
+  const criteria: CriterionResult[] = []
   let totalCorrect = 0
+  let totalAccuracy = 0
   
-  // Score each question
+  // Score each question; each item earns partial credit for the categories it got right
   for (const question of spec.questions) {
     const questionAnswers = answer.answers[question.id] || {}
+    const categoryNames = new Map(question.categories.map((category) => [category.id, category.name]))
+    const names = (ids: string[]) => ids.map((id) => categoryNames.get(id) ?? id).join(', ')
     
-    let correctClassifications = 0
+    let credit = 0
     for (const item of question.items) {
-      const assignedCategoryId = questionAnswers[item.id]
-      if (assignedCategoryId === item.correctCategoryId) {
-        correctClassifications++
+      const placed = questionAnswers[item.id]
+      const grade = gradeClassificationItem(item.correctCategoryIds, placed)
+      credit += grade.credit
+
+      const notes: string[] = []
+      if (placed === undefined) {
+        notes.push('Not placed.')
+      } else if (item.correctCategoryIds.length === 0 && placed.length > 0) {
+        notes.push(`Belongs in ${question.noneBin ?? 'no category'}.`)
+      } else {
+        if (grade.extra.length > 0) notes.push(`Does not belong in ${names(grade.extra)}.`)
+        if (grade.missing.length > 0) notes.push(`${placed.length > 0 ? 'Also belongs' : 'Belongs'} in ${names(grade.missing)}.`)
       }
+      if (notes.length > 0 && item.explanation) notes.push(item.explanation)
+
+      criteria.push({
+        id: `${question.id}/${item.id}`,
+        label: item.text,
+        met: grade.credit === 1,
+        feedback: notes.length > 0 ? notes.join(' ') : undefined,
+      })
     }
     
-    const accuracy = question.items.length > 0 ? correctClassifications / question.items.length : 0
-    const correct = correctClassifications === question.items.length
+    const accuracy = question.items.length > 0 ? credit / question.items.length : 0
+    const correct = accuracy === 1
     if (correct) totalCorrect++
+    totalAccuracy += accuracy
     
     // Get OMI IDs for this question
     const omiIds = question.omiMapping || []
@@ -687,7 +1648,7 @@ function scoreClassificationSet(spec: ClassificationSetSpec, answer: Classificat
   )
   
   const allCorrect = totalCorrect === spec.questions.length
-  const score = spec.questions.length > 0 ? totalCorrect / spec.questions.length : 0
+  const score = spec.questions.length > 0 ? totalAccuracy / spec.questions.length : 0
   
   return {
     gameId: spec.id,
@@ -697,5 +1658,6 @@ function scoreClassificationSet(spec: ClassificationSetSpec, answer: Classificat
       ? `Perfect! You correctly classified all items in ${spec.questions.length} ${spec.questions.length === 1 ? 'question' : 'questions'}!`
       : `You got ${totalCorrect} out of ${spec.questions.length} ${spec.questions.length === 1 ? 'question' : 'questions'} completely correct.`,
     omiEvidence,
+    criteria,
   }
 }
@@ -0,0 +1,74 @@
+// Unit parsing for numeric answers: SI prefixes on top of a small set of base units
+
+export interface ParsedUnit {
+  base: string // Canonical symbol, e.g. "A" or "Ω"
+  factor: number // Multiplier to the base unit, e.g. 0.001 for mA
+}
+
+// Symbols are case-sensitive ("m" is metre, "M" is mega); names are not
+const baseUnits: Array<{ symbol: string; names: string[] }> = [
+  { symbol: 'A', names: ['amp', 'amps', 'ampere', 'amperes'] },
+  { symbol: 'V', names: ['volt', 'volts'] },
+  { symbol: 'Ω', names: ['ohm', 'ohms'] },
+  { symbol: 'W', names: ['watt', 'watts'] },
+  { symbol: 'J', names: ['joule', 'joules'] },
+  { symbol: 'C', names: ['coulomb', 'coulombs'] },
+  { symbol: 'F', names: ['farad', 'farads'] },
+  { symbol: 'H', names: ['henry', 'henries', 'henrys'] },
+  { symbol: 'Hz', names: ['hertz'] },
+  { symbol: 'N', names: ['newton', 'newtons'] },
+  { symbol: 'Pa', names: ['pascal', 'pascals'] },
+  { symbol: 's', names: ['sec', 'secs', 'second', 'seconds'] },
+  { symbol: 'm', names: ['metre', 'metres', 'meter', 'meters'] },
+  { symbol: 'g', names: ['gram', 'grams'] },
+]
+
+const prefixes: Array<{ symbols: string[]; name: string; factor: number }> = [
+  { symbols: ['G'], name: 'giga', factor: 1e9 },
+  { symbols: ['M'], name: 'mega', factor: 1e6 },
+  { symbols: ['k'], name: 'kilo', factor: 1e3 },
+  { symbols: ['c'], name: 'centi', factor: 1e-2 },
+  { symbols: ['m'], name: 'milli', factor: 1e-3 },
+  { symbols: ['μ', 'u'], name: 'micro', factor: 1e-6 },
+  { symbols: ['n'], name: 'nano', factor: 1e-9 },
+  { symbols: ['p'], name: 'pico', factor: 1e-12 },
+]
+
+/** Every prefix multiplier, including 1 for no prefix. */
+export const PREFIX_FACTORS = [1, ...prefixes.map((prefix) => prefix.factor)]
+
+function parseBase(text: string): string | null {
+  const bySymbol = baseUnits.find((unit) => unit.symbol === text)
+  if (bySymbol) return bySymbol.symbol
+  const byName = baseUnits.find((unit) => unit.names.includes(text.toLowerCase()))
+  return byName?.symbol ?? null
+}
+
+/**
+ * Parses a unit such as "mA", "kΩ", "kohm" or "milliamps". Returns null for
+ * anything that is not a known base unit with at most one SI prefix.
+ */
+export function parseUnit(text: string): ParsedUnit | null {
+  // NFKC folds the ohm sign (U+2126) into omega and the micro sign into mu
+  const unit = text.normalize('NFKC').replace(/\s+/g, '')
+  if (!unit) return null
+
+  const base = parseBase(unit)
+  if (base) return { base, factor: 1 }
+
+  for (const prefix of prefixes) {
+    const rests = prefix.symbols
+      .filter((symbol) => unit.startsWith(symbol))
+      .map((symbol) => unit.slice(symbol.length))
+    if (unit.toLowerCase().startsWith(prefix.name)) rests.push(unit.slice(prefix.name.length))
+    for (const rest of rests) {
+      const prefixedBase = rest ? parseBase(rest) : null
+      if (prefixedBase) return { base: prefixedBase, factor: prefix.factor }
+    }
+  }
+  return null
+}
+
+export function sameUnit(a: ParsedUnit, b: ParsedUnit): boolean {
+  return a.base === b.base && a.factor === b.factor
+}
@@ -0,0 +1,73 @@
+import { checkAssessmentReferences, parseAssessment } from '../domain/assessment'
+import { migrateSpec } from '../domain/migrations'
+import type { AssessmentIssue, GameSetSource } from '../domain/assessment'
+import type { AssessmentManifest } from '../domain/schema'
+
+export type JsonReader = (path: string) => Promise<unknown>
+
+export interface AssessmentLoadResult {
+  manifest: AssessmentManifest | null
+  gameSets: GameSetSource[]
+  issues: AssessmentIssue[]
+}
+
+export async function fetchJson(path: string): Promise<unknown> {
+  const response = await fetch(path)
+  if (!response.ok) {
+    throw new Error(`Failed to load: ${response.status}`)
+  }
+  return response.json()
+}
+
+/**
+ * Loads an assessment manifest, validates it, loads and migrates every listed
+ * game set and checks the cross-file references. The reader is injectable so the same
+ * pipeline runs against the filesystem in Node.
+ */
+export async function loadAssessment(
+  manifestPath: string,
+  readJson: JsonReader = fetchJson,
+): Promise<AssessmentLoadResult> {
+  let raw: unknown
+  try {
+    raw = await readJson(manifestPath)
+  } catch (error) {
+    return {
+      manifest: null,
+      gameSets: [],
+      issues: [
+        {
+          severity: 'error',
+          code: 'missing-manifest',
+          source: manifestPath,
+          path: '$',
+          message: error instanceof Error ? error.message : 'Failed to load assessment manifest',
+        },
+      ],
+    }
+  }
+
+  const { manifest, issues } = parseAssessment(raw, manifestPath)
+  if (!manifest) {
+    return { manifest: null, gameSets: [], issues }
+  }
+
+  const gameSets = await Promise.all(
+    manifest.gameSets.map(async (entry): Promise<GameSetSource> => {
+      let raw: unknown
+      try {
+        raw = await readJson(entry.path)
+      } catch (error) {
+        return { entry, source: null, error: error instanceof Error ? error.message : 'Fetch failed' }
+      }
+      const { spec, applied, error } = migrateSpec(raw, { manifest })
+      return { entry, source: spec, migrations: applied, error }
+    }),
+  )
+
+  return {
+    manifest,
+    gameSets,
+    issues: checkAssessmentReferences(manifest, manifestPath, gameSets),
+  }
+}
@@ -0,0 +1,39 @@
+import type { EvaluationRequest, EvaluationResult } from '../domain/events'
+
+let sessionId: string | null = null
+
+/**
+ * Names this page load for the evaluator, which counts retries per session.
+ * The id is made on first use because crypto.randomUUID only exists on
+ * secure origins; elsewhere it falls back to getRandomValues.
+ */
+export function getEvaluationSessionId(): string {
+  sessionId ??=
+    typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('')
+  return sessionId
+}
+
+async function post(endpoint: string, request: EvaluationRequest): Promise<Response> {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  })
+  if (!response.ok) {
+    throw new Error(`Evaluation failed: ${response.status}`)
+  }
+  return response
+}
+
+/** Posts an answer to an HTTP evaluator such as `render-engine serve` and returns its result. */
+export async function requestEvaluation(endpoint: string, request: EvaluationRequest): Promise<EvaluationResult> {
+  const response = await post(endpoint, request)
+  return response.json()
+}
+
+/** Tells the evaluator that one question of a set was checked, so it counts the attempt. */
+export async function reportCheck(endpoint: string, request: EvaluationRequest & { questionId: string }): Promise<void> {
+  await post(endpoint, request)
+}
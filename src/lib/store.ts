@@ -1,7 +1,8 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { AnswerPayload } from '../domain/schema'
+import type { AnswerPayload, FlashcardGrade } from '../domain/schema'
 import type { EvaluationResult, OMIEvidence, OMIMasteryLevel } from '../domain/events'
+import { flashcardKey, scheduleReview, type FlashcardReview } from '../domain/flashcards'
 
 interface TimerState {
   remainingSec: number
@@ -28,6 +29,7 @@ interface SubmittedQuestion {
   gameId: string
   questionId: string
   correct: boolean
+  attempts?: number // Checks it took; missing from progress saved before attempts were counted
   timestamp: string
 }
 
@@ -38,6 +40,7 @@ interface RendererState {
   omiProgress: Record<string, OMIProgress> // keyed by omiId
   askedQuestions: AskedQuestion[] // Track all asked questions
   submittedQuestions: SubmittedQuestion[] // Track all submitted questions
+  flashcardReviews: Record<string, FlashcardReview> // keyed by flashcardKey(deckId, cardId)
   setAnswer: (gameId: string, answer: AnswerPayload | undefined) => void
   setEvaluation: (gameId: string, result: EvaluationResult | undefined) => void
   clearAnswer: (gameId: string) => void
@@ -51,8 +54,9 @@ interface RendererState {
   markQuestionAsked: (specPath: string, questionId: string) => void
   isQuestionAsked: (specPath: string, questionId: string) => boolean
   resetAskedQuestions: () => void
-  markQuestionSubmitted: (gameId: string, questionId: string, correct: boolean) => void
+  markQuestionSubmitted: (gameId: string, questionId: string, correct: boolean, attempts?: number) => void
   getSubmittedQuestionsForGame: (gameId: string) => SubmittedQuestion[]
+  reviewFlashcard: (deckId: string, cardId: string, grade: FlashcardGrade) => void
   resetAllProgress: () => void
 }
 
@@ -83,6 +87,7 @@ export const useRendererStore = create<RendererState>()(
       omiProgress: {},
       askedQuestions: [],
       submittedQuestions: [],
+      flashcardReviews: {},
       setAnswer: (gameId, answer) =>
         set((state) => ({
           answers: { ...state.answers, [gameId]: answer },
@@ -193,13 +198,13 @@ export const useRendererStore = create<RendererState>()(
       },
       resetAskedQuestions: () =>
         set({ askedQuestions: [] }),
-      markQuestionSubmitted: (gameId, questionId, correct) =>
+      markQuestionSubmitted: (gameId, questionId, correct, attempts = 1) =>
         set((state) => {
           const existingIndex = state.submittedQuestions.findIndex(
             (entry) => entry.gameId === gameId && entry.questionId === questionId,
           )
 
-          const submission = { gameId, questionId, correct, timestamp: new Date().toISOString() }
+          const submission = { gameId, questionId, correct, attempts, timestamp: new Date().toISOString() }
 
           if (existingIndex >= 0) {
             const next = [...state.submittedQuestions]
@@ -214,11 +219,22 @@ export const useRendererStore = create<RendererState>()(
       getSubmittedQuestionsForGame: (gameId) => {
         return get().submittedQuestions.filter((q) => q.gameId === gameId)
       },
+      reviewFlashcard: (deckId, cardId, grade) =>
+        set((state) => {
+          const key = flashcardKey(deckId, cardId)
+          return {
+            flashcardReviews: {
+              ...state.flashcardReviews,
+              [key]: scheduleReview(state.flashcardReviews[key], grade),
+            },
+          }
+        }),
       resetAllProgress: () =>
         set({ 
           omiProgress: {}, 
           askedQuestions: [],
           submittedQuestions: [],
+          flashcardReviews: {},
           answers: {},
           evaluations: {},
           timers: {},
@@ -230,6 +246,7 @@ export const useRendererStore = create<RendererState>()(
         omiProgress: state.omiProgress,
         askedQuestions: state.askedQuestions,
         submittedQuestions: state.submittedQuestions,
+        flashcardReviews: state.flashcardReviews,
       }),
     }
   )